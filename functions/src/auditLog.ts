@@ -0,0 +1,235 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {
+  onDocumentWrittenWithAuthContext,
+  FirestoreAuthEvent,
+  Change,
+  DocumentSnapshot,
+} from "firebase-functions/v2/firestore";
+
+const db = admin.firestore();
+
+// One entry per write to an order or return - only ever created here, never updated or deleted
+const AUDIT_LOG_COLLECTION = "auditLog";
+
+// Who a change is credited to when nobody stamped updatedBy with it
+const SYSTEM_ACTOR = "system";
+
+// Long free-text values (notes) are cut down to keep entries small
+const MAX_VALUE_LENGTH = 2000;
+
+type AuditCollection = "orders" | "returns";
+type AuditAction = "create" | "update" | "delete";
+
+interface AuditChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+interface AuditEntry {
+  collection: AuditCollection;
+  docId: string;
+  orderNumber: string;
+  item: string;
+  action: AuditAction;
+  changes: AuditChange[];
+  fields: string[];
+  changedBy: string;
+  changedAt: FirebaseFirestore.Timestamp;
+}
+
+// Bookkeeping and cached carrier status - rewritten constantly and never edited by hand
+const IGNORED_FIELDS = new Set([
+  "updatedAt",
+  "updatedBy",
+  "trackingStatus",
+  "trackingStatusDetails",
+  "trackingEta",
+  "trackingLastChecked",
+  "returnTrackingStatus",
+  "returnTrackingStatusDetails",
+  "returnTrackingEta",
+  "returnTrackingLastChecked",
+]);
+
+// Maps whose keys are diffed one by one ("purchaseOrder.receivedAt") instead of as a whole
+const NESTED_FIELDS = new Set(["purchaseOrder"]);
+
+const IGNORED_NESTED_FIELDS = new Set([
+  "updatedAt",
+  "updatedBy",
+  "awaitingSupplier",
+  "inboundTrackingStatus",
+  "inboundTrackingStatusDetails",
+  "inboundTrackingEta",
+  "inboundTrackingLastChecked",
+]);
+
+// Helper to turn a Firestore value into something readable and comparable
+const normalizeValue = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  if (typeof value === "string" && value.length > MAX_VALUE_LENGTH) {
+    return `${value.slice(0, MAX_VALUE_LENGTH)}…`;
+  }
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, normalizeValue(v)])
+    );
+  }
+  return value;
+};
+
+// Helper to compare normalized values (maps and arrays by content)
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Helper to list the field-level differences between two versions of a doc
+const diffFields = (
+  before: FirebaseFirestore.DocumentData,
+  after: FirebaseFirestore.DocumentData,
+  ignored: Set<string>,
+  prefix = ""
+): AuditChange[] => {
+  const changes: AuditChange[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const field of [...fields].sort()) {
+    if (ignored.has(field)) continue;
+
+    if (!prefix && NESTED_FIELDS.has(field)) {
+      changes.push(...diffFields(
+        before[field] || {},
+        after[field] || {},
+        IGNORED_NESTED_FIELDS,
+        `${field}.`
+      ));
+      continue;
+    }
+
+    const oldValue = normalizeValue(before[field]);
+    const newValue = normalizeValue(after[field]);
+    if (!sameValue(oldValue, newValue)) {
+      changes.push({field: `${prefix}${field}`, oldValue, newValue});
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Work out who an admin-SDK write (our own functions) was made for
+ * Functions stamp updatedBy alongside updatedAt, so the stamp only counts when
+ * updatedAt moved in this write - otherwise it belongs to an earlier change
+ */
+const getStampedActor = (
+  before: FirebaseFirestore.DocumentData | undefined,
+  after: FirebaseFirestore.DocumentData | undefined
+): string => {
+  if (!after) return SYSTEM_ACTOR;
+  if (!before) return after.updatedBy || SYSTEM_ACTOR;
+  if (after.updatedBy && !sameValue(normalizeValue(before.updatedAt), normalizeValue(after.updatedAt))) {
+    return after.updatedBy;
+  }
+  return SYSTEM_ACTOR;
+};
+
+/**
+ * Work out who made a write from the event's auth context
+ * Signed-in users are identified by their auth ID, so a client can't credit
+ * its change to someone else; updatedBy is only trusted for service-account writes
+ */
+async function getActor(
+  event: FirestoreAuthEvent<Change<DocumentSnapshot> | undefined, Record<string, string>>,
+  before: FirebaseFirestore.DocumentData | undefined,
+  after: FirebaseFirestore.DocumentData | undefined
+): Promise<string> {
+  if (event.authType === "service_account" || event.authType === "system") {
+    return getStampedActor(before, after);
+  }
+  if (!event.authId) return event.authType || SYSTEM_ACTOR;
+
+  try {
+    const user = await admin.auth().getUser(event.authId);
+    return user.email || event.authId;
+  } catch (error) {
+    logger.warn(`Couldn't look up the user behind ${event.document}`, {authId: event.authId, error});
+    return event.authId;
+  }
+}
+
+// Helper to build the audit entry for a write (null if nothing worth recording changed)
+const buildAuditEntry = (
+  collectionName: AuditCollection,
+  docId: string,
+  before: FirebaseFirestore.DocumentData | undefined,
+  after: FirebaseFirestore.DocumentData | undefined,
+  changedAt: FirebaseFirestore.Timestamp
+): Omit<AuditEntry, "changedBy"> | null => {
+  if (!before && !after) return null;
+
+  const action: AuditAction = !before ? "create" : !after ? "delete" : "update";
+  const changes = diffFields(before || {}, after || {}, IGNORED_FIELDS);
+  if (action === "update" && changes.length === 0) return null;
+
+  const current = after || before || {};
+  return {
+    collection: collectionName,
+    docId,
+    orderNumber: String(current.orderNumber || ""),
+    item: String(current.item || ""),
+    action,
+    changes,
+    fields: changes.map((change) => change.field),
+    changedAt,
+  };
+};
+
+// Helper to record one write - keyed by the event ID so a retried trigger can't log it twice
+async function recordAuditEntry(
+  collectionName: AuditCollection,
+  event: FirestoreAuthEvent<Change<DocumentSnapshot> | undefined, Record<string, string>>,
+  docId: string
+): Promise<void> {
+  const before = event.data?.before?.data();
+  const after = event.data?.after?.data();
+  const entry = buildAuditEntry(
+    collectionName,
+    docId,
+    before,
+    after,
+    admin.firestore.Timestamp.fromDate(new Date(event.time))
+  );
+  if (!entry) return;
+
+  try {
+    const changedBy = await getActor(event, before, after);
+    await db.collection(AUDIT_LOG_COLLECTION).doc(event.id).create({...entry, changedBy});
+  } catch (error) {
+    // ALREADY_EXISTS - this event was recorded on an earlier attempt
+    if ((error as {code?: number}).code === 6) return;
+    logger.error(`Error recording audit entry for ${collectionName}/${docId}:`, error);
+  }
+}
+
+/**
+ * Firestore Trigger: Record every change to an order in the audit log
+ */
+export const auditOrderChanges = onDocumentWrittenWithAuthContext(
+  "orders/{orderId}",
+  async (event) => {
+    await recordAuditEntry("orders", event, event.params.orderId);
+  }
+);
+
+/**
+ * Firestore Trigger: Record every change to a return in the audit log
+ */
+export const auditReturnChanges = onDocumentWrittenWithAuthContext(
+  "returns/{returnId}",
+  async (event) => {
+    await recordAuditEntry("returns", event, event.params.returnId);
+  }
+);
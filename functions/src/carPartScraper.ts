@@ -1,6 +1,7 @@
 import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
 import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {requireRole} from "./roles";
 import axios from "axios";
 // Fixed cheerio import for Firebase Functions compatibility
 import {load as cheerioLoad} from "cheerio";
@@ -98,6 +99,7 @@ export async function scrapeCarPartPricing(
 export const checkCarPartVariants = onCall(
   {cors: true, timeoutSeconds: 60},
   async (request) => {
+    requireRole(request, "employee");
     const {year, make, model, part, postalCode = "60018"} = request.data;
 
     if (!year || !make || !model || !part) {
@@ -133,6 +135,7 @@ export const checkCarPartVariants = onCall(
 export const fetchCarPartPricing = onCall(
   {cors: true, timeoutSeconds: 120},
   async (request) => {
+    requireRole(request, "employee");
     const {
       year,
       make,
@@ -725,6 +728,7 @@ function calculateMetrics(listings: CarPartListing[], totalPages: number): Prici
 export const updateItemPricing = onCall(
   {cors: true},
   async (request) => {
+    requireRole(request, "employee");
     const {itemId, pricingData, vehicleInfo} = request.data;
 
     if (!itemId) {
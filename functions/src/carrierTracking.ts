@@ -0,0 +1,111 @@
+import {defineString} from "firebase-functions/params";
+import {fetchShippoTracking, TrackingResult} from "./shippoTracking";
+import {OrderStatus, withLegacyAliases} from "./orderStatus";
+
+// "shippo" in production; "mock" in the emulator so refreshes never hit Shippo
+const trackingAdapter = defineString("TRACKING_ADAPTER", {default: "shippo"});
+
+// Order statuses that can still be waiting on a carrier
+export const IN_FLIGHT_ORDER_STATUSES = withLegacyAliases(["not shipped", "processing", "shipped"]);
+
+// Field names differ between an order's outbound label and a return's inbound one
+export interface TrackingFields {
+  tracking: string;
+  carrier: string;
+  status: string;
+  statusDetails: string;
+  eta: string;
+  lastChecked: string;
+  inFlightStatuses: string[]; // statuses still waiting on the carrier
+  deliveredStatus: OrderStatus;
+}
+
+export const ORDER_TRACKING_FIELDS: TrackingFields = {
+  tracking: "tracking",
+  carrier: "carrier",
+  status: "trackingStatus",
+  statusDetails: "trackingStatusDetails",
+  eta: "trackingEta",
+  lastChecked: "trackingLastChecked",
+  inFlightStatuses: IN_FLIGHT_ORDER_STATUSES,
+  deliveredStatus: "delivered",
+};
+
+export const RETURN_TRACKING_FIELDS: TrackingFields = {
+  tracking: "returnTracking",
+  carrier: "returnCarrier",
+  status: "returnTrackingStatus",
+  statusDetails: "returnTrackingStatusDetails",
+  eta: "returnTrackingEta",
+  lastChecked: "returnTrackingLastChecked",
+  inFlightStatuses: ["return"],
+  deliveredStatus: "return delivered",
+};
+
+/**
+ * Looks up the current tracking status for a shipment
+ * Scheduled refresh only talks to carriers through this interface
+ */
+export interface CarrierAdapter {
+  name: string;
+  track(carrier: string, trackingNumber: string): Promise<TrackingResult>;
+}
+
+// Helper to build the Shippo-backed adapter
+export const createShippoAdapter = (apiKey: string): CarrierAdapter => ({
+  name: "shippo",
+  track: (carrier, trackingNumber) =>
+    fetchShippoTracking(apiKey, carrier, trackingNumber),
+});
+
+/**
+ * Deterministic adapter for the emulator and tests
+ * Tracking numbers ending in "DLV" are delivered, "FAIL" failed,
+ * "RTS" returned to sender; everything else is in transit
+ */
+export const createMockCarrierAdapter = (): CarrierAdapter => ({
+  name: "mock",
+  track: async (_carrier, trackingNumber) => {
+    const upper = trackingNumber.toUpperCase();
+    let status = "TRANSIT";
+    let statusDetails = "In transit (mock)";
+    if (upper.endsWith("DLV")) {
+      status = "DELIVERED";
+      statusDetails = "Delivered (mock)";
+    } else if (upper.endsWith("FAIL")) {
+      status = "FAILURE";
+      statusDetails = "Delivery failed (mock)";
+    } else if (upper.endsWith("RTS")) {
+      status = "RETURNED";
+      statusDetails = "Returned to sender (mock)";
+    }
+
+    const statusDate = new Date().toISOString();
+    const eta = status === "TRANSIT" ?
+      new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString() :
+      null;
+
+    return {
+      status,
+      statusDetails,
+      eta,
+      history: [{
+        id: `mock-${trackingNumber}-${status}`,
+        status,
+        substatus: null,
+        statusDetails,
+        statusDate,
+        location: null,
+      }],
+    };
+  },
+});
+
+/**
+ * Pick the adapter configured for this deployment
+ */
+export function getCarrierAdapter(shippoApiKey: string): CarrierAdapter {
+  return trackingAdapter.value() === "mock" ?
+    createMockCarrierAdapter() :
+    createShippoAdapter(shippoApiKey);
+}
@@ -0,0 +1,335 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {requireRole} from "./roles";
+
+const db = admin.firestore();
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recent demand is blended with a longer window so one slow month doesn't
+// zero out a part that sells a few times a year
+const RECENT_WINDOW_DAYS = 90;
+const LONG_WINDOW_DAYS = 730;
+
+// Need a full year of months (and a handful of sales) before trusting a
+// seasonal pattern, and three years before trusting it completely
+const MIN_SEASONAL_MONTHS = 12;
+const FULL_SEASONAL_MONTHS = 36;
+const MIN_SEASONAL_SALES = 6;
+
+// Index above this marks a peak month
+const PEAK_MONTH_INDEX = 1.3;
+
+// ~80% confidence band
+const BAND_Z = 1.28;
+
+// Stop looking for the next sale after a year - that's dead stock
+const MAX_NEXT_SALE_DAYS = 365;
+
+export interface ForecastBand {
+  expected: number;
+  low: number;
+  high: number;
+}
+
+export interface DemandForecast {
+  next30: ForecastBand;
+  next60: ForecastBand;
+  next90: ForecastBand;
+  expectedDaysToNextSale: number | null; // null = not expected within a year
+  dailyRate: number; // seasonally adjusted units/day
+  seasonalIndex: number[]; // Jan..Dec, 1 = average month
+  isSeasonal: boolean;
+  peakMonths: number[]; // 1-12
+  salesConsidered: number;
+  method: "seasonal_poisson_v1";
+}
+
+// Daily buckets only cover this many days (SALES_BY_DAY_RETENTION in itemStats.ts) -
+// longer windows are counted from the monthly buckets
+const SALES_BY_DAY_DAYS = 90;
+
+// The item's aggregate sale buckets - the nightly run never reads the sales subcollection
+export interface SaleBuckets {
+  salesByDay: Record<string, number> | null; // "2025-01-15" -> sales, last 90 days
+  salesByMonth: Record<string, number>; // "2025-01" -> sales
+  firstSaleDate: Date | null;
+}
+
+// Helper to get day key (e.g., "2025-01-15") - matches itemStats.salesByDay
+const getDayKey = (date: Date): string => date.toISOString().substring(0, 10);
+
+// Helper to get month key (e.g., "2025-01") - matches itemStats.salesByMonth
+const getMonthKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  return `${year}-${month}`;
+};
+
+// Helper to round to one decimal place
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Month-of-year demand index from salesByMonth
+ * Only complete months between the first sale and now count, and the index
+ * is shrunk toward 1 until there are a few years of history
+ */
+function buildSeasonalIndex(
+  salesByMonth: Record<string, number>,
+  firstSaleDate: Date,
+  now: Date
+): number[] {
+  const flat = new Array(12).fill(1);
+  const totals = new Array(12).fill(0);
+  const observed = new Array(12).fill(0);
+
+  const cursor = new Date(firstSaleDate.getFullYear(), firstSaleDate.getMonth(), 1);
+  const end = new Date(now.getFullYear(), now.getMonth(), 1);
+  let monthsCovered = 0;
+
+  while (cursor < end) {
+    const month = cursor.getMonth();
+    totals[month] += salesByMonth[getMonthKey(cursor)] || 0;
+    observed[month]++;
+    monthsCovered++;
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  const totalSales = totals.reduce((sum, total) => sum + total, 0);
+  if (monthsCovered < MIN_SEASONAL_MONTHS || totalSales < MIN_SEASONAL_SALES) return flat;
+
+  const averages = totals.map((total, i) => observed[i] > 0 ? total / observed[i] : 0);
+  const mean = averages.reduce((sum, avg) => sum + avg, 0) / 12;
+
+  const weight = Math.min(1, monthsCovered / FULL_SEASONAL_MONTHS);
+  return averages.map((avg) => {
+    const raw = 1 + (avg / mean - 1) * weight;
+    return Math.round(Math.min(3, Math.max(0.2, raw)) * 100) / 100;
+  });
+}
+
+// Helper to sum the seasonal index over a run of days (the "exposure")
+const seasonalExposure = (
+  seasonalIndex: number[],
+  start: Date,
+  days: number,
+  direction: 1 | -1
+): number => {
+  let exposure = 0;
+  for (let d = 1; d <= days; d++) {
+    const day = new Date(start.getTime() + direction * d * ONE_DAY_MS);
+    exposure += seasonalIndex[day.getMonth()];
+  }
+  return exposure;
+};
+
+/**
+ * Count the sales in the trailing window ending now
+ * Daily buckets are exact; monthly buckets that straddle the window start are
+ * prorated by how much of the month (so far) falls inside it
+ */
+function countSalesSince(buckets: SaleBuckets, since: Date, now: Date): number {
+  const windowDays = (now.getTime() - since.getTime()) / ONE_DAY_MS;
+  if (buckets.salesByDay && windowDays <= SALES_BY_DAY_DAYS) {
+    const sinceKey = getDayKey(since);
+    return Object.entries(buckets.salesByDay)
+      .filter(([dayKey]) => dayKey >= sinceKey)
+      .reduce((sum, [, count]) => sum + count, 0);
+  }
+
+  let count = 0;
+  for (const [monthKey, monthCount] of Object.entries(buckets.salesByMonth)) {
+    const [year, month] = monthKey.split("-").map(Number);
+    const monthStart = new Date(year, month - 1, 1);
+    const monthEnd = new Date(Math.min(new Date(year, month, 1).getTime(), now.getTime()));
+    const covered = monthEnd.getTime() - monthStart.getTime();
+    const inside = monthEnd.getTime() - Math.max(monthStart.getTime(), since.getTime());
+    if (covered <= 0 || inside <= 0) continue;
+    count += monthCount * Math.min(1, inside / covered);
+  }
+  return count;
+}
+
+// Helper to build a band around an expected count
+// Poisson variance plus the uncertainty of a rate fitted from few sales
+const buildBand = (expected: number, observations: number): ForecastBand => {
+  const variance = expected + (expected * expected) / Math.max(1, observations);
+  const sd = Math.sqrt(variance);
+  return {
+    expected: round1(expected),
+    low: round1(Math.max(0, expected - BAND_Z * sd)),
+    high: round1(expected + BAND_Z * sd),
+  };
+};
+
+/**
+ * Fit per-item demand from its sale buckets with month-of-year seasonality
+ * Sales are treated as a Poisson process whose rate is scaled by the
+ * seasonal index of each future day
+ */
+export function computeDemandForecast(
+  buckets: SaleBuckets,
+  now: Date = new Date()
+): DemandForecast {
+  const firstSaleDate = buckets.firstSaleDate && buckets.firstSaleDate <= now ?
+    buckets.firstSaleDate :
+    now;
+  const activeDays = Math.max(1, Math.floor((now.getTime() - firstSaleDate.getTime()) / ONE_DAY_MS));
+  const seasonalIndex = buildSeasonalIndex(buckets.salesByMonth, firstSaleDate, now);
+
+  // Seasonally adjusted rate over a trailing window
+  const windowRate = (windowDays: number): {rate: number; count: number} => {
+    const days = Math.min(windowDays, activeDays);
+    const count = countSalesSince(buckets, new Date(now.getTime() - days * ONE_DAY_MS), now);
+    const exposure = seasonalExposure(seasonalIndex, now, days, -1);
+    return {rate: exposure > 0 ? count / exposure : 0, count};
+  };
+
+  const recent = windowRate(RECENT_WINDOW_DAYS);
+  const long = windowRate(LONG_WINDOW_DAYS);
+  const dailyRate = (recent.rate + long.rate) / 2;
+
+  const expectedOver = (days: number) =>
+    dailyRate * seasonalExposure(seasonalIndex, now, days, 1);
+
+  // Days until one sale is expected
+  let expectedDaysToNextSale: number | null = null;
+  if (dailyRate > 0) {
+    let cumulative = 0;
+    for (let d = 1; d <= MAX_NEXT_SALE_DAYS; d++) {
+      const day = new Date(now.getTime() + d * ONE_DAY_MS);
+      cumulative += dailyRate * seasonalIndex[day.getMonth()];
+      if (cumulative >= 1) {
+        expectedDaysToNextSale = d;
+        break;
+      }
+    }
+  }
+
+  const peakMonths = seasonalIndex
+    .map((index, i) => ({index, month: i + 1}))
+    .filter(({index}) => index >= PEAK_MONTH_INDEX)
+    .map(({month}) => month);
+
+  return {
+    next30: buildBand(expectedOver(30), long.count),
+    next60: buildBand(expectedOver(60), long.count),
+    next90: buildBand(expectedOver(90), long.count),
+    expectedDaysToNextSale,
+    dailyRate: Math.round(dailyRate * 10000) / 10000,
+    seasonalIndex,
+    isSeasonal: peakMonths.length > 0,
+    peakMonths,
+    salesConsidered: Math.round(long.count),
+    method: "seasonal_poisson_v1",
+  };
+}
+
+// Helper to compute an item's forecast from the buckets on its itemStats doc
+const forecastForItem = (data: FirebaseFirestore.DocumentData, now: Date): DemandForecast =>
+  computeDemandForecast({
+    salesByDay: data.salesByDay || null,
+    salesByMonth: data.salesByMonth || {},
+    firstSaleDate: data.firstSaleDate?.toDate() || null,
+  }, now);
+
+/**
+ * Scheduled Function: Recalculate demand forecasts for every item
+ * Runs every day at 3 AM (after the stale metrics job)
+ */
+export const calculateDemandForecasts = onSchedule(
+  {
+    schedule: "0 3 * * *",
+    timeZone: "America/Chicago",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    logger.info("Starting demand forecast calculation");
+
+    const now = new Date();
+    let batch = db.batch();
+    let pending = 0;
+    let updateCount = 0;
+
+    try {
+      const itemStatsSnapshot = await db.collection("itemStats").get();
+
+      for (const doc of itemStatsSnapshot.docs) {
+        const forecast = forecastForItem(doc.data(), now);
+
+        batch.update(doc.ref, {
+          forecast: {
+            ...forecast,
+            calculatedAt: admin.firestore.Timestamp.fromDate(now),
+          },
+        });
+        pending++;
+        updateCount++;
+
+        // Commit in batches of 500
+        if (pending === 500) {
+          await batch.commit();
+          batch = db.batch();
+          pending = 0;
+          logger.info(`Committed batch of ${updateCount} forecasts`);
+        }
+      }
+
+      if (pending > 0) {
+        await batch.commit();
+      }
+
+      logger.info(`Demand forecasts completed: ${updateCount} items updated`);
+    } catch (error) {
+      logger.error("Error calculating demand forecasts:", error);
+      throw error;
+    }
+  }
+);
+
+/**
+ * HTTP Callable: Recalculate the demand forecast for one item
+ * Used by the item detail view so a new item doesn't wait for the nightly run
+ */
+export const forecastItemDemand = onCall(
+  {cors: true},
+  async (request) => {
+    requireRole(request, "employee");
+    const {itemId} = request.data as {itemId?: string};
+
+    if (!itemId) {
+      throw new HttpsError("invalid-argument", "itemId is required");
+    }
+
+    try {
+      const itemRef = db.collection("itemStats").doc(itemId);
+      const itemDoc = await itemRef.get();
+      if (!itemDoc.exists) {
+        throw new HttpsError("not-found", `Item ${itemId} not found`);
+      }
+
+      const now = new Date();
+      const forecast = forecastForItem(itemDoc.data()!, now);
+      await itemRef.update({
+        forecast: {
+          ...forecast,
+          calculatedAt: admin.firestore.Timestamp.fromDate(now),
+        },
+      });
+
+      return {
+        success: true,
+        forecast: {...forecast, calculatedAt: now.toISOString()},
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error("Error forecasting item demand:", error);
+      throw new HttpsError(
+        "internal",
+        error instanceof Error ? error.message : "Failed to forecast demand"
+      );
+    }
+  }
+);
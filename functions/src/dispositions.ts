@@ -0,0 +1,123 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+
+const db = admin.firestore();
+
+export const DISPOSITIONS_COLLECTION = "dispositions";
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper to get the calendar day (YYYY-MM-DD) a timestamp falls on for the shop
+// paidDate has no time of day, so decisions are compared by day too
+const toShopDay = (date: Date): string =>
+  date.toLocaleDateString("en-CA", {timeZone: "America/Chicago"});
+
+/**
+ * Record a sale against any open dispositions for the item
+ * A sale paid on or after the day the disposition was decided means the action
+ * worked, even if it came in after the deadline (flagged as late)
+ */
+export async function resolveDispositionsOnSale(
+  itemId: string,
+  orderId: string,
+  paidDate: string,
+  salePrice: number
+): Promise<void> {
+  const paidDay = paidDate.substring(0, 10);
+  const snapshot = await db.collection(DISPOSITIONS_COLLECTION)
+    .where("itemId", "==", itemId)
+    .where("status", "in", ["open", "expired"])
+    .get();
+
+  if (snapshot.empty) return;
+
+  const batch = db.batch();
+  const now = admin.firestore.Timestamp.now();
+  let resolved = 0;
+
+  for (const doc of snapshot.docs) {
+    const disposition = doc.data();
+    const decidedDay = toShopDay(disposition.decidedAt.toDate());
+    if (paidDay < decidedDay) continue;
+
+    batch.update(doc.ref, {
+      status: "sold",
+      outcome: {
+        soldAt: admin.firestore.Timestamp.fromDate(new Date(paidDay)),
+        orderId,
+        salePrice,
+        daysToSale: Math.round((Date.parse(paidDay) - Date.parse(decidedDay)) / ONE_DAY_MS),
+        soldAfterDeadline: paidDay > disposition.deadline,
+      },
+      updatedAt: now,
+    });
+    resolved++;
+  }
+
+  if (resolved > 0) {
+    // The item is no longer waiting on a disposition
+    batch.update(db.collection("itemStats").doc(itemId), {
+      activeDisposition: admin.firestore.FieldValue.delete(),
+    });
+    await batch.commit();
+    logger.info(`Resolved ${resolved} disposition(s) for ${itemId} from order ${orderId}`);
+  }
+}
+
+/**
+ * Scheduled Function: Mark dispositions whose deadline passed without a sale
+ * and take them off their item (a sale later still resolves them as late)
+ * Runs every day at 5 AM
+ */
+export const expireDispositions = onSchedule(
+  {
+    schedule: "0 5 * * *",
+    timeZone: "America/Chicago",
+  },
+  async () => {
+    const today = new Date().toISOString().substring(0, 10);
+
+    const snapshot = await db.collection(DISPOSITIONS_COLLECTION)
+      .where("status", "==", "open")
+      .where("deadline", "<", today)
+      .get();
+
+    // Only clear an item's activeDisposition when it's this one - a newer decision may have replaced it
+    const itemIds = [...new Set(snapshot.docs.map((doc) => doc.data().itemId as string))];
+    const itemDocs = itemIds.length > 0 ?
+      await db.getAll(...itemIds.map((id) => db.collection("itemStats").doc(id))) :
+      [];
+    const itemsById = new Map(itemDocs.map((doc) => [doc.id, doc]));
+
+    let batch = db.batch();
+    let batchCount = 0;
+    const now = admin.firestore.Timestamp.now();
+
+    for (const doc of snapshot.docs) {
+      batch.update(doc.ref, {status: "expired", updatedAt: now});
+      batchCount++;
+
+      const item = itemsById.get(doc.data().itemId);
+      if (item?.exists && item.data()?.activeDisposition?.id === doc.id) {
+        batch.update(item.ref, {
+          activeDisposition: admin.firestore.FieldValue.delete(),
+          updatedAt: now,
+        });
+        batchCount++;
+      }
+
+      if (batchCount >= 450) {
+        await batch.commit();
+        batch = db.batch();
+        batchCount = 0;
+      }
+    }
+
+    if (batchCount > 0) {
+      await batch.commit();
+    }
+
+    logger.info(`Expired ${snapshot.size} dispositions past their deadline`);
+  }
+);
@@ -1,7 +1,14 @@
 import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
 import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {requireRole} from "./roles";
 import * as cheerio from "cheerio";
+import {
+  ITEM_REGISTRY_COLLECTION,
+  getSkuKey,
+  loadItemRegistry,
+  registerItemTitle,
+} from "./itemRegistry";
 
 const db = admin.firestore();
 
@@ -25,6 +32,7 @@ interface EbayListing {
 export const importEbayData = onCall(
   {cors: true, timeoutSeconds: 300, memory: "1GiB"},
   async (request) => {
+    requireRole(request, "manager");
     const {htmlContent, jsonData} = request.data;
 
     if (!htmlContent && !jsonData) {
@@ -56,7 +64,10 @@ export const importEbayData = onCall(
       }
 
       // Match listings to itemStats and update
-      const itemStatsSnapshot = await db.collection("itemStats").get();
+      const [itemStatsSnapshot, registry] = await Promise.all([
+        db.collection("itemStats").get(),
+        loadItemRegistry(),
+      ]);
       const itemStatsByName = new Map<string, FirebaseFirestore.DocumentReference>();
       const itemStatsBySku = new Map<string, FirebaseFirestore.DocumentReference>();
 
@@ -83,12 +94,23 @@ export const importEbayData = onCall(
       const now = admin.firestore.Timestamp.now();
       const matchedRefs = new Set<string>();
 
+      // Helper to find the itemStats doc a SKU is registered to
+      const itemStatsIds = new Set(itemStatsSnapshot.docs.map((doc) => doc.id));
+      const getRegisteredRef = (sku: string | undefined) => {
+        const statsId = sku ? registry.get(getSkuKey(sku))?.statsId : undefined;
+        return statsId && itemStatsIds.has(statsId) ?
+          db.collection("itemStats").doc(statsId) :
+          undefined;
+      };
+
       // Update matched items with eBay data
       for (const listing of listings) {
-        let matchedRef: FirebaseFirestore.DocumentReference | undefined;
+        // The SKU registry is the canonical identity - try it before anything else
+        let matchedRef: FirebaseFirestore.DocumentReference | undefined =
+          getRegisteredRef(listing.customLabel) || getRegisteredRef(listing.sku);
 
-        // Try customLabel match first (e.g., "EC004:3.0L Upper")
-        if (listing.customLabel) {
+        // Try customLabel match (e.g., "EC004:3.0L Upper")
+        if (!matchedRef && listing.customLabel) {
           matchedRef = itemStatsBySku.get(listing.customLabel);
         }
 
@@ -209,6 +231,20 @@ export const importEbayData = onCall(
 
           logger.info(`[${matchedRef.id}] Added ebayMetrics subcollection entry`);
 
+          // Record the listing title against its SKU so retitled listings still resolve
+          const listingSku = listing.customLabel || listing.sku;
+          if (listingSku) {
+            await registerItemTitle(listingSku, listing.title, matchedRef.id, "ebay");
+            if (listing.ebayItemId) {
+              batch.set(
+                db.collection(ITEM_REGISTRY_COLLECTION).doc(getSkuKey(listingSku)),
+                {ebayItemId: listing.ebayItemId},
+                {merge: true}
+              );
+              batchCount++;
+            }
+          }
+
           // Update main document (NO ebayMetrics field - using subcollection only)
           batch.update(matchedRef, {
             // Store IDs for future matching
@@ -0,0 +1,418 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onDocumentCreated} from "firebase-functions/v2/firestore";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {getTransitionError} from "./orderStatus";
+import {isTrashed} from "./trash";
+import {TradingOrder} from "./ebayTrading";
+
+const db = admin.firestore();
+
+// Credited with the order/return changes made here in the audit log
+const EBAY_ACTOR = "ebay notifications";
+
+type NotificationKind = "order" | "cancellation" | "return" | "unknown";
+
+type ProcessResult =
+  | "created"
+  | "updated"
+  | "cancelled"
+  | "return_opened"
+  | "ignored";
+
+// Trading API platform notification events (the Notification API has no order,
+// cancellation or return topics). ebayWebhook verifies their NotificationSignature
+// and stores them in the TradingNotification shape from ebayTrading.ts
+const ORDER_EVENTS = new Set([
+  "FixedPriceTransaction",
+  "AuctionCheckoutComplete",
+]);
+
+const CANCELLATION_EVENTS = new Set([
+  "BuyerCancelRequested",
+]);
+
+const RETURN_EVENTS = new Set([
+  "ReturnCreated",
+]);
+
+// Notifications older than this are picked up by the retry sweep
+const RETRY_AFTER_MINUTES = 10;
+
+// Only orderNumber is guaranteed - everything else is undefined when the payload
+// didn't carry it, so a partial event never overwrites what an earlier one set
+interface ParsedEbayOrder {
+  orderNumber: string;
+  item?: string;
+  itemId?: string;
+  quantity?: number;
+  earnings?: string;
+  buyerUsername?: string;
+  buyerEmail?: string;
+  paidDate?: string;
+  shipName?: string;
+  shipAddress?: string;
+  shipAddress2?: string;
+  shipCity?: string;
+  shipState?: string;
+  shipZip?: string;
+  shipCountry?: string;
+  shipPhone?: string;
+  dueDate?: string;
+}
+
+// Fallbacks for a new order's fields the payload left out (never applied on update)
+const NEW_ORDER_DEFAULTS: Omit<Required<ParsedEbayOrder>, "orderNumber" | "item" | "paidDate"> = {
+  itemId: "",
+  quantity: 1,
+  earnings: "0",
+  buyerUsername: "ebay-buyer",
+  buyerEmail: "",
+  shipName: "",
+  shipAddress: "",
+  shipAddress2: "",
+  shipCity: "",
+  shipState: "",
+  shipZip: "",
+  shipCountry: "US",
+  shipPhone: "",
+  dueDate: "",
+};
+
+// Helper to read the first defined value from a list of candidate paths
+const pick = (...values: unknown[]): string => {
+  for (const value of values) {
+    if (value !== undefined && value !== null && String(value).trim() !== "") {
+      return String(value).trim();
+    }
+  }
+  return "";
+};
+
+// Helper like pick, but undefined when none of the paths are set
+const pickCarried = (...values: unknown[]): string | undefined => pick(...values) || undefined;
+
+// Helper to format an eBay timestamp as YYYY-MM-DD (same as CreateOrderDialog)
+const toDateOnly = (value: string): string => {
+  if (!value) return "";
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "" : date.toISOString().split("T")[0];
+};
+
+/**
+ * Work out what kind of event a stored notification is
+ */
+function classifyNotification(data: FirebaseFirestore.DocumentData): NotificationKind {
+  if (data.source !== "trading") return "unknown";
+  const eventType = pick(data.notificationEventType);
+
+  if (ORDER_EVENTS.has(eventType)) return "order";
+  if (CANCELLATION_EVENTS.has(eventType)) return "cancellation";
+  if (RETURN_EVENTS.has(eventType)) return "return";
+  return "unknown";
+}
+
+/**
+ * Map a Trading API order notification onto the fields CreateOrderDialog writes
+ */
+function parseEbayOrder(data: FirebaseFirestore.DocumentData): ParsedEbayOrder {
+  const order: Partial<TradingOrder> = data.order || {};
+  const shipTo: Partial<TradingOrder["shipTo"]> = order.shipTo || {};
+
+  const orderNumber = pick(order.orderId);
+  if (!orderNumber) {
+    throw new Error("Notification has no order ID");
+  }
+
+  const quantity = parseInt(pick(order.quantity), 10);
+
+  return {
+    orderNumber,
+    item: pickCarried(order.title),
+    itemId: pickCarried(order.sku),
+    quantity: quantity > 0 ? quantity : undefined,
+    earnings: pickCarried(order.amountPaid),
+    buyerUsername: pickCarried(order.buyerUserId),
+    // eBay masks the address on some events ("Invalid Request")
+    buyerEmail: order.buyerEmail?.includes("@") ? order.buyerEmail : undefined,
+    paidDate: toDateOnly(pick(order.paidTime, order.createdDate)) || undefined,
+    shipName: pickCarried(shipTo.name),
+    shipAddress: pickCarried(shipTo.street1),
+    shipAddress2: pickCarried(shipTo.street2),
+    shipCity: pickCarried(shipTo.cityName),
+    shipState: pickCarried(shipTo.stateOrProvince),
+    shipZip: pickCarried(shipTo.postalCode),
+    shipCountry: pickCarried(shipTo.country),
+    shipPhone: pickCarried(shipTo.phone),
+    dueDate: toDateOnly(pick(order.handleByTime)) || undefined,
+  };
+}
+
+// Helper to drop the fields a payload didn't carry
+const carriedFields = (parsed: ParsedEbayOrder): FirebaseFirestore.DocumentData =>
+  Object.fromEntries(Object.entries(parsed).filter(([, value]) => value !== undefined));
+
+// Orders created from notifications get an ID derived from the order number,
+// so two events for the same new order can't both create it
+const ebayOrderDocId = (orderNumber: string): string =>
+  `ebay-${orderNumber.replace(/\//g, "_")}`;
+
+// Helper to read the order ID from a cancellation or return payload
+const referencedOrderNumber = (data: FirebaseFirestore.DocumentData): string =>
+  pick(data.order?.orderId);
+
+// Helper to find the order for an eBay order number, preferring one that isn't trashed
+// A trashed match is still returned so the handlers leave it alone instead of
+// creating a duplicate or changing an order someone deleted
+async function findOrderByNumber(
+  orderNumber: string
+): Promise<FirebaseFirestore.QueryDocumentSnapshot | null> {
+  const snapshot = await db.collection("orders")
+    .where("orderNumber", "==", orderNumber)
+    .get();
+  return snapshot.docs.find((doc) => !isTrashed(doc.data())) || snapshot.docs[0] || null;
+}
+
+// Helper to skip a notification for an order that is in the trash (restore it to pick them up again)
+const ignoreTrashedOrder = (
+  existing: FirebaseFirestore.QueryDocumentSnapshot,
+  kind: NotificationKind
+): {result: ProcessResult; orderId: string} => {
+  logger.info(`Ignoring ${kind} notification for trashed order ${existing.id}`);
+  return {result: "ignored", orderId: existing.id};
+};
+
+// Helper to refresh an existing order with the details a notification carried
+// Never touches status, employee or fulfillment fields
+async function updateOrderDetails(
+  ref: FirebaseFirestore.DocumentReference,
+  parsed: ParsedEbayOrder
+): Promise<void> {
+  await ref.update({
+    ...carriedFields(parsed),
+    updatedAt: new Date().toISOString(),
+    updatedBy: EBAY_ACTOR,
+  });
+}
+
+async function handleOrderNotification(
+  data: FirebaseFirestore.DocumentData
+): Promise<{result: ProcessResult; orderId: string}> {
+  const parsed = parseEbayOrder(data);
+  const existing = await findOrderByNumber(parsed.orderNumber);
+
+  if (existing && isTrashed(existing.data())) {
+    return ignoreTrashedOrder(existing, "order");
+  }
+  if (existing) {
+    await updateOrderDetails(existing.ref, parsed);
+    return {result: "updated", orderId: existing.id};
+  }
+
+  if (!parsed.item) {
+    throw new Error(`Order ${parsed.orderNumber} has no item title`);
+  }
+
+  const docRef = db.collection("orders").doc(ebayOrderDocId(parsed.orderNumber));
+  try {
+    await docRef.create({
+      ...NEW_ORDER_DEFAULTS,
+      paidDate: new Date().toISOString().split("T")[0],
+      ...carriedFields(parsed),
+      status: "not shipped",
+      employee: "",
+      updatedBy: EBAY_ACTOR,
+    });
+  } catch (error) {
+    // ALREADY_EXISTS - another notification for this order created it first
+    if ((error as {code?: number}).code !== 6) throw error;
+    await updateOrderDetails(docRef, parsed);
+    return {result: "updated", orderId: docRef.id};
+  }
+  return {result: "created", orderId: docRef.id};
+}
+
+async function handleCancellationNotification(
+  data: FirebaseFirestore.DocumentData
+): Promise<{result: ProcessResult; orderId: string}> {
+  const orderNumber = referencedOrderNumber(data);
+  if (!orderNumber) {
+    throw new Error("Cancellation has no order ID");
+  }
+
+  const existing = await findOrderByNumber(orderNumber);
+  if (!existing) {
+    throw new Error(`No order found for cancelled order ${orderNumber}`);
+  }
+  if (isTrashed(existing.data())) {
+    return ignoreTrashedOrder(existing, "cancellation");
+  }
+
+  const order = existing.data();
+  const notes = [order.notes, "Cancelled on eBay"].filter(Boolean).join("\n\n");
+
+  // Already past the point of cancelling (e.g. delivered) - keep the status, just note it
+  const transitionError = getTransitionError(order.status, "cancelled", order);
+  if (transitionError) {
+    logger.warn(`Not cancelling order ${orderNumber}: ${transitionError}`);
+  }
+
+  await existing.ref.update({
+    ...(!transitionError && {status: "cancelled"}),
+    notes,
+    updatedAt: new Date().toISOString(),
+    updatedBy: EBAY_ACTOR,
+  });
+  return {result: transitionError ? "updated" : "cancelled", orderId: existing.id};
+}
+
+async function handleReturnNotification(
+  data: FirebaseFirestore.DocumentData
+): Promise<{result: ProcessResult; orderId: string}> {
+  const orderNumber = referencedOrderNumber(data);
+  if (!orderNumber) {
+    throw new Error("Return request has no order ID");
+  }
+
+  const existing = await findOrderByNumber(orderNumber);
+  if (!existing) {
+    throw new Error(`No order found for return on order ${orderNumber}`);
+  }
+  if (isTrashed(existing.data())) {
+    return ignoreTrashedOrder(existing, "return");
+  }
+
+  // Only one open return ticket per order
+  const openReturn = await db.collection("returns")
+    .where("originalOrderId", "==", existing.id)
+    .limit(1)
+    .get();
+  if (!openReturn.empty) {
+    return {result: "ignored", orderId: existing.id};
+  }
+
+  const transitionError = getTransitionError(existing.data().status, "return", existing.data());
+  if (transitionError) {
+    logger.warn(`Not opening a return for order ${orderNumber}: ${transitionError}`);
+    return {result: "ignored", orderId: existing.id};
+  }
+
+  // Same shape OrderCard writes when a return is opened by hand
+  const now = new Date().toISOString();
+  await db.collection("returns").add({
+    ...existing.data(),
+    status: "return",
+    returnedAt: now,
+    originalOrderId: existing.id,
+    updatedBy: EBAY_ACTOR,
+  });
+  await existing.ref.update({
+    status: "return complete",
+    updatedAt: now,
+    updatedBy: EBAY_ACTOR,
+  });
+  return {result: "return_opened", orderId: existing.id};
+}
+
+/**
+ * Process a single stored notification and mark it processed
+ * Failures are recorded on the notification instead of being thrown
+ */
+async function processNotification(
+  ref: FirebaseFirestore.DocumentReference,
+  stored: FirebaseFirestore.DocumentData
+): Promise<void> {
+  const data: FirebaseFirestore.DocumentData = stored.data || {};
+  const kind = classifyNotification(data);
+  const processedAt = admin.firestore.Timestamp.now();
+
+  try {
+    let outcome: {result: ProcessResult; orderId: string | null};
+    switch (kind) {
+      case "order":
+        outcome = await handleOrderNotification(data);
+        break;
+      case "cancellation":
+        outcome = await handleCancellationNotification(data);
+        break;
+      case "return":
+        outcome = await handleReturnNotification(data);
+        break;
+      default:
+        outcome = {result: "ignored", orderId: null};
+    }
+
+    await ref.update({
+      processed: true,
+      processedAt,
+      kind,
+      result: outcome.result,
+      orderId: outcome.orderId,
+      error: admin.firestore.FieldValue.delete(),
+    });
+
+    logger.info(`Processed eBay notification ${ref.id}`, {kind, ...outcome});
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`Failed to process eBay notification ${ref.id}:`, error);
+
+    await ref.update({
+      processed: true,
+      processedAt,
+      kind,
+      result: "failed",
+      error: reason,
+    });
+  }
+}
+
+/**
+ * Firestore Trigger: Process eBay notifications as they are stored
+ */
+export const processEbayNotification = onDocumentCreated(
+  "ebayNotifications/{notificationId}",
+  async (event) => {
+    const snapshot = event.data;
+    if (!snapshot) return;
+
+    const stored = snapshot.data();
+    if (stored.processed) return;
+
+    await processNotification(snapshot.ref, stored);
+  }
+);
+
+/**
+ * Scheduled Function: Sweep up notifications the trigger missed
+ * (stored before deploy, or the trigger timed out)
+ * Runs every hour
+ */
+export const processPendingEbayNotifications = onSchedule(
+  {
+    schedule: "0 * * * *", // Every hour
+    timeZone: "America/Chicago",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    const cutoff = new Date(Date.now() - RETRY_AFTER_MINUTES * 60 * 1000);
+
+    const pending = await db.collection("ebayNotifications")
+      .where("processed", "==", false)
+      .limit(200)
+      .get();
+
+    let processedCount = 0;
+    for (const doc of pending.docs) {
+      const stored = doc.data();
+      const storedAt = stored.timestamp?.toDate?.() || new Date(0);
+
+      // Leave fresh notifications to the trigger
+      if (storedAt > cutoff) continue;
+
+      await processNotification(doc.ref, stored);
+      processedCount++;
+    }
+
+    logger.info(`eBay notification sweep completed: ${processedCount} processed`);
+  }
+);
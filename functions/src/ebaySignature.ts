@@ -0,0 +1,185 @@
+import * as crypto from "crypto";
+import {defineSecret, defineString} from "firebase-functions/params";
+import * as logger from "firebase-functions/logger";
+
+// eBay developer credentials - stored in Firebase Secrets
+export const ebayVerificationToken = defineSecret("EBAY_VERIFICATION_TOKEN");
+export const ebayClientId = defineSecret("EBAY_CLIENT_ID");
+export const ebayClientSecret = defineSecret("EBAY_CLIENT_SECRET");
+// Dev ID from the same keyset - only Trading API notification signatures use it
+export const ebayDevId = defineSecret("EBAY_DEV_ID");
+
+// Must match the endpoint URL registered in the eBay developer portal exactly
+const webhookEndpoint = defineString("EBAY_WEBHOOK_ENDPOINT", {
+  default: "https://us-central1-pardical-web-app.cloudfunctions.net/ebayWebhook",
+});
+
+const OAUTH_URL = "https://api.ebay.com/identity/v1/oauth2/token";
+const PUBLIC_KEY_URL = "https://api.ebay.com/commerce/notification/v1/public_key";
+
+// Trading API notifications older than this are treated as replays
+const MAX_TRADING_NOTIFICATION_AGE_MS = 10 * 60 * 1000;
+
+// Public keys rarely rotate - cache per instance to avoid a lookup per notification
+const PUBLIC_KEY_TTL_MS = 60 * 60 * 1000;
+const publicKeyCache = new Map<string, {pem: string; fetchedAt: number}>();
+
+let appToken: {value: string; expiresAt: number} | null = null;
+
+interface SignatureHeader {
+  alg: string;
+  kid: string;
+  signature: string;
+  digest: string;
+}
+
+/**
+ * Build the challenge response eBay expects when the endpoint is registered:
+ * hex SHA-256 of challengeCode + verificationToken + endpoint
+ */
+export function buildChallengeResponse(challengeCode: string): string {
+  return crypto.createHash("sha256")
+    .update(challengeCode)
+    .update(ebayVerificationToken.value())
+    .update(webhookEndpoint.value())
+    .digest("hex");
+}
+
+// Helper to decode the base64 JSON X-EBAY-SIGNATURE header
+const parseSignatureHeader = (header: string): SignatureHeader | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(header, "base64").toString("utf8"));
+    if (!decoded.kid || !decoded.signature) return null;
+    return decoded;
+  } catch {
+    return null;
+  }
+};
+
+// Helper to turn eBay's single-line key into a PEM Node can read
+const toPem = (key: string): string => {
+  const body = key
+    .replace("-----BEGIN PUBLIC KEY-----", "")
+    .replace("-----END PUBLIC KEY-----", "")
+    .replace(/\s+/g, "");
+  const lines = body.match(/.{1,64}/g) || [];
+  return `-----BEGIN PUBLIC KEY-----\n${lines.join("\n")}\n-----END PUBLIC KEY-----\n`;
+};
+
+/**
+ * Get an application access token (client credentials grant)
+ */
+async function getAppToken(): Promise<string> {
+  if (appToken && appToken.expiresAt > Date.now()) {
+    return appToken.value;
+  }
+
+  const credentials = Buffer
+    .from(`${ebayClientId.value()}:${ebayClientSecret.value()}`)
+    .toString("base64");
+
+  const response = await fetch(OAUTH_URL, {
+    method: "POST",
+    headers: {
+      "Authorization": `Basic ${credentials}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      grant_type: "client_credentials",
+      scope: "https://api.ebay.com/oauth/api_scope",
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`eBay OAuth error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  appToken = {
+    value: data.access_token,
+    // Refresh a minute early
+    expiresAt: Date.now() + (data.expires_in - 60) * 1000,
+  };
+  return appToken.value;
+}
+
+/**
+ * Fetch (and cache) the public key eBay signed the notification with
+ */
+async function getPublicKey(kid: string): Promise<string> {
+  const cached = publicKeyCache.get(kid);
+  if (cached && Date.now() - cached.fetchedAt < PUBLIC_KEY_TTL_MS) {
+    return cached.pem;
+  }
+
+  const token = await getAppToken();
+  const response = await fetch(`${PUBLIC_KEY_URL}/${encodeURIComponent(kid)}`, {
+    headers: {"Authorization": `Bearer ${token}`},
+  });
+
+  if (!response.ok) {
+    throw new Error(`eBay public key lookup error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const pem = toPem(data.key);
+  publicKeyCache.set(kid, {pem, fetchedAt: Date.now()});
+  return pem;
+}
+
+/**
+ * Verify the X-EBAY-SIGNATURE header against the raw request body
+ * Returns false for missing, malformed or non-matching signatures
+ */
+export async function verifyEbaySignature(
+  header: string | undefined,
+  rawBody: Buffer | undefined
+): Promise<boolean> {
+  if (!header || !rawBody) return false;
+
+  const signature = parseSignatureHeader(header);
+  if (!signature) {
+    logger.warn("Malformed X-EBAY-SIGNATURE header");
+    return false;
+  }
+
+  const pem = await getPublicKey(signature.kid);
+
+  // eBay signs with ECDSA; digest is SHA1 unless the header says otherwise
+  const digest = (signature.digest || "SHA1").toLowerCase().replace("-", "");
+  try {
+    return crypto.createVerify(digest)
+      .update(rawBody)
+      .verify(pem, signature.signature, "base64");
+  } catch (error) {
+    logger.warn("eBay signature verification threw:", error);
+    return false;
+  }
+}
+
+/**
+ * Verify a Trading API platform notification's NotificationSignature:
+ * base64 MD5 of the envelope Timestamp + DevId + AppId (client ID) + CertId (client secret)
+ * Stale timestamps are rejected too, so a captured message can't be replayed later
+ */
+export function verifyTradingSignature(timestamp: string, signature: string): boolean {
+  if (!timestamp || !signature) return false;
+
+  const sentAt = new Date(timestamp).getTime();
+  if (isNaN(sentAt) || Math.abs(Date.now() - sentAt) > MAX_TRADING_NOTIFICATION_AGE_MS) {
+    logger.warn("Trading API notification timestamp out of range", {timestamp});
+    return false;
+  }
+
+  const expected = crypto.createHash("md5")
+    .update(timestamp)
+    .update(ebayDevId.value())
+    .update(ebayClientId.value())
+    .update(ebayClientSecret.value())
+    .digest("base64");
+
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+  return expectedBuffer.length === signatureBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
@@ -0,0 +1,114 @@
+import * as crypto from "crypto";
+import {load as cheerioLoad} from "cheerio";
+
+// Trading API platform notifications arrive as SOAP envelopes; the order events
+// carry a GetItemTransactions response (Item + TransactionArray)
+type XmlDocument = ReturnType<typeof cheerioLoad>;
+
+// Ship-to address as the Trading API sends it (Buyer.BuyerInfo.ShippingAddress)
+export interface TradingShipTo {
+  name: string;
+  street1: string;
+  street2: string;
+  cityName: string;
+  stateOrProvince: string;
+  postalCode: string;
+  country: string;
+  phone: string;
+}
+
+// The order details ebayNotifications.ts maps onto an order ("" when not sent)
+export interface TradingOrder {
+  orderId: string;
+  title: string;
+  sku: string;
+  quantity: string;
+  amountPaid: string;
+  buyerUserId: string;
+  buyerEmail: string;
+  paidTime: string;
+  createdDate: string;
+  handleByTime: string;
+  shipTo: TradingShipTo;
+}
+
+// What the webhook stores in ebayNotifications for a Trading API delivery
+export interface TradingNotification {
+  source: "trading";
+  notificationId: string;
+  notificationEventType: string;
+  timestamp: string;
+  signature: string;
+  order: TradingOrder;
+}
+
+// Helper to compare tags without their namespace prefix ("ebl:NotificationSignature")
+const localName = (tagName: string): string => tagName.split(":").pop() || tagName;
+
+// Helper to read the text of the first element with a given local name
+// Path segments narrow the search ("Buyer", "Email" = an Email inside Buyer)
+const findText = ($: XmlDocument, ...path: string[]): string => {
+  let scope = $.root();
+  for (const name of path) {
+    scope = scope.find("*")
+      .filter((_, el) => el.type === "tag" && localName(el.tagName) === name)
+      .first();
+    if (scope.length === 0) return "";
+  }
+  return scope.text().trim();
+};
+
+// Whether a request body is a SOAP envelope rather than Notification API JSON
+export const isTradingDelivery = (rawBody: Buffer | undefined): boolean => {
+  if (!rawBody) return false;
+  const start = rawBody.subarray(0, 500).toString("utf8").trimStart();
+  return start.startsWith("<") && /Envelope/.test(start);
+};
+
+/**
+ * Pull the event name, signature and order details out of a SOAP delivery
+ * Returns null if it isn't a platform notification (no event name or timestamp)
+ */
+export function parseTradingNotification(xml: string): TradingNotification | null {
+  const $ = cheerioLoad(xml, {xmlMode: true});
+
+  const notificationEventType = findText($, "NotificationEventName");
+  const timestamp = findText($, "Body", "Timestamp");
+  if (!notificationEventType || !timestamp) return null;
+
+  const address = (name: string) => findText($, "Buyer", "ShippingAddress", name);
+
+  return {
+    source: "trading",
+    // No delivery ID in the envelope - a retry resends the same signed message
+    notificationId: `trading-${crypto.createHash("sha256").update(xml).digest("hex").slice(0, 40)}`,
+    notificationEventType,
+    timestamp,
+    signature: findText($, "NotificationSignature"),
+    order: {
+      orderId: findText($, "ContainingOrder", "OrderID") ||
+        findText($, "ExtendedOrderID") ||
+        findText($, "OrderID") ||
+        findText($, "OrderId"),
+      title: findText($, "Item", "Title"),
+      sku: findText($, "Variation", "SKU") || findText($, "Item", "SKU"),
+      quantity: findText($, "QuantityPurchased"),
+      amountPaid: findText($, "AmountPaid") || findText($, "TransactionPrice"),
+      buyerUserId: findText($, "Buyer", "UserID"),
+      buyerEmail: findText($, "Buyer", "Email"),
+      paidTime: findText($, "PaidTime"),
+      createdDate: findText($, "Transaction", "CreatedDate"),
+      handleByTime: findText($, "ShippingPackageInfo", "HandleByTime"),
+      shipTo: {
+        name: address("Name"),
+        street1: address("Street1"),
+        street2: address("Street2"),
+        cityName: address("CityName"),
+        stateOrProvince: address("StateOrProvince"),
+        postalCode: address("PostalCode"),
+        country: address("Country"),
+        phone: address("Phone"),
+      },
+    },
+  };
+}
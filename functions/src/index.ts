@@ -1,20 +1,59 @@
 import {onRequest} from "firebase-functions/v2/https";
 import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
+import {
+  ebayVerificationToken,
+  ebayClientId,
+  ebayClientSecret,
+  ebayDevId,
+  buildChallengeResponse,
+  verifyEbaySignature,
+  verifyTradingSignature,
+} from "./ebaySignature";
+import {isTradingDelivery, parseTradingNotification} from "./ebayTrading";
 
 admin.initializeApp();
 
+// Roles (userRoles docs -> custom claims checked by every callable and firestore.rules)
+export {setUserRole, refreshRoleClaims} from "./roles";
+
+// Audit log of every change to orders and returns (who, when, field, old -> new)
+export {auditOrderChanges, auditReturnChanges} from "./auditLog";
+
+// Trashed orders and returns are purged after the retention period
+export {purgeTrash} from "./trash";
+
+// Order status model: transitions enforced server-side, plus the migration
+// (legacy spellings -> canonical statuses)
+export {enforceOrderStatus, enforceReturnStatus, normalizeOrderStatuses} from "./orderStatus";
+
 // Item Stats functions
 export {
   updateItemStatsOnOrder,
   calculateDailyStaleMetrics,
   migrateOrdersToItemStats,
   migrateAllOrdersToItemStats,
+  backfillItemRegistry,
   weeklyPriceCheck,
   backfillSalesForItem,
   autoUnreviewStaleItems,
 } from "./itemStats";
 
+// Merging duplicate items and managing their title aliases
+export {mergeItems, addItemAlias, removeItemAlias} from "./itemMerge";
+
+// Dead-stock disposition follow-up (sales resolve them; deadlines expire them)
+export {expireDispositions} from "./dispositions";
+
+// Per-item demand forecasts (nightly + on demand)
+export {calculateDemandForecasts, forecastItemDemand} from "./demandForecast";
+
+// Repricing recommendations for stale items (weekly + on demand)
+export {weeklyRepricingRecommendations, refreshRepricingRecommendations} from "./repricing";
+
+// Inventory on-hand adjustments from orders and received returns
+export {adjustInventoryOnOrder, adjustInventoryOnReturn} from "./inventory";
+
 // Car-Part.com scraper functions
 export {
   checkCarPartVariants,
@@ -25,21 +64,46 @@ export {
 // eBay import functions
 export {importEbayData} from "./ebayImport";
 
+// eBay notification processing (stored webhook payloads -> orders/returns)
+export {processEbayNotification, processPendingEbayNotifications} from "./ebayNotifications";
+
 // Test data population (temporary)
 export {populateTestSales} from "./populateTestSales";
 
 // Shippo tracking function
 export {getShippoTracking} from "./shippoTracking";
 
-// Shippo shipping functions (rates + label purchase + label retrieval + void + pickup)
-export {getShippingRates, purchaseShippingLabel, getShipmentLabel, voidShippingLabel, scheduleUSPSPickup} from "./shippoShipping";
+// Scheduled tracking refresh for in-flight orders and returns
+export {refreshTrackingStatuses} from "./trackingRefresh";
 
-// Search function
-export {searchOrdersAndReturns} from "./search";
+// Shippo track_updated webhook (pushes checkpoint history onto orders/returns)
+export {shippoWebhook} from "./shippoWebhook";
+
+// Shippo shipping functions (rates + label purchase + label retrieval + void + pickup + label merge)
+export {
+  getShippingRates,
+  purchaseShippingLabel,
+  getShipmentLabel,
+  voidShippingLabel,
+  scheduleUSPSPickup,
+  mergeShippingLabels,
+} from "./shippoShipping";
+
+// Search functions (callable + index triggers + backfill)
+export {
+  searchOrdersAndReturns,
+  updateSearchIndexOnOrder,
+  updateSearchIndexOnReturn,
+  rebuildSearchIndex,
+} from "./search";
 
 /**
  * eBay Webhook Handler
- * Receives platform notifications from eBay when events occur
+ * Receives eBay deliveries and stores each one once for processEbayNotification
+ * GET answers the endpoint-registration challenge. A POST is either a Trading API
+ * platform notification (SOAP - orders, cancellation requests, returns) checked
+ * against its NotificationSignature, or a Notification API delivery (JSON, e.g.
+ * account deletion) checked against X-EBAY-SIGNATURE
  *
  * URL will be: https://us-central1-pardical-web-app.cloudfunctions.net/ebayWebhook
  */
@@ -47,14 +111,21 @@ export const ebayWebhook = onRequest(
   {
     cors: true,
     maxInstances: 10,
+    secrets: [ebayVerificationToken, ebayClientId, ebayClientSecret, ebayDevId],
   },
   async (req, res) => {
-    // Log incoming request for debugging
-    logger.info("eBay webhook received", {
-      method: req.method,
-      headers: req.headers,
-      body: req.body,
-    });
+    // Challenge handshake when the endpoint is registered/validated
+    if (req.method === "GET") {
+      const challengeCode = req.query.challenge_code;
+      if (typeof challengeCode !== "string" || !challengeCode) {
+        res.status(400).json({error: "challenge_code is required"});
+        return;
+      }
+
+      logger.info("eBay challenge received");
+      res.status(200).json({challengeResponse: buildChallengeResponse(challengeCode)});
+      return;
+    }
 
     // Only accept POST requests
     if (req.method !== "POST") {
@@ -64,35 +135,84 @@ export const ebayWebhook = onRequest(
     }
 
     try {
-      // Get the notification data from eBay
-      const notification = req.body;
-
-      // Validate that we received data
-      if (!notification) {
-        logger.warn("No notification data received");
-        res.status(400).json({error: "No notification data"});
-        return;
+      let notification: FirebaseFirestore.DocumentData;
+      let notificationId: string | undefined;
+      let notificationType: string;
+
+      if (isTradingDelivery(req.rawBody)) {
+        const trading = parseTradingNotification(req.rawBody.toString("utf8"));
+        if (!trading || !verifyTradingSignature(trading.timestamp, trading.signature)) {
+          logger.warn("Rejected Trading API notification with missing or invalid signature");
+          res.status(412).json({error: "Invalid signature"});
+          return;
+        }
+
+        notification = trading;
+        notificationId = trading.notificationId;
+        notificationType = trading.notificationEventType;
+      } else {
+        // Get the notification data from eBay
+        notification = req.body;
+
+        // Validate that we received data
+        if (!notification) {
+          logger.warn("No notification data received");
+          res.status(400).json({error: "No notification data"});
+          return;
+        }
+
+        const signatureValid = await verifyEbaySignature(
+          req.get("x-ebay-signature"),
+          req.rawBody
+        );
+        if (!signatureValid) {
+          logger.warn("Rejected eBay notification with missing or invalid signature");
+          res.status(412).json({error: "Invalid signature"});
+          return;
+        }
+
+        notificationId = notification.notification?.notificationId || notification.notificationId;
+        notificationType = notification.metadata?.topic || notification.notificationEventType || "unknown";
       }
 
-      // Store the notification in Firestore
-      const docRef = await admin.firestore()
-        .collection("ebayNotifications")
-        .add({
-          data: notification,
-          timestamp: admin.firestore.FieldValue.serverTimestamp(),
-          processed: false,
-        });
+      const record = {
+        data: notification,
+        notificationId: notificationId || null,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        processed: false,
+      };
+
+      // Key by notification ID so retried deliveries land on the same doc
+      const collection = admin.firestore().collection("ebayNotifications");
+      let docId: string;
+      if (notificationId) {
+        const docRef = collection.doc(notificationId);
+        try {
+          await docRef.create(record);
+        } catch (error) {
+          // gRPC ALREADY_EXISTS - eBay retried a delivery we already have
+          if ((error as {code?: number}).code === 6) {
+            logger.info("Duplicate eBay notification ignored", {notificationId});
+            res.status(200).json({success: true, message: "Duplicate notification", id: notificationId});
+            return;
+          }
+          throw error;
+        }
+        docId = docRef.id;
+      } else {
+        docId = (await collection.add(record)).id;
+      }
 
       logger.info("Notification stored successfully", {
-        docId: docRef.id,
-        notificationType: notification.notificationEventType || "unknown",
+        docId,
+        notificationType,
       });
 
       // Send success response to eBay
       res.status(200).json({
         success: true,
         message: "Notification received and stored",
-        id: docRef.id,
+        id: docId,
       });
     } catch (error) {
       logger.error("Error processing eBay webhook:", error);
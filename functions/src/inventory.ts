@@ -0,0 +1,132 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onDocumentCreated, onDocumentWritten} from "firebase-functions/v2/firestore";
+import {statusesWithEffect, withLegacyAliases} from "./orderStatus";
+import {ITEM_ALIASES_COLLECTION, normalizeItemName} from "./itemStats";
+
+const db = admin.firestore();
+
+export const INVENTORY_COLLECTION = "inventory";
+
+// A return puts the part back on the shelf once it reaches the warehouse
+const RETURN_RECEIVED_STATUSES = withLegacyAliases(statusesWithEffect("restockInventory"));
+
+export type InventoryMovementType = "order" | "return" | "adjustment";
+
+// Helper to get the inventory doc ID for an item
+// Matches normalizeItemName in src/services/itemProfiles.ts so inventory
+// lines up with the item profile the UI edits it from
+export const getInventoryId = (itemName: string): string => {
+  return itemName
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 100);
+};
+
+// Helper to follow a title merged into another item (itemMerge.ts folds its
+// inventory into the survivor's record)
+async function resolveInventoryName(itemName: string): Promise<string> {
+  const aliasDoc = await db.collection(ITEM_ALIASES_COLLECTION).doc(normalizeItemName(itemName)).get();
+  return aliasDoc.exists && aliasDoc.data()!.targetName ? aliasDoc.data()!.targetName : itemName;
+}
+
+/**
+ * Apply a quantity change to an item's inventory and record the movement
+ * The movement ID makes this idempotent - a retried trigger is a no-op.
+ * Items nobody has set up inventory for are skipped.
+ */
+async function applyInventoryMovement(
+  itemName: string,
+  delta: number,
+  movementId: string,
+  type: InventoryMovementType,
+  sourceRef: string
+): Promise<void> {
+  const inventoryId = getInventoryId(await resolveInventoryName(itemName));
+  const inventoryRef = db.collection(INVENTORY_COLLECTION).doc(inventoryId);
+  const movementRef = inventoryRef.collection("movements").doc(movementId);
+
+  await db.runTransaction(async (transaction) => {
+    const [inventoryDoc, movementDoc] = await Promise.all([
+      transaction.get(inventoryRef),
+      transaction.get(movementRef),
+    ]);
+
+    if (!inventoryDoc.exists || movementDoc.exists) return;
+
+    const quantityAfter = (inventoryDoc.data()?.quantityOnHand || 0) + delta;
+    if (quantityAfter < 0) {
+      // Keep the negative count so the oversell shows up on the item
+      logger.warn(`Inventory for ${inventoryRef.id} went negative (${quantityAfter}) from ${sourceRef}`);
+    }
+
+    const now = new Date().toISOString();
+    transaction.set(movementRef, {
+      type,
+      delta,
+      quantityAfter,
+      sourceRef,
+      createdBy: "system",
+      createdAt: now,
+    });
+    transaction.update(inventoryRef, {
+      quantityOnHand: quantityAfter,
+      updatedAt: now,
+    });
+  });
+}
+
+/**
+ * Firestore Trigger: Take sold parts off the shelf when an order is created
+ */
+export const adjustInventoryOnOrder = onDocumentCreated(
+  "orders/{orderId}",
+  async (event) => {
+    const order = event.data?.data();
+    if (!order?.item) return;
+
+    const orderId = event.params.orderId;
+    try {
+      await applyInventoryMovement(
+        order.item,
+        -(Number(order.quantity) || 1),
+        `order_${orderId}`,
+        "order",
+        `orders/${orderId}`
+      );
+    } catch (error) {
+      logger.error(`Error decrementing inventory for order ${orderId}:`, error);
+    }
+  }
+);
+
+/**
+ * Firestore Trigger: Put returned parts back on the shelf once received
+ */
+export const adjustInventoryOnReturn = onDocumentWritten(
+  "returns/{returnId}",
+  async (event) => {
+    const before = event.data?.before?.data();
+    const after = event.data?.after?.data();
+    if (!after?.item) return;
+
+    const wasReceived = RETURN_RECEIVED_STATUSES.includes(before?.status);
+    const isReceived = RETURN_RECEIVED_STATUSES.includes(after.status);
+    if (wasReceived || !isReceived) return;
+
+    const returnId = event.params.returnId;
+    try {
+      await applyInventoryMovement(
+        after.item,
+        Number(after.quantity) || 1,
+        `return_${returnId}`,
+        "return",
+        `returns/${returnId}`
+      );
+    } catch (error) {
+      logger.error(`Error incrementing inventory for return ${returnId}:`, error);
+    }
+  }
+);
@@ -0,0 +1,455 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {requireRole} from "./roles";
+import {ITEM_ALIASES_COLLECTION, buildSaleAggregates, normalizeItemName} from "./itemStats";
+import {DISPOSITIONS_COLLECTION} from "./dispositions";
+import {ITEM_REGISTRY_COLLECTION, getItemProfileId} from "./itemRegistry";
+import {INVENTORY_COLLECTION, getInventoryId} from "./inventory";
+
+const db = admin.firestore();
+
+const ITEM_PROFILES_COLLECTION = "itemProfiles";
+const MERGED_SUBCOLLECTIONS = ["sales", "priceHistory", "ebayMetrics"];
+const PROFILE_TEXT_FIELDS = ["notes", "ebayListingUrl", "qualityNotes", "vehicleFitment"];
+
+// Summed when items merge (rebuilt from the sales instead when sale docs collide)
+const SUMMED_FIELDS = [
+  "totalSold",
+  "salesLast30Days",
+  "salesLast90Days",
+  "totalRevenue",
+  "totalCost",
+  "totalProfit",
+];
+
+// Cost aggregates (itemStats.ts) - only summed when every item has them
+const COST_AGGREGATE_FIELDS = ["costedSales", "costedPurchaseCost", "costedShipCost"];
+
+// Kept from the surviving item, or taken from a merged item when it has none
+const FILLED_FIELDS = [
+  "itemId",
+  "ebayItemId",
+  "category",
+  "vehicleInfo",
+  "pricingData",
+  "ebayMetrics",
+  "targetListingPrice",
+  "targetListingPriceSetAt",
+  "activeDisposition",
+  "inEbayListings",
+];
+
+// Helper to add up per-period sale counts
+const sumPeriodCounts = (maps: (Record<string, number> | undefined)[]): Record<string, number> => {
+  const result: Record<string, number> = {};
+  for (const counts of maps) {
+    for (const [key, count] of Object.entries(counts || {})) {
+      result[key] = (result[key] || 0) + count;
+    }
+  }
+  return result;
+};
+
+/**
+ * Move every doc in a subcollection onto the surviving item
+ * Doc IDs are kept (sales are keyed by order ID); a collision keeps the
+ * survivor's copy. Returns how many docs were moved and how many collided.
+ */
+async function moveSubcollection(
+  fromRef: FirebaseFirestore.DocumentReference,
+  toRef: FirebaseFirestore.DocumentReference,
+  name: string
+): Promise<{moved: number; collided: number}> {
+  const [sourceDocs, targetDocs] = await Promise.all([
+    fromRef.collection(name).get(),
+    toRef.collection(name).get(),
+  ]);
+  const existingIds = new Set(targetDocs.docs.map((doc) => doc.id));
+
+  let batch = db.batch();
+  let pending = 0;
+  let moved = 0;
+  let collided = 0;
+
+  for (const doc of sourceDocs.docs) {
+    if (existingIds.has(doc.id)) {
+      collided++;
+    } else {
+      batch.set(toRef.collection(name).doc(doc.id), doc.data());
+      moved++;
+    }
+    batch.delete(doc.ref);
+    pending += 2;
+
+    if (pending >= 450) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+    }
+  }
+
+  if (pending > 0) {
+    await batch.commit();
+  }
+
+  return {moved, collided};
+}
+
+/**
+ * Fold the merged items' profiles into the survivor's profile
+ * Empty fields are filled in; notes from both sides are kept
+ */
+async function mergeItemProfiles(targetName: string, sourceNames: string[], mergedBy: string) {
+  const targetProfileRef = db.collection(ITEM_PROFILES_COLLECTION).doc(getItemProfileId(targetName));
+  const sourceProfileIds = Array.from(new Set(sourceNames.map(getItemProfileId)))
+    .filter((id) => id !== targetProfileRef.id);
+  if (sourceProfileIds.length === 0) return;
+
+  const [targetProfile, ...sourceProfiles] = await Promise.all([
+    targetProfileRef.get(),
+    ...sourceProfileIds.map((id) => db.collection(ITEM_PROFILES_COLLECTION).doc(id).get()),
+  ]);
+
+  const existingSources = sourceProfiles.filter((doc) => doc.exists);
+  if (existingSources.length === 0) return;
+
+  const merged: FirebaseFirestore.DocumentData = targetProfile.exists ?
+    {...targetProfile.data()} :
+    {
+      ...existingSources[0].data(),
+      id: targetProfileRef.id,
+      itemName: targetName,
+      notes: "",
+      ebayListingUrl: "",
+      qualityNotes: "",
+      vehicleFitment: "",
+    };
+
+  for (const sourceDoc of existingSources) {
+    const source = sourceDoc.data()!;
+    for (const field of PROFILE_TEXT_FIELDS) {
+      const sourceValue = (source[field] || "").trim();
+      const targetValue = (merged[field] || "").trim();
+      if (!sourceValue || targetValue.includes(sourceValue)) continue;
+      merged[field] = field === "ebayListingUrl" || !targetValue ?
+        targetValue || sourceValue :
+        `${targetValue}\n\n${sourceValue}`;
+    }
+    for (const field of ["itemId", "ebayItemId", "parcelPreset"]) {
+      if (!merged[field] && source[field]) merged[field] = source[field];
+    }
+  }
+
+  const batch = db.batch();
+  batch.set(targetProfileRef, {
+    ...merged,
+    updatedAt: admin.firestore.Timestamp.now(),
+    updatedBy: mergedBy,
+  });
+  existingSources.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+}
+
+/**
+ * Fold the merged items' inventory into the survivor's record
+ * On-hand counts are added up and the movement history moves across;
+ * an empty location or acquisition detail is taken from a merged record
+ */
+async function mergeInventory(targetName: string, sourceNames: string[], mergedBy: string) {
+  const targetInventoryRef = db.collection(INVENTORY_COLLECTION).doc(getInventoryId(targetName));
+  const sourceInventoryIds = Array.from(new Set(sourceNames.map(getInventoryId)))
+    .filter((id) => id && id !== targetInventoryRef.id);
+  if (sourceInventoryIds.length === 0) return;
+
+  const sourceRefs = sourceInventoryIds.map((id) => db.collection(INVENTORY_COLLECTION).doc(id));
+  const sourceDocs = (await Promise.all(sourceRefs.map((ref) => ref.get()))).filter((doc) => doc.exists);
+  if (sourceDocs.length === 0) return;
+
+  for (const sourceDoc of sourceDocs) {
+    await moveSubcollection(sourceDoc.ref, targetInventoryRef, "movements");
+  }
+
+  const now = new Date().toISOString();
+  await db.runTransaction(async (transaction) => {
+    const targetDoc = await transaction.get(targetInventoryRef);
+    const merged: FirebaseFirestore.DocumentData = targetDoc.exists ?
+      {...targetDoc.data()} :
+      {
+        ...sourceDocs[0].data(),
+        id: targetInventoryRef.id,
+        itemName: targetName,
+        quantityOnHand: 0,
+        createdAt: now,
+      };
+
+    for (const sourceDoc of sourceDocs) {
+      const source = sourceDoc.data()!;
+      merged.quantityOnHand = (merged.quantityOnHand || 0) + (source.quantityOnHand || 0);
+      for (const field of ["itemId", "location", "acquiredAt", "acquisitionCost"]) {
+        if (!merged[field] && source[field]) merged[field] = source[field];
+      }
+    }
+
+    transaction.set(targetInventoryRef, {...merged, updatedAt: now, updatedBy: mergedBy});
+    sourceDocs.forEach((doc) => transaction.delete(doc.ref));
+  });
+}
+
+/**
+ * HTTP Callable: Merge duplicate itemStats docs into one surviving item
+ * Moves sales/priceHistory/ebayMetrics, combines the aggregates, merges the
+ * item profiles and inventory and records each merged ID as an alias of the survivor so
+ * later orders with the old title land on it
+ */
+export const mergeItems = onCall(
+  {cors: true, timeoutSeconds: 300},
+  async (request) => {
+    const mergedBy = requireRole(request, "manager");
+    const {targetId, sourceIds} = request.data as {targetId?: string; sourceIds?: string[]};
+
+    if (!targetId || !Array.isArray(sourceIds) || sourceIds.length === 0) {
+      throw new HttpsError("invalid-argument", "targetId and sourceIds are required");
+    }
+    if (sourceIds.includes(targetId)) {
+      throw new HttpsError("invalid-argument", "An item can't be merged into itself");
+    }
+    if (sourceIds.length > 10) {
+      throw new HttpsError("invalid-argument", "Merge at most 10 items at a time");
+    }
+
+    try {
+      const targetRef = db.collection("itemStats").doc(targetId);
+      const sourceRefs = sourceIds.map((id) => db.collection("itemStats").doc(id));
+      const [targetDoc, ...sourceDocs] = await Promise.all([
+        targetRef.get(),
+        ...sourceRefs.map((ref) => ref.get()),
+      ]);
+
+      if (!targetDoc.exists) {
+        throw new HttpsError("not-found", `Item ${targetId} not found`);
+      }
+      const missing = sourceDocs.find((doc) => !doc.exists);
+      if (missing) {
+        throw new HttpsError("not-found", `Item ${missing.id} not found`);
+      }
+
+      const target = targetDoc.data()!;
+      const sources = sourceDocs.map((doc) => doc.data()!);
+
+      // Move the history first so a failure part way leaves the aggregates untouched
+      let salesMoved = 0;
+      let salesCollided = 0;
+      for (const sourceRef of sourceRefs) {
+        for (const name of MERGED_SUBCOLLECTIONS) {
+          const {moved, collided} = await moveSubcollection(sourceRef, targetRef, name);
+          if (name === "sales") {
+            salesMoved += moved;
+            salesCollided += collided;
+          }
+        }
+      }
+
+      const all = [target, ...sources];
+      const update: FirebaseFirestore.DocumentData = {};
+      for (const field of SUMMED_FIELDS) {
+        update[field] = all.reduce((sum, data) => sum + (data[field] || 0), 0);
+      }
+      update.avgProfitMargin = update.totalRevenue > 0 ?
+        Math.round((update.totalProfit / update.totalRevenue) * 1000) / 10 :
+        0;
+
+      const lastSale = all
+        .map((data) => data.lastSaleDate as FirebaseFirestore.Timestamp | undefined)
+        .filter(Boolean)
+        .sort((a, b) => b!.toMillis() - a!.toMillis())[0];
+      const firstSale = all
+        .map((data) => data.firstSaleDate as FirebaseFirestore.Timestamp | undefined)
+        .filter(Boolean)
+        .sort((a, b) => a!.toMillis() - b!.toMillis())[0];
+      if (lastSale) {
+        update.lastSaleDate = lastSale;
+        update.daysSinceLastSale = Math.floor((Date.now() - lastSale.toMillis()) / (24 * 60 * 60 * 1000));
+      }
+      if (firstSale) update.firstSaleDate = firstSale;
+
+      update.salesByWeek = sumPeriodCounts(all.map((data) => data.salesByWeek));
+      update.salesByMonth = sumPeriodCounts(all.map((data) => data.salesByMonth));
+      // Daily buckets only add up if every item has them - otherwise the nightly job rebuilds them
+      update.salesByDay = all.every((data) => data.salesByDay) ?
+        sumPeriodCounts(all.map((data) => data.salesByDay)) :
+        admin.firestore.FieldValue.delete();
+      const allCosted = all.every((data) => data.costedSales !== undefined);
+      for (const field of COST_AGGREGATE_FIELDS) {
+        update[field] = allCosted ?
+          all.reduce((sum, data) => sum + (data[field] || 0), 0) :
+          admin.firestore.FieldValue.delete();
+      }
+      // A sale on both sides would be counted twice - rebuild from the merged sales instead
+      if (salesCollided > 0) {
+        Object.assign(update, await buildSaleAggregates(targetRef));
+      }
+      // The sales history changed, so the forecast is recalculated on the next run
+      update.forecast = admin.firestore.FieldValue.delete();
+
+      for (const field of FILLED_FIELDS) {
+        if (target[field] === undefined || target[field] === null) {
+          const source = sources.find((data) => data[field] !== undefined && data[field] !== null);
+          if (source) update[field] = source[field];
+        }
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      update.mergedFrom = admin.firestore.FieldValue.arrayUnion(...sourceIds);
+      update.updatedAt = now;
+
+      const batch = db.batch();
+      batch.update(targetRef, update);
+      sourceRefs.forEach((ref) => batch.delete(ref));
+
+      // Each merged ID now resolves to the survivor
+      sources.forEach((source, index) => {
+        batch.set(db.collection(ITEM_ALIASES_COLLECTION).doc(sourceIds[index]), {
+          aliasId: sourceIds[index],
+          aliasName: source.itemName || sourceIds[index],
+          targetId,
+          targetName: target.itemName,
+          source: "merge",
+          createdBy: mergedBy,
+          createdAt: now,
+        });
+      });
+
+      // Aliases that pointed at a merged item follow it to the survivor
+      const chainedAliases = await db.collection(ITEM_ALIASES_COLLECTION)
+        .where("targetId", "in", sourceIds)
+        .get();
+      chainedAliases.docs.forEach((doc) => {
+        batch.update(doc.ref, {targetId, targetName: target.itemName});
+      });
+
+      // So do SKUs registered against a merged item
+      const registryEntries = await db.collection(ITEM_REGISTRY_COLLECTION)
+        .where("statsId", "in", sourceIds)
+        .get();
+      registryEntries.docs.forEach((doc) => {
+        batch.update(doc.ref, {
+          statsId: targetId,
+          profileId: getItemProfileId(target.itemName),
+          updatedAt: now,
+        });
+      });
+
+      // Open dispositions and queued repricing follow the item too
+      const dispositions = await db.collection(DISPOSITIONS_COLLECTION)
+        .where("itemId", "in", sourceIds)
+        .get();
+      dispositions.docs.forEach((doc) => {
+        batch.update(doc.ref, {itemId: targetId, updatedAt: now});
+      });
+      sourceIds.forEach((id) => {
+        batch.delete(db.collection("repricingRecommendations").doc(id));
+      });
+
+      await batch.commit();
+
+      const sourceNames = sources.map((source) => source.itemName || "");
+      await mergeItemProfiles(target.itemName, sourceNames, mergedBy);
+      await mergeInventory(target.itemName, sourceNames, mergedBy);
+
+      logger.info(
+        `Merged ${sourceIds.join(", ")} into ${targetId} ` +
+        `(${salesMoved} sales moved, ${salesCollided} already on the survivor)`
+      );
+
+      return {
+        success: true,
+        merged: sourceIds.length,
+        salesMoved,
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error("Error merging items:", error);
+      throw new HttpsError("internal", "Failed to merge items");
+    }
+  }
+);
+
+/**
+ * HTTP Callable: Point another title at an existing item
+ * For titles that haven't sold yet - titles with their own itemStats need a merge
+ */
+export const addItemAlias = onCall(
+  {cors: true},
+  async (request) => {
+    const createdBy = requireRole(request, "manager");
+    const {itemId, aliasName} = request.data as {itemId?: string; aliasName?: string};
+
+    if (!itemId || !aliasName?.trim()) {
+      throw new HttpsError("invalid-argument", "itemId and aliasName are required");
+    }
+
+    const aliasId = normalizeItemName(aliasName.trim());
+    if (!aliasId || aliasId === itemId) {
+      throw new HttpsError("invalid-argument", "Alias must be a different title");
+    }
+
+    try {
+      const [targetDoc, aliasStatsDoc] = await Promise.all([
+        db.collection("itemStats").doc(itemId).get(),
+        db.collection("itemStats").doc(aliasId).get(),
+      ]);
+
+      if (!targetDoc.exists) {
+        throw new HttpsError("not-found", `Item ${itemId} not found`);
+      }
+      if (aliasStatsDoc.exists) {
+        throw new HttpsError(
+          "failed-precondition",
+          `"${aliasName.trim()}" already has its own sales - merge it instead`
+        );
+      }
+
+      await db.collection(ITEM_ALIASES_COLLECTION).doc(aliasId).set({
+        aliasId,
+        aliasName: aliasName.trim(),
+        targetId: itemId,
+        targetName: targetDoc.data()!.itemName,
+        source: "manual",
+        createdBy,
+        createdAt: admin.firestore.Timestamp.now(),
+      });
+
+      return {success: true, aliasId};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error("Error adding item alias:", error);
+      throw new HttpsError("internal", "Failed to add alias");
+    }
+  }
+);
+
+/**
+ * HTTP Callable: Stop resolving a title to another item
+ * History already merged stays with the survivor; new orders with the
+ * title start their own itemStats again
+ */
+export const removeItemAlias = onCall(
+  {cors: true},
+  async (request) => {
+    requireRole(request, "manager");
+    const {aliasId} = request.data as {aliasId?: string};
+
+    if (!aliasId) {
+      throw new HttpsError("invalid-argument", "aliasId is required");
+    }
+
+    try {
+      await db.collection(ITEM_ALIASES_COLLECTION).doc(aliasId).delete();
+      return {success: true};
+    } catch (error) {
+      logger.error("Error removing item alias:", error);
+      throw new HttpsError("internal", "Failed to remove alias");
+    }
+  }
+);
@@ -0,0 +1,124 @@
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+export const ITEM_REGISTRY_COLLECTION = "itemRegistry";
+
+export type TitleSource = "order" | "ebay" | "migration";
+
+// Every title a SKU has been sold or listed under
+export interface RegistryTitle {
+  title: string;
+  source: TitleSource;
+  firstSeenAt: FirebaseFirestore.Timestamp;
+  lastSeenAt: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Canonical identity for a SKU, stored at itemRegistry/{skuKey}
+ * statsId/profileId point at the itemStats and itemProfiles docs the SKU
+ * resolves to, whatever title an order or listing uses
+ */
+export interface RegistryEntry {
+  sku: string;
+  statsId: string;
+  profileId: string;
+  currentTitle: string;
+  titles: RegistryTitle[];
+  ebayItemId?: string;
+  createdAt: FirebaseFirestore.Timestamp;
+  updatedAt: FirebaseFirestore.Timestamp;
+}
+
+// Helper to get the registry doc ID for a SKU / custom label
+// Case-insensitive, and "/" isn't allowed in doc IDs
+export const getSkuKey = (sku: string): string => {
+  return sku.trim().toUpperCase().replace(/\//g, "_").slice(0, 100);
+};
+
+// Helper to get the item profile doc ID for an item name
+// Matches normalizeItemName in src/services/itemProfiles.ts
+export const getItemProfileId = (itemName: string): string => {
+  return itemName
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 100);
+};
+
+/**
+ * Look up the registry entry for a SKU (null if blank or unregistered)
+ */
+export async function getRegistryEntry(sku: string | undefined | null): Promise<RegistryEntry | null> {
+  if (!sku || !getSkuKey(sku)) return null;
+  const doc = await db.collection(ITEM_REGISTRY_COLLECTION).doc(getSkuKey(sku)).get();
+  return doc.exists ? doc.data() as RegistryEntry : null;
+}
+
+/**
+ * Load the whole registry for bulk jobs (SKU key -> entry)
+ */
+export async function loadItemRegistry(): Promise<Map<string, RegistryEntry>> {
+  const snapshot = await db.collection(ITEM_REGISTRY_COLLECTION).get();
+  return new Map(snapshot.docs.map((doc) => [doc.id, doc.data() as RegistryEntry]));
+}
+
+/**
+ * Record that a SKU was seen under a title
+ * Creates the entry pointing at statsId on first sight; after that the
+ * registry keeps its own statsId and only grows the title history.
+ * Returns the statsId the SKU resolves to.
+ */
+export async function registerItemTitle(
+  sku: string,
+  title: string,
+  statsId: string,
+  source: TitleSource,
+  seenAt: Date = new Date()
+): Promise<string> {
+  const key = getSkuKey(sku);
+  if (!key || !title) return statsId;
+
+  const ref = db.collection(ITEM_REGISTRY_COLLECTION).doc(key);
+  const seen = admin.firestore.Timestamp.fromDate(seenAt);
+
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    const now = admin.firestore.Timestamp.now();
+
+    if (!doc.exists) {
+      const entry: RegistryEntry = {
+        sku: sku.trim(),
+        statsId,
+        profileId: getItemProfileId(title),
+        currentTitle: title,
+        titles: [{title, source, firstSeenAt: seen, lastSeenAt: seen}],
+        createdAt: now,
+        updatedAt: now,
+      };
+      transaction.set(ref, entry);
+      return statsId;
+    }
+
+    const entry = doc.data() as RegistryEntry;
+    const titles = [...(entry.titles || [])];
+    const existing = titles.find((t) => t.title === title);
+
+    if (existing) {
+      if (seen.toMillis() <= existing.lastSeenAt.toMillis()) return entry.statsId;
+      existing.lastSeenAt = seen;
+    } else {
+      titles.push({title, source, firstSeenAt: seen, lastSeenAt: seen});
+    }
+
+    // The title seen most recently is the current one
+    const latest = titles.reduce((a, b) => (b.lastSeenAt.toMillis() > a.lastSeenAt.toMillis() ? b : a));
+    transaction.update(ref, {
+      titles,
+      currentTitle: latest.title,
+      updatedAt: now,
+    });
+    return entry.statsId;
+  });
+}
@@ -3,11 +3,31 @@ import * as logger from "firebase-functions/logger";
 import {onDocumentWritten} from "firebase-functions/v2/firestore";
 import {onSchedule} from "firebase-functions/v2/scheduler";
 import {onCall} from "firebase-functions/v2/https";
+import {requireRole} from "./roles";
+import {
+  loadStaleRuleSets,
+  selectRuleSet,
+  evaluateStaleRules,
+  buildStaleRuleContext,
+  STALE_SEVERITIES,
+} from "./staleRules";
+import {resolveDispositionsOnSale} from "./dispositions";
+import {
+  ITEM_REGISTRY_COLLECTION,
+  getRegistryEntry,
+  getSkuKey,
+  getItemProfileId,
+  loadItemRegistry,
+  registerItemTitle,
+} from "./itemRegistry";
+import {isTrashed, withoutTrashed} from "./trash";
 
 const db = admin.firestore();
 
+export const ITEM_ALIASES_COLLECTION = "itemAliases";
+
 // Helper to normalize item name for consistent matching
-const normalizeItemName = (name: string): string => {
+export const normalizeItemName = (name: string): string => {
   return name
     .toLowerCase()
     .replace(/[^a-z0-9\s]/g, "")
@@ -15,6 +35,24 @@ const normalizeItemName = (name: string): string => {
     .substring(0, 100);
 };
 
+// Helper to resolve an item to its itemStats ID
+// A registered SKU wins (itemRegistry/{skuKey}); otherwise titles merged into
+// another item (itemAliases/{normalizedId}) resolve to the survivor
+export async function resolveItemStatsId(itemName: string, sku?: string | null): Promise<string> {
+  const entry = await getRegistryEntry(sku);
+  if (entry) return entry.statsId;
+
+  const normalizedId = normalizeItemName(itemName);
+  const aliasDoc = await db.collection(ITEM_ALIASES_COLLECTION).doc(normalizedId).get();
+  return aliasDoc.exists ? aliasDoc.data()!.targetId : normalizedId;
+}
+
+// Helper to load every alias at once for bulk rebuilds (alias ID -> surviving item ID)
+async function loadItemAliases(): Promise<Map<string, string>> {
+  const snapshot = await db.collection(ITEM_ALIASES_COLLECTION).get();
+  return new Map(snapshot.docs.map((doc) => [doc.id, doc.data().targetId as string]));
+}
+
 // Helper to calculate days between two dates
 const daysBetween = (date1: Date, date2: Date): number => {
   const oneDay = 24 * 60 * 60 * 1000;
@@ -38,6 +76,66 @@ const getWeekKey = (date: Date): string => {
   return `${year}-W${week.toString().padStart(2, "0")}`;
 };
 
+// Helper to get day key (e.g., "2025-01-15")
+const getDayKey = (date: Date): string => {
+  return date.toISOString().substring(0, 10);
+};
+
+// Daily sale buckets are kept for this many days - enough for the 90-day window
+const SALES_BY_DAY_RETENTION = 90;
+
+// Helper to sum the daily buckets inside the 30/90-day windows and list
+// the buckets that have aged out
+const rollSalesByDay = (
+  salesByDay: Record<string, number>,
+  now: Date
+): {expiredKeys: string[]; salesLast30Days: number; salesLast90Days: number} => {
+  const thirtyDayKey = getDayKey(new Date(now.getTime() - 30 * 86400000));
+  const retentionKey = getDayKey(new Date(now.getTime() - SALES_BY_DAY_RETENTION * 86400000));
+
+  const expiredKeys: string[] = [];
+  let salesLast30Days = 0;
+  let salesLast90Days = 0;
+  for (const [dayKey, count] of Object.entries(salesByDay)) {
+    // Day keys are ISO dates, so string comparison is chronological
+    if (dayKey < retentionKey || count <= 0) {
+      expiredKeys.push(dayKey);
+      continue;
+    }
+    salesLast90Days += count;
+    if (dayKey >= thirtyDayKey) salesLast30Days += count;
+  }
+  return {expiredKeys, salesLast30Days, salesLast90Days};
+};
+
+/**
+ * Cost aggregates over the sales that recorded a purchase cost
+ * (costedPurchaseCost / costedSales is the average buy price - repricing's margin floor)
+ * Missing on items written before they existed; the nightly job rebuilds them
+ */
+const costedSaleAggregates = (
+  purchaseCost: number,
+  shipCost: number,
+  direction: 1 | -1
+): {costedSales: number; costedPurchaseCost: number; costedShipCost: number} => {
+  const costed = purchaseCost > 0 ? direction : 0;
+  return {
+    costedSales: costed,
+    costedPurchaseCost: costed * purchaseCost,
+    costedShipCost: costed * shipCost,
+  };
+};
+
+// Helper to apply a sale's cost aggregates as Firestore increments
+const incrementCostedSaleAggregates = (
+  purchaseCost: number,
+  shipCost: number,
+  direction: 1 | -1
+): FirebaseFirestore.DocumentData => Object.fromEntries(
+  Object.entries(costedSaleAggregates(purchaseCost, shipCost, direction))
+    .map(([field, value]) => [field, admin.firestore.FieldValue.increment(value)])
+);
+
 // Helper to get month key (e.g., "2025-01")
 const getMonthKey = (date: Date): string => {
   const year = date.getFullYear();
@@ -112,23 +210,28 @@ export const updateItemStatsOnOrder = onDocumentWritten(
   "orders/{orderId}",
   async (event) => {
     const orderId = event.params.orderId;
-    const after = event.data?.after?.data();
-    const before = event.data?.before?.data();
-
-    // Skip if no change to item or paidDate
-    if (before?.item === after?.item && before?.paidDate === after?.paidDate) {
+    // Trashing counts as a delete and restoring as a create
+    const after = withoutTrashed(event.data?.after?.data());
+    const before = withoutTrashed(event.data?.before?.data());
+
+    // Skip if no change to item, SKU or paidDate
+    if (
+      before?.item === after?.item &&
+      before?.itemId === after?.itemId &&
+      before?.paidDate === after?.paidDate
+    ) {
       return;
     }
 
     try {
       // Handle deletion or item change - decrement old item
-      if (before?.item && (!after || before.item !== after?.item)) {
+      if (before?.item && (!after || before.item !== after?.item || before.itemId !== after?.itemId)) {
         await updateItemStatsDecrement(before.item, orderId);
       }
 
       // Handle creation or item change - increment new item
       if (after?.item && after?.paidDate) {
-        await updateItemStatsIncrement(
+        const normalizedId = await updateItemStatsIncrement(
           after.item,
           after.itemId,
           after.paidDate,
@@ -140,10 +243,19 @@ export const updateItemStatsOnOrder = onDocumentWritten(
         );
 
         // Trigger auto-pricing fetch asynchronously (don't block order processing)
-        const normalizedId = normalizeItemName(after.item);
         triggerAutoPricingFetch(normalizedId).catch((err) => {
           logger.error("Auto-pricing trigger error:", err);
         });
+
+        // A sale closes out any markdown/bundle/etc. decided for this item
+        await resolveDispositionsOnSale(
+          normalizedId,
+          orderId,
+          after.paidDate,
+          parseCurrency(after.earnings)
+        ).catch((err) => {
+          logger.error("Disposition resolution error:", err);
+        });
       }
     } catch (error) {
       logger.error("Error updating item stats:", error);
@@ -160,8 +272,14 @@ async function updateItemStatsIncrement(
   earnings: string | undefined,
   buyPrice: string | undefined,
   shipPrice: string | undefined
-) {
-  const normalizedId = normalizeItemName(itemName);
+): Promise<string> {
+  const saleDate = paidDate ? new Date(paidDate) : new Date();
+
+  // SKU sales also record the title in the registry; the first one decides
+  // which itemStats doc the SKU resolves to from then on
+  const normalizedId = itemId ?
+    await registerItemTitle(itemId, itemName, await resolveItemStatsId(itemName), "order", saleDate) :
+    await resolveItemStatsId(itemName);
   const itemStatsRef = db.collection("itemStats").doc(normalizedId);
 
   // Parse financial data
@@ -172,10 +290,10 @@ async function updateItemStatsIncrement(
   const profitMargin = salePrice > 0 ? (profit / salePrice) * 100 : 0;
 
   const now = admin.firestore.Timestamp.now();
-  const saleDate = paidDate ? new Date(paidDate) : new Date();
   const saleTimestamp = admin.firestore.Timestamp.fromDate(saleDate);
   const weekKey = getWeekKey(saleDate);
   const monthKey = getMonthKey(saleDate);
+  const dayKey = getDayKey(saleDate);
 
   await db.runTransaction(async (transaction) => {
     const doc = await transaction.get(itemStatsRef);
@@ -215,9 +333,11 @@ async function updateItemStatsIncrement(
         totalCost: purchaseCost + shipCost,
         totalProfit: profit,
         avgProfitMargin: Math.round(profitMargin * 10) / 10,
+        ...costedSaleAggregates(purchaseCost, shipCost, 1),
         // Sales by period
         salesByWeek: {[weekKey]: 1},
         salesByMonth: {[monthKey]: 1},
+        salesByDay: {[dayKey]: 1},
         createdAt: now,
         updatedAt: now,
       });
@@ -242,6 +362,15 @@ async function updateItemStatsIncrement(
       salesByWeek[weekKey] = (salesByWeek[weekKey] || 0) + 1;
       salesByMonth[monthKey] = (salesByMonth[monthKey] || 0) + 1;
 
+      // Items that predate the daily buckets get theirs rebuilt by the nightly job
+      const bucketUpdate = data.salesByDay ?
+        {[`salesByDay.${dayKey}`]: admin.firestore.FieldValue.increment(1)} :
+        {};
+      // Same for the cost aggregates
+      const costUpdate = data.costedSales !== undefined ?
+        incrementCostedSaleAggregates(purchaseCost, shipCost, 1) :
+        {};
+
       transaction.update(itemStatsRef, {
         totalSold: admin.firestore.FieldValue.increment(1),
         lastSaleDate: newLastSale,
@@ -257,25 +386,51 @@ async function updateItemStatsIncrement(
         // Period updates
         salesByWeek,
         salesByMonth,
+        ...bucketUpdate,
+        ...costUpdate,
+        // Items created before SKUs were tracked pick one up from their next sale
+        ...(itemId && !data.itemId && {itemId}),
         updatedAt: now,
       });
     }
   });
+
+  return normalizedId;
 }
 
-async function updateItemStatsDecrement(itemName: string, orderId: string) {
-  const normalizedId = normalizeItemName(itemName);
-  const itemStatsRef = db.collection("itemStats").doc(normalizedId);
+// Helper to find the itemStats doc an order's sale was recorded on
+// The SKU may have been re-pointed or the item merged since the sale, so the
+// sale doc itself decides; title/alias resolution covers sales it can't find
+async function findSaleItemStatsRef(
+  itemName: string,
+  orderId: string
+): Promise<FirebaseFirestore.DocumentReference> {
+  const snapshot = await db.collectionGroup("sales")
+    .where("orderRef", "==", `orders/${orderId}`)
+    .get();
+  const saleDoc = snapshot.docs.find((doc) => doc.ref.parent.parent?.parent.id === "itemStats");
+  if (saleDoc) return saleDoc.ref.parent.parent!;
+
+  return db.collection("itemStats").doc(await resolveItemStatsId(itemName));
+}
+
+async function updateItemStatsDecrement(
+  itemName: string,
+  orderId: string
+) {
+  const itemStatsRef = await findSaleItemStatsRef(itemName, orderId);
 
   await db.runTransaction(async (transaction) => {
     const doc = await transaction.get(itemStatsRef);
     const saleRef = itemStatsRef.collection("sales").doc(orderId);
     const saleDoc = await transaction.get(saleRef);
 
-    // Delete the sale record if it exists
-    if (saleDoc.exists) {
-      transaction.delete(saleRef);
+    // Nothing was recorded for this order, so there is nothing to take back out
+    if (!saleDoc.exists) {
+      logger.warn(`No sale recorded for order ${orderId} on ${itemStatsRef.id} - totals left as they are`);
+      return;
     }
+    transaction.delete(saleRef);
 
     if (doc.exists) {
       const data = doc.data()!;
@@ -295,6 +450,16 @@ async function updateItemStatsDecrement(itemName: string, orderId: string) {
         const newProfit = (data.totalProfit || 0) - saleProfit;
         const newAvgMargin = newRevenue > 0 ? (newProfit / newRevenue) * 100 : 0;
 
+        // Take the sale back out of its daily bucket
+        const saleDate = saleData?.saleDate?.toDate();
+        const dayKey = saleDate ? getDayKey(saleDate) : null;
+        const bucketUpdate = data.salesByDay && dayKey && data.salesByDay[dayKey] ?
+          {[`salesByDay.${dayKey}`]: admin.firestore.FieldValue.increment(-1)} :
+          {};
+        const costUpdate = data.costedSales !== undefined ?
+          incrementCostedSaleAggregates(saleData?.purchaseCost || 0, saleData?.shipCost || 0, -1) :
+          {};
+
         transaction.update(itemStatsRef, {
           totalSold: newTotal,
           salesLast30Days: Math.max(0, (data.salesLast30Days || 1) - 1),
@@ -303,6 +468,8 @@ async function updateItemStatsDecrement(itemName: string, orderId: string) {
           totalCost: admin.firestore.FieldValue.increment(-saleCost),
           totalProfit: admin.firestore.FieldValue.increment(-saleProfit),
           avgProfitMargin: Math.round(newAvgMargin * 10) / 10,
+          ...bucketUpdate,
+          ...costUpdate,
           updatedAt: admin.firestore.Timestamp.now(),
         });
       }
@@ -310,9 +477,78 @@ async function updateItemStatsDecrement(itemName: string, orderId: string) {
   });
 }
 
+/**
+ * Rebuild an item's sale aggregates from its sales subcollection
+ * For when sales were moved in bulk (item merge) and the running totals
+ * on the doc can't simply be added up
+ */
+export async function buildSaleAggregates(
+  itemStatsRef: FirebaseFirestore.DocumentReference,
+  now: Date = new Date()
+): Promise<FirebaseFirestore.DocumentData> {
+  const salesSnapshot = await itemStatsRef.collection("sales").get();
+  const retentionKey = getDayKey(new Date(now.getTime() - SALES_BY_DAY_RETENTION * 86400000));
+
+  let totalRevenue = 0;
+  let totalCost = 0;
+  let totalProfit = 0;
+  let firstSaleDate: Date | null = null;
+  let lastSaleDate: Date | null = null;
+  const salesByWeek: Record<string, number> = {};
+  const salesByMonth: Record<string, number> = {};
+  const salesByDay: Record<string, number> = {};
+  const costs = {costedSales: 0, costedPurchaseCost: 0, costedShipCost: 0};
+
+  for (const saleDoc of salesSnapshot.docs) {
+    const sale = saleDoc.data();
+    const purchaseCost = sale.purchaseCost || 0;
+    const shipCost = sale.shipCost || 0;
+    totalRevenue += sale.salePrice || 0;
+    totalCost += purchaseCost + shipCost;
+    totalProfit += sale.profit || 0;
+    if (purchaseCost > 0) {
+      costs.costedSales++;
+      costs.costedPurchaseCost += purchaseCost;
+      costs.costedShipCost += shipCost;
+    }
+
+    const saleDate: Date | undefined = sale.saleDate?.toDate();
+    if (!saleDate) continue;
+    if (!firstSaleDate || saleDate < firstSaleDate) firstSaleDate = saleDate;
+    if (!lastSaleDate || saleDate > lastSaleDate) lastSaleDate = saleDate;
+    salesByWeek[getWeekKey(saleDate)] = (salesByWeek[getWeekKey(saleDate)] || 0) + 1;
+    salesByMonth[getMonthKey(saleDate)] = (salesByMonth[getMonthKey(saleDate)] || 0) + 1;
+    const dayKey = getDayKey(saleDate);
+    if (dayKey >= retentionKey) salesByDay[dayKey] = (salesByDay[dayKey] || 0) + 1;
+  }
+
+  const rolled = rollSalesByDay(salesByDay, now);
+  return {
+    totalSold: salesSnapshot.size,
+    totalRevenue: Math.round(totalRevenue * 100) / 100,
+    totalCost: Math.round(totalCost * 100) / 100,
+    totalProfit: Math.round(totalProfit * 100) / 100,
+    avgProfitMargin: totalRevenue > 0 ? Math.round((totalProfit / totalRevenue) * 1000) / 10 : 0,
+    ...costs,
+    salesByWeek,
+    salesByMonth,
+    salesByDay,
+    salesLast30Days: rolled.salesLast30Days,
+    salesLast90Days: rolled.salesLast90Days,
+    ...(firstSaleDate && {firstSaleDate: admin.firestore.Timestamp.fromDate(firstSaleDate)}),
+    ...(lastSaleDate && {
+      lastSaleDate: admin.firestore.Timestamp.fromDate(lastSaleDate),
+      daysSinceLastSale: daysBetween(now, lastSaleDate),
+    }),
+  };
+}
+
 /**
  * Scheduled Function: Calculate daily stale metrics
  * Runs every day at 2 AM
+ * Rolling 30/90-day counts come from the daily buckets on each itemStats doc,
+ * so the job reads each item once instead of every sale.
+ * Staleness comes from the item's stale rule set (staleRuleSets collection).
  */
 export const calculateDailyStaleMetrics = onSchedule(
   {
@@ -323,68 +559,114 @@ export const calculateDailyStaleMetrics = onSchedule(
     logger.info("Starting daily stale metrics calculation");
 
     const now = new Date();
-    const thirtyDaysAgo = new Date(now);
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
     const ninetyDaysAgo = new Date(now);
-    ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
+    ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - SALES_BY_DAY_RETENTION);
 
-    const batch = db.batch();
+    let batch = db.batch();
+    let pending = 0;
     let updateCount = 0;
+    let rebuiltCount = 0;
 
     try {
-      const itemStatsSnapshot = await db.collection("itemStats").get();
+      const [itemStatsSnapshot, ruleSets] = await Promise.all([
+        db.collection("itemStats").get(),
+        loadStaleRuleSets(),
+      ]);
+      logger.info(`Evaluating ${ruleSets.length} stale rule sets`);
 
       for (const doc of itemStatsSnapshot.docs) {
         const data = doc.data();
         const lastSaleDate = data.lastSaleDate?.toDate() || new Date(0);
         const firstSaleDate = data.firstSaleDate?.toDate() || lastSaleDate;
         const daysSinceLastSale = daysBetween(now, lastSaleDate);
-        const threshold = data.staleThresholdDays || 30;
-        const isStale = daysSinceLastSale >= threshold;
+
+        const ruleSet = selectRuleSet(ruleSets, data);
+        const staleRule = await evaluateStaleRules(
+          ruleSet,
+          buildStaleRuleContext(doc, daysSinceLastSale)
+        );
+        const isStale = !!staleRule && STALE_SEVERITIES.includes(staleRule.severity);
 
         // Calculate sales velocity (sales per week over last 90 days)
         const daysSinceFirst = Math.max(1, daysBetween(now, firstSaleDate));
         const weeksActive = Math.max(1, daysSinceFirst / 7);
         const salesVelocity = data.totalSold / weeksActive;
 
-        // Count sales in rolling windows from sales subcollection
-        const salesSnapshot = await doc.ref.collection("sales").get();
-        let salesLast30Days = 0;
-        let salesLast90Days = 0;
-
-        for (const saleDoc of salesSnapshot.docs) {
-          const saleData = saleDoc.data();
-          const saleDate = saleData.saleDate?.toDate();
-          if (saleDate) {
-            if (saleDate >= thirtyDaysAgo) salesLast30Days++;
-            if (saleDate >= ninetyDaysAgo) salesLast90Days++;
+        // One-time rebuild for items written before the daily buckets existed
+        let salesByDay: Record<string, number> = data.salesByDay;
+        const rebuildingBuckets = !salesByDay;
+        if (rebuildingBuckets) {
+          salesByDay = {};
+          const recentSales = await doc.ref.collection("sales")
+            .where("saleDate", ">=", admin.firestore.Timestamp.fromDate(ninetyDaysAgo))
+            .get();
+          for (const saleDoc of recentSales.docs) {
+            const saleDate = saleDoc.data().saleDate?.toDate();
+            if (saleDate) {
+              const dayKey = getDayKey(saleDate);
+              salesByDay[dayKey] = (salesByDay[dayKey] || 0) + 1;
+            }
+          }
+          rebuiltCount++;
+        }
+
+        const rolled = rollSalesByDay(salesByDay, now);
+
+        // Only expired buckets are removed - rewriting the whole map would drop sales
+        // counted by updateItemStatsOnOrder since this doc was read
+        const bucketUpdate: FirebaseFirestore.DocumentData = rebuildingBuckets ?
+          {salesByDay} :
+          Object.fromEntries(rolled.expiredKeys.map((dayKey) =>
+            [`salesByDay.${dayKey}`, admin.firestore.FieldValue.delete()]
+          ));
+
+        // One-time rebuild of the cost aggregates (repricing reads these, not the sales)
+        let costRebuild: FirebaseFirestore.DocumentData = {};
+        if (data.costedSales === undefined) {
+          const salesSnapshot = await doc.ref.collection("sales").select("purchaseCost", "shipCost").get();
+          costRebuild = {costedSales: 0, costedPurchaseCost: 0, costedShipCost: 0};
+          for (const saleDoc of salesSnapshot.docs) {
+            const sale = saleDoc.data();
+            if ((sale.purchaseCost || 0) > 0) {
+              costRebuild.costedSales++;
+              costRebuild.costedPurchaseCost += sale.purchaseCost;
+              costRebuild.costedShipCost += sale.shipCost || 0;
+            }
           }
+          rebuiltCount++;
         }
 
         batch.update(doc.ref, {
           daysSinceLastSale,
           isStale,
+          staleSeverity: staleRule?.severity || null,
+          staleRule,
           salesVelocity: Math.round(salesVelocity * 10) / 10,
-          salesLast30Days,
-          salesLast90Days,
+          salesLast30Days: rolled.salesLast30Days,
+          salesLast90Days: rolled.salesLast90Days,
+          ...bucketUpdate,
+          ...costRebuild,
           updatedAt: admin.firestore.Timestamp.now(),
         });
 
+        pending++;
         updateCount++;
 
-        // Commit in batches of 500
-        if (updateCount % 500 === 0) {
+        // Commit in batches of 500 (a committed batch can't be reused)
+        if (pending === 500) {
           await batch.commit();
+          batch = db.batch();
+          pending = 0;
           logger.info(`Committed batch of ${updateCount} updates`);
         }
       }
 
       // Commit remaining
-      if (updateCount % 500 !== 0) {
+      if (pending > 0) {
         await batch.commit();
       }
 
-      logger.info(`Daily stale metrics completed: ${updateCount} items updated`);
+      logger.info(`Daily stale metrics completed: ${updateCount} items updated, ${rebuiltCount} buckets/aggregates rebuilt`);
     } catch (error) {
       logger.error("Error in daily stale metrics:", error);
       throw error;
@@ -399,7 +681,8 @@ export const calculateDailyStaleMetrics = onSchedule(
  */
 export const migrateOrdersToItemStats = onCall(
   {cors: true, timeoutSeconds: 300, memory: "1GiB"},
-  async () => {
+  async (request) => {
+    requireRole(request, "admin");
     logger.info("Starting orders migration to itemStats (last 6 months)");
 
     // Calculate 6 months ago cutoff
@@ -408,6 +691,8 @@ export const migrateOrdersToItemStats = onCall(
     logger.info(`Filtering orders from ${sixMonthsAgo.toISOString()}`);
 
     const ordersSnapshot = await db.collection("orders").get();
+    const aliases = await loadItemAliases();
+    const registry = await loadItemRegistry();
 
     // Structure to hold aggregated data
     interface OrderData {
@@ -442,7 +727,7 @@ export const migrateOrdersToItemStats = onCall(
     ordersSnapshot.forEach((doc) => {
       const data = doc.data();
       const itemName = data.item;
-      if (!itemName || !data.paidDate) return;
+      if (!itemName || !data.paidDate || isTrashed(data)) return;
 
       const saleDate = new Date(data.paidDate);
 
@@ -453,7 +738,10 @@ export const migrateOrdersToItemStats = onCall(
       }
 
       processed++;
-      const normalizedId = normalizeItemName(itemName);
+      const baseId = normalizeItemName(itemName);
+      const normalizedId = (data.itemId && registry.get(getSkuKey(data.itemId))?.statsId) ||
+        aliases.get(baseId) ||
+        baseId;
 
       // Parse financial data
       const salePrice = parseCurrency(data.earnings);
@@ -611,10 +899,13 @@ export const migrateOrdersToItemStats = onCall(
  */
 export const migrateAllOrdersToItemStats = onCall(
   {cors: true, timeoutSeconds: 540, memory: "1GiB"},
-  async () => {
+  async (request) => {
+    requireRole(request, "admin");
     logger.info("Starting FULL orders migration to itemStats (all time, no date filter)");
 
     const ordersSnapshot = await db.collection("orders").get();
+    const aliases = await loadItemAliases();
+    const registry = await loadItemRegistry();
 
     // Structure to hold aggregated data
     interface OrderData {
@@ -656,6 +947,7 @@ export const migrateAllOrdersToItemStats = onCall(
         skippedNoItem++;
         return;
       }
+      if (isTrashed(data)) return;
 
       // Use paidDate if available, otherwise use createdAt or current date
       let saleDate: Date;
@@ -673,7 +965,10 @@ export const migrateAllOrdersToItemStats = onCall(
       }
 
       processed++;
-      const normalizedId = normalizeItemName(itemName);
+      const baseId = normalizeItemName(itemName);
+      const normalizedId = (data.itemId && registry.get(getSkuKey(data.itemId))?.statsId) ||
+        aliases.get(baseId) ||
+        baseId;
 
       // Parse financial data
       const salePrice = parseCurrency(data.earnings);
@@ -826,6 +1121,158 @@ export const migrateAllOrdersToItemStats = onCall(
   }
 );
 
+/**
+ * HTTP Callable: Backfill the SKU registry from historical orders
+ * Each SKU gets an entry with every title it sold under, pointing at the
+ * itemStats doc most of its sales landed on. Existing entries keep their
+ * statsId and only gain titles. itemStats docs and item profiles without a
+ * SKU get one. SKUs whose sales are split across several itemStats docs are
+ * reported so they can be merged.
+ */
+export const backfillItemRegistry = onCall(
+  {cors: true, timeoutSeconds: 540, memory: "1GiB"},
+  async (request) => {
+    requireRole(request, "admin");
+    logger.info("Starting SKU registry backfill from orders");
+
+    const [ordersSnapshot, statsSnapshot, profilesSnapshot, aliases, registry] = await Promise.all([
+      db.collection("orders").get(),
+      db.collection("itemStats").select("itemId").get(),
+      db.collection("itemProfiles").select("itemId").get(),
+      loadItemAliases(),
+      loadItemRegistry(),
+    ]);
+
+    const statsItemIds = new Map(statsSnapshot.docs.map((doc) => [doc.id, doc.data().itemId || null]));
+    const profileItemIds = new Map(profilesSnapshot.docs.map((doc) => [doc.id, doc.data().itemId || null]));
+
+    const skus = new Map<string, {
+      sku: string;
+      titles: Map<string, {first: Date; last: Date}>;
+      statsCounts: Map<string, number>;
+    }>();
+    let ordersWithSku = 0;
+
+    ordersSnapshot.forEach((doc) => {
+      const data = doc.data();
+      const sku = String(data.itemId || "").trim();
+      if (!data.item || !sku || !data.paidDate || isTrashed(data)) return;
+
+      const seenAt = new Date(data.paidDate);
+      if (isNaN(seenAt.getTime())) return;
+
+      ordersWithSku++;
+      const key = getSkuKey(sku);
+      const baseId = normalizeItemName(data.item);
+      const statsId = aliases.get(baseId) || baseId;
+
+      const history = skus.get(key) || {sku, titles: new Map(), statsCounts: new Map()};
+      const title = history.titles.get(data.item);
+      if (!title) {
+        history.titles.set(data.item, {first: seenAt, last: seenAt});
+      } else {
+        if (seenAt < title.first) title.first = seenAt;
+        if (seenAt > title.last) title.last = seenAt;
+      }
+      history.statsCounts.set(statsId, (history.statsCounts.get(statsId) || 0) + 1);
+      skus.set(key, history);
+    });
+
+    logger.info(`Found ${skus.size} SKUs across ${ordersWithSku} orders`);
+
+    const now = admin.firestore.Timestamp.now();
+    const splitSkus: {sku: string; statsIds: string[]}[] = [];
+    let batch = db.batch();
+    let batchCount = 0;
+    let itemStatsUpdated = 0;
+    let profilesUpdated = 0;
+
+    for (const [key, history] of skus) {
+      const existing = registry.get(key);
+
+      // Fold the order history into whatever titles the entry already has
+      const titles = (existing?.titles || []).map((t) => ({...t}));
+      for (const [title, seen] of history.titles) {
+        const first = admin.firestore.Timestamp.fromDate(seen.first);
+        const last = admin.firestore.Timestamp.fromDate(seen.last);
+        const match = titles.find((t) => t.title === title);
+        if (!match) {
+          titles.push({title, source: "migration", firstSeenAt: first, lastSeenAt: last});
+        } else {
+          if (first.toMillis() < match.firstSeenAt.toMillis()) match.firstSeenAt = first;
+          if (last.toMillis() > match.lastSeenAt.toMillis()) match.lastSeenAt = last;
+        }
+      }
+      const currentTitle = titles.reduce((a, b) =>
+        (b.lastSeenAt.toMillis() > a.lastSeenAt.toMillis() ? b : a)).title;
+
+      const statsIds = Array.from(history.statsCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([statsId]) => statsId);
+      const statsId = existing?.statsId || statsIds[0];
+      // Keep the profile someone already set up under any of the titles,
+      // most recently seen title first
+      const existingProfileId = [...titles]
+        .sort((a, b) => b.lastSeenAt.toMillis() - a.lastSeenAt.toMillis())
+        .map((t) => getItemProfileId(t.title))
+        .find((id) => profileItemIds.has(id));
+      const profileId = existing?.profileId || existingProfileId || getItemProfileId(currentTitle);
+      if (statsIds.length > 1) {
+        splitSkus.push({sku: history.sku, statsIds});
+      }
+
+      batch.set(db.collection(ITEM_REGISTRY_COLLECTION).doc(key), {
+        sku: existing?.sku || history.sku,
+        statsId,
+        profileId,
+        currentTitle,
+        titles,
+        ...(existing?.ebayItemId && {ebayItemId: existing.ebayItemId}),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      });
+      batchCount++;
+
+      // Fill in the SKU where the item doesn't have one yet
+      for (const id of statsIds) {
+        if (statsItemIds.has(id) && !statsItemIds.get(id)) {
+          batch.update(db.collection("itemStats").doc(id), {itemId: history.sku, updatedAt: now});
+          statsItemIds.set(id, history.sku);
+          batchCount++;
+          itemStatsUpdated++;
+        }
+      }
+      if (profileItemIds.has(profileId) && !profileItemIds.get(profileId)) {
+        batch.update(db.collection("itemProfiles").doc(profileId), {itemId: history.sku});
+        profileItemIds.set(profileId, history.sku);
+        batchCount++;
+        profilesUpdated++;
+      }
+
+      if (batchCount >= 450) {
+        await batch.commit();
+        batch = db.batch();
+        batchCount = 0;
+      }
+    }
+
+    if (batchCount > 0) {
+      await batch.commit();
+    }
+
+    logger.info(`Registry backfill completed: ${skus.size} SKUs, ${splitSkus.length} split across items`);
+    return {
+      success: true,
+      skusRegistered: skus.size,
+      ordersWithSku,
+      itemStatsUpdated,
+      profilesUpdated,
+      splitSkus: splitSkus.length,
+      splitSkuSamples: splitSkus.slice(0, 20),
+    };
+  }
+);
+
 /**
  * HTTP Callable: Backfill sales subcollection for a specific item
  * Called when expanding an item that has sales but no subcollection data
@@ -833,6 +1280,7 @@ export const migrateAllOrdersToItemStats = onCall(
 export const backfillSalesForItem = onCall(
   {cors: true, timeoutSeconds: 60},
   async (request) => {
+    requireRole(request, "manager");
     const {itemId, itemName} = request.data as {
       itemId: string;
       itemName: string;
@@ -868,8 +1316,8 @@ export const backfillSalesForItem = onCall(
     for (const orderDoc of ordersSnapshot.docs) {
       const order = orderDoc.data();
 
-      // Skip if no paidDate (not a completed sale)
-      if (!order.paidDate) continue;
+      // Skip if no paidDate (not a completed sale) or trashed
+      if (!order.paidDate || isTrashed(order)) continue;
 
       const saleDate = new Date(order.paidDate);
       const salePrice = parseCurrency(order.earnings);
@@ -918,6 +1366,9 @@ export const backfillSalesForItem = onCall(
         totalCost: Math.round(totalCost * 100) / 100,
         totalProfit: Math.round(totalProfit * 100) / 100,
         avgProfitMargin: Math.round(avgMargin * 10) / 10,
+        // New sales landed outside the daily buckets - let the nightly job rebuild them
+        salesByDay: admin.firestore.FieldValue.delete(),
+        costedSales: admin.firestore.FieldValue.delete(),
         updatedAt: now,
       });
       batchCount++;
@@ -1022,7 +1473,8 @@ export const weeklyPriceCheck = onSchedule(
 
 /**
  * Scheduled Function: Auto-unreview items that haven't sold since being reviewed
- * Items reviewed 60+ days ago with no sale since review get their reviewedAt cleared
+ * Items reviewed longer ago than their rule set's unreviewAfterDays (60 by default)
+ * with no sale since review get their reviewedAt cleared
  * Runs daily at 4 AM
  */
 export const autoUnreviewStaleItems = onSchedule(
@@ -1033,17 +1485,23 @@ export const autoUnreviewStaleItems = onSchedule(
   async () => {
     logger.info("Starting auto-unreview check for stale reviewed items");
 
-    const sixtyDaysAgo = new Date();
-    sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
-    const sixtyDaysAgoTimestamp = admin.firestore.Timestamp.fromDate(sixtyDaysAgo);
+    // Each rule set has its own unreview window - query by the shortest one
+    const ruleSets = await loadStaleRuleSets();
+    const shortestWindow = Math.min(
+      selectRuleSet(ruleSets, {}).unreviewAfterDays,
+      ...ruleSets.map((ruleSet) => ruleSet.unreviewAfterDays || 60)
+    );
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - shortestWindow);
+    const cutoffTimestamp = admin.firestore.Timestamp.fromDate(cutoff);
 
-    // Get all items that were reviewed more than 60 days ago
     const reviewedItemsSnapshot = await db
       .collection("itemStats")
-      .where("reviewedAt", "<=", sixtyDaysAgoTimestamp)
+      .where("reviewedAt", "<=", cutoffTimestamp)
       .get();
 
-    logger.info(`Found ${reviewedItemsSnapshot.size} items reviewed 60+ days ago`);
+    logger.info(`Found ${reviewedItemsSnapshot.size} items reviewed ${shortestWindow}+ days ago`);
 
     let batch = db.batch();
     let batchCount = 0;
@@ -1053,9 +1511,12 @@ export const autoUnreviewStaleItems = onSchedule(
       const data = doc.data();
       const reviewedAt = data.reviewedAt?.toDate();
       const lastSaleDate = data.lastSaleDate?.toDate();
+      const unreviewAfterDays = selectRuleSet(ruleSets, data).unreviewAfterDays || 60;
+      const reviewExpired = reviewedAt &&
+        daysBetween(new Date(), reviewedAt) >= unreviewAfterDays;
 
       // Only unreview if no sale has occurred since the review
-      if (reviewedAt && lastSaleDate && lastSaleDate < reviewedAt) {
+      if (reviewExpired && lastSaleDate && lastSaleDate < reviewedAt) {
         batch.update(doc.ref, {
           reviewedAt: admin.firestore.FieldValue.delete(),
           updatedAt: admin.firestore.Timestamp.now(),
@@ -0,0 +1,314 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {
+  onDocumentUpdatedWithAuthContext,
+  FirestoreAuthEvent,
+  Change,
+  QueryDocumentSnapshot,
+} from "firebase-functions/v2/firestore";
+import {requireRole} from "./roles";
+
+const db = admin.firestore();
+
+// Credited with the status reverts made here in the audit log
+const STATUS_RULES_ACTOR = "status rules";
+
+// Canonical order/return statuses
+// Mirrored in src/types/orderStatus.ts and src/services/orderStatus.ts
+export type OrderStatus =
+  | "not shipped"
+  | "processing"
+  | "shipped"
+  | "delivered"
+  | "completed"
+  | "return"
+  | "return delivered"
+  | "refunded"
+  | "return complete"
+  | "cancelled";
+
+// Where a status sits in an order's life (drives list filters and counts)
+export type OrderStatusStage = "open" | "shipped" | "return" | "closed";
+
+// What has to be on the order/return before it can move into a status
+export type StatusRequirement = "tracking" | "credited";
+
+// What moving into a status sets off
+// openReturnTicket: an order moving to "return" is copied to a return ticket
+// (OrderCard / eBay notifications) and ends up "return complete" or reset for a replacement
+// restockInventory: a return reaching us puts the part back on the shelf (inventory.ts)
+export type StatusEffect = "openReturnTicket" | "restockInventory";
+
+interface StatusRule {
+  stage: OrderStatusStage;
+  next: OrderStatus[];
+  requires: StatusRequirement[];
+  effects: StatusEffect[];
+}
+
+export const ORDER_STATUS_RULES: Record<OrderStatus, StatusRule> = {
+  "not shipped": {
+    stage: "open",
+    next: ["processing", "shipped", "delivered", "cancelled", "return"],
+    requires: [],
+    effects: [],
+  },
+  "processing": {
+    stage: "open",
+    next: ["not shipped", "shipped", "delivered", "cancelled", "return"],
+    requires: [],
+    effects: [],
+  },
+  "shipped": {
+    // Back to "not shipped" when the label is voided (voidShippingLabel)
+    stage: "shipped",
+    next: ["not shipped", "delivered", "completed", "cancelled", "return"],
+    requires: ["tracking"],
+    effects: [],
+  },
+  "delivered": {
+    stage: "shipped",
+    next: ["completed", "return"],
+    requires: ["tracking"],
+    effects: [],
+  },
+  "completed": {
+    stage: "closed",
+    next: ["delivered", "return"],
+    requires: [],
+    effects: [],
+  },
+  "return": {
+    stage: "return",
+    next: ["return delivered", "refunded", "return complete"],
+    requires: [],
+    effects: ["openReturnTicket"],
+  },
+  "return delivered": {
+    stage: "return",
+    next: ["refunded", "return complete"],
+    requires: [],
+    effects: ["restockInventory"],
+  },
+  "refunded": {
+    stage: "closed",
+    next: ["return complete"],
+    requires: ["credited"],
+    effects: [],
+  },
+  "return complete": {
+    stage: "closed",
+    next: [],
+    requires: [],
+    effects: ["restockInventory"],
+  },
+  "cancelled": {
+    // Reopened if the cancellation falls through
+    stage: "closed",
+    next: ["not shipped"],
+    requires: [],
+    effects: [],
+  },
+};
+
+// Legacy spellings still in Firestore -> canonical status
+// normalizeOrderStatuses rewrites them; queries keep matching them until it has run
+export const LEGACY_STATUS_ALIASES: Record<string, OrderStatus> = {
+  "notShipped": "not shipped",
+  "return done": "return complete",
+};
+
+const REQUIREMENT_MESSAGES: Record<StatusRequirement, string> = {
+  tracking: "a tracking number and carrier",
+  credited: "a credited amount",
+};
+
+// Helper to map a stored status (canonical or legacy) to its canonical value
+export const normalizeOrderStatus = (status: unknown): OrderStatus | null => {
+  if (typeof status !== "string") return null;
+  if (status in ORDER_STATUS_RULES) return status as OrderStatus;
+  return LEGACY_STATUS_ALIASES[status] || null;
+};
+
+// Helper to add the legacy spellings of some statuses (for Firestore "in" queries)
+export const withLegacyAliases = (statuses: OrderStatus[]): string[] => [
+  ...statuses,
+  ...Object.keys(LEGACY_STATUS_ALIASES).filter((alias) => statuses.includes(LEGACY_STATUS_ALIASES[alias])),
+];
+
+// Helper to list the statuses that set off an effect
+export const statusesWithEffect = (effect: StatusEffect): OrderStatus[] =>
+  (Object.keys(ORDER_STATUS_RULES) as OrderStatus[]).filter((status) =>
+    ORDER_STATUS_RULES[status].effects.includes(effect)
+  );
+
+// Helper to check whether an order/return has what a requirement asks for
+const meetsRequirement = (
+  requirement: StatusRequirement,
+  data: FirebaseFirestore.DocumentData
+): boolean => {
+  switch (requirement) {
+    case "tracking":
+      return !!String(data.tracking || "").trim() && !!String(data.carrier || "").trim();
+    case "credited":
+      return !!String(data.credited || "").trim();
+  }
+};
+
+/**
+ * Why an order/return can't move from one status to another (null if it can)
+ * Unrecognised current statuses can move anywhere so bad data never gets stuck
+ */
+export function getTransitionError(
+  from: unknown,
+  to: OrderStatus,
+  data: FirebaseFirestore.DocumentData
+): string | null {
+  const current = normalizeOrderStatus(from);
+  if (current === to) return null;
+  if (current && !ORDER_STATUS_RULES[current].next.includes(to)) {
+    return `Can't change status from "${current}" to "${to}"`;
+  }
+
+  const missing = ORDER_STATUS_RULES[to].requires.filter((requirement) => !meetsRequirement(requirement, data));
+  if (missing.length > 0) {
+    return `"${to}" needs ${missing.map((requirement) => REQUIREMENT_MESSAGES[requirement]).join(" and ")}`;
+  }
+  return null;
+}
+
+// Helper to check whether an order moved as part of opening a return ticket
+// (openReturnTicket): OrderCard closes it out as "return complete" or resets it
+// to "not shipped" for a replacement, which the rules table alone doesn't allow
+async function isReturnTicketMove(
+  orderId: string,
+  before: FirebaseFirestore.DocumentData,
+  after: FirebaseFirestore.DocumentData
+): Promise<boolean> {
+  const to = normalizeOrderStatus(after.status);
+  if (to !== "return complete" && to !== "not shipped") return false;
+  if (getTransitionError(before.status, "return", after)) return false;
+
+  const returns = await db.collection("returns")
+    .where("originalOrderId", "==", orderId)
+    .limit(1)
+    .get();
+  return !returns.empty;
+}
+
+// Helper to put back a status change the rules don't allow
+async function enforceStatusTransition(
+  collectionName: "orders" | "returns",
+  event: FirestoreAuthEvent<Change<QueryDocumentSnapshot> | undefined, Record<string, string>>
+): Promise<void> {
+  // Our own functions (eBay notifications, label voids, migrations) are trusted,
+  // and skipping them keeps the revert below from re-triggering this
+  if (event.authType === "service_account" || event.authType === "system") return;
+
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!before || !after || before.status === after.status) return;
+
+  const to = normalizeOrderStatus(after.status);
+  const transitionError = to ?
+    getTransitionError(before.status, to, after) :
+    `"${after.status}" isn't a status`;
+  if (!transitionError) return;
+  if (collectionName === "orders" && await isReturnTicketMove(event.data!.after.id, before, after)) return;
+
+  logger.warn(`Reverting status change on ${collectionName}/${event.data!.after.id}: ${transitionError}`, {
+    from: before.status,
+    to: after.status,
+    authId: event.authId,
+  });
+  await event.data!.after.ref.update({
+    status: before.status,
+    updatedAt: new Date().toISOString(),
+    updatedBy: STATUS_RULES_ACTOR,
+  });
+}
+
+/**
+ * Firestore Trigger: Revert order status changes the rules don't allow
+ * The cards check getTransitionError before saving; this catches writes that skip them
+ */
+export const enforceOrderStatus = onDocumentUpdatedWithAuthContext(
+  "orders/{orderId}",
+  async (event) => {
+    try {
+      await enforceStatusTransition("orders", event);
+    } catch (error) {
+      logger.error(`Error enforcing status on order ${event.params.orderId}:`, error);
+    }
+  }
+);
+
+/**
+ * Firestore Trigger: Revert return status changes the rules don't allow
+ */
+export const enforceReturnStatus = onDocumentUpdatedWithAuthContext(
+  "returns/{returnId}",
+  async (event) => {
+    try {
+      await enforceStatusTransition("returns", event);
+    } catch (error) {
+      logger.error(`Error enforcing status on return ${event.params.returnId}:`, error);
+    }
+  }
+);
+
+/**
+ * HTTP Callable: Rewrite legacy status spellings on orders and returns
+ * ("notShipped" -> "not shipped", "return done" -> "return complete")
+ */
+export const normalizeOrderStatuses = onCall(
+  {cors: true, timeoutSeconds: 540},
+  async (request) => {
+    requireRole(request, "admin");
+    logger.info("Starting order status normalization");
+
+    try {
+      let batch = db.batch();
+      let batchCount = 0;
+      const normalized: Record<string, number> = {};
+      const now = new Date().toISOString();
+
+      for (const collectionName of ["orders", "returns"]) {
+        const snapshot = await db.collection(collectionName)
+          .where("status", "in", Object.keys(LEGACY_STATUS_ALIASES))
+          .get();
+
+        for (const doc of snapshot.docs) {
+          const legacy = doc.data().status as string;
+          batch.update(doc.ref, {
+            status: LEGACY_STATUS_ALIASES[legacy],
+            updatedAt: now,
+            updatedBy: "status migration",
+          });
+          batchCount++;
+          normalized[legacy] = (normalized[legacy] || 0) + 1;
+
+          // Commit batch if approaching limit
+          if (batchCount >= 450) {
+            await batch.commit();
+            batch = db.batch();
+            batchCount = 0;
+          }
+        }
+      }
+
+      if (batchCount > 0) {
+        await batch.commit();
+      }
+
+      const total = Object.values(normalized).reduce((sum, count) => sum + count, 0);
+      logger.info("Order status normalization complete", {total, normalized});
+      return {success: true, total, normalized};
+    } catch (error) {
+      logger.error("Error normalizing order statuses:", error);
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError("internal", "Failed to normalize order statuses");
+    }
+  }
+);
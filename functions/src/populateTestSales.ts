@@ -1,5 +1,6 @@
 import * as admin from "firebase-admin";
 import {onCall} from "firebase-functions/v2/https";
+import {requireRole} from "./roles";
 
 const db = admin.firestore();
 
@@ -18,6 +19,7 @@ const normalizeItemName = (name: string): string => {
 export const populateTestSales = onCall(
   {cors: true},
   async (request) => {
+    requireRole(request, "admin");
     const itemName = request.data?.itemName ||
       "94-99 Toyota Celica GT ST ST204 AT200 OEM Gas Fuel Pump Sending Assembly";
 
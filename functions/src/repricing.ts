@@ -0,0 +1,340 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {requireRole} from "./roles";
+
+const db = admin.firestore();
+
+export const REPRICING_RECOMMENDATIONS_COLLECTION = "repricingRecommendations";
+
+// eBay final value fee taken out of the listing price
+const EBAY_FEE_RATE = 0.1325;
+// Never suggest a price that nets less than this margin over cost
+const MIN_MARGIN = 0.1;
+// Don't bother suggesting changes smaller than this
+const MIN_CHANGE_PERCENT = 3;
+// Items decided recently aren't re-queued until this passes
+const DECISION_COOLDOWN_DAYS = 30;
+
+// Recent sales sampled for how they closed against the market
+const RECENT_SALES_SAMPLED = 20;
+
+// Engagement thresholds for the 30-day eBay view count
+const HIGH_VIEWS = 50;
+const LOW_VIEWS = 10;
+
+export interface MarketPosition {
+  avgPrice: number;
+  minPrice: number;
+  maxPrice: number;
+  stdDev: number;
+  totalListings: number;
+  percentile: number; // 0-100, where the current price sits in the market
+  checkedAt: FirebaseFirestore.Timestamp | null;
+}
+
+export interface Engagement {
+  views30Day: number;
+  watchers: number;
+  salesLast30Days: number;
+  conversionRate: number | null; // sales per view, null with no views
+}
+
+export interface MarginFloor {
+  avgPurchaseCost: number;
+  avgShipCost: number;
+  floorPrice: number;
+}
+
+export interface RepricingInput {
+  currentPrice: number;
+  daysSinceLastSale: number;
+  market: Omit<MarketPosition, "percentile"> | null;
+  engagement: Engagement | null;
+  costs: {purchaseCost: number; shipCost: number} | null;
+  pastSaleToMarketRatio: number | null; // avg salePrice / marketPriceAtSale.avgPrice over recent sales
+}
+
+export interface RepricingRecommendation {
+  currentPrice: number;
+  suggestedPrice: number;
+  changePercent: number;
+  marketPosition: MarketPosition | null;
+  engagement: Engagement | null;
+  marginFloor: MarginFloor | null;
+  pastSaleToMarketRatio: number | null;
+  reasons: string[];
+}
+
+// Helper to approximate the standard normal CDF
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const d = 0.3989423 * Math.exp(-z * z / 2);
+  const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  return z > 0 ? 1 - p : p;
+};
+
+// Helper to round to a .99 price point
+const toPricePoint = (price: number): number =>
+  Math.max(0.99, Math.round(price) - 0.01);
+
+// Helper to format a dollar amount for reasons
+const money = (value: number): string => `$${value.toFixed(2)}`;
+
+/**
+ * Suggest a new listing price for a stale item
+ * Anchors on the car-part.com market (scaled by how past sales closed
+ * against it), cuts harder when views aren't converting, and never drops
+ * below the cost-based margin floor. Returns null when the price should hold.
+ */
+export function buildRepricingRecommendation(input: RepricingInput): RepricingRecommendation | null {
+  const {currentPrice, daysSinceLastSale, market, engagement, costs, pastSaleToMarketRatio} = input;
+  if (currentPrice <= 0) return null;
+
+  const reasons: string[] = [];
+
+  // Staleness sets the baseline markdown when there's nothing better to go on
+  let markdown = daysSinceLastSale >= 180 ? 0.15 : daysSinceLastSale >= 90 ? 0.1 : 0.05;
+  reasons.push(`No sale in ${daysSinceLastSale} days`);
+
+  // Market distribution
+  let marketPosition: MarketPosition | null = null;
+  let target = currentPrice * (1 - markdown);
+  if (market && market.avgPrice > 0) {
+    const z = market.stdDev > 0 ? (currentPrice - market.avgPrice) / market.stdDev : 0;
+    const percentile = Math.round(normalCdf(z) * 100);
+    marketPosition = {...market, percentile};
+    reasons.push(
+      `Listed at ${money(currentPrice)}, ${percentile}th percentile of ${market.totalListings} ` +
+      `car-part.com listings (avg ${money(market.avgPrice)}, ${money(market.minPrice)}-${money(market.maxPrice)})`
+    );
+
+    // Aim at the market average, or where past sales closed against it
+    let anchor = market.avgPrice;
+    if (pastSaleToMarketRatio) {
+      anchor = market.avgPrice * pastSaleToMarketRatio;
+      reasons.push(`Past sales closed at ~${Math.round(pastSaleToMarketRatio * 100)}% of the market average`);
+    }
+    // Very stale items go a little under the anchor to get moving
+    if (daysSinceLastSale >= 180 && market.stdDev > 0) {
+      anchor -= 0.25 * market.stdDev;
+    }
+    target = Math.min(target, anchor);
+  } else {
+    reasons.push(`No market data - using a ${Math.round(markdown * 100)}% staleness markdown`);
+  }
+
+  // View-to-sale conversion
+  if (engagement) {
+    const {views30Day, watchers, salesLast30Days} = engagement;
+    if (views30Day >= HIGH_VIEWS && salesLast30Days === 0) {
+      target *= 0.95;
+      reasons.push(`${views30Day} views in 30 days with no sales - buyers are looking but passing on price`);
+    } else if (views30Day < LOW_VIEWS) {
+      // Few people see it, so a big cut won't help much - keep the change small
+      markdown = Math.min(markdown, 0.05);
+      target = Math.max(target, currentPrice * (1 - markdown));
+      reasons.push(`Only ${views30Day} views in 30 days - visibility problem; check title/photos before cutting deeper`);
+    }
+    if (watchers > 0) {
+      reasons.push(`${watchers} watcher${watchers === 1 ? "" : "s"} - consider sending an offer`);
+    }
+  }
+
+  // Margin floor
+  let marginFloor: MarginFloor | null = null;
+  if (costs && costs.purchaseCost + costs.shipCost > 0) {
+    const floorPrice = (costs.purchaseCost + costs.shipCost) * (1 + MIN_MARGIN) / (1 - EBAY_FEE_RATE);
+    marginFloor = {
+      avgPurchaseCost: Math.round(costs.purchaseCost * 100) / 100,
+      avgShipCost: Math.round(costs.shipCost * 100) / 100,
+      floorPrice: Math.round(floorPrice * 100) / 100,
+    };
+    if (target < floorPrice) {
+      target = floorPrice;
+      reasons.push(
+        `Held at the margin floor of ${money(floorPrice)} ` +
+        `(cost ${money(costs.purchaseCost)} + ship ${money(costs.shipCost)}, after fees)`
+      );
+    }
+  }
+
+  // Markdowns only - stale items aren't repriced upward
+  let suggestedPrice = toPricePoint(Math.min(target, currentPrice));
+  if (marginFloor && suggestedPrice < marginFloor.floorPrice) {
+    // Rounding to a price point can dip under the floor - round up instead
+    suggestedPrice = Math.ceil(marginFloor.floorPrice + 0.01) - 0.01;
+  }
+  const changePercent = Math.round(((suggestedPrice - currentPrice) / currentPrice) * 1000) / 10;
+  if (changePercent > -MIN_CHANGE_PERCENT) return null;
+
+  return {
+    currentPrice,
+    suggestedPrice,
+    changePercent,
+    marketPosition,
+    engagement,
+    marginFloor,
+    pastSaleToMarketRatio,
+    reasons,
+  };
+}
+
+/**
+ * Gather the inputs for one item from its aggregates and latest subcollection entries
+ * Costs come from the cost aggregates on itemStats - the sales subcollection is
+ * only sampled for its most recent sales
+ */
+async function loadRepricingInput(
+  itemRef: FirebaseFirestore.DocumentReference,
+  data: FirebaseFirestore.DocumentData
+): Promise<RepricingInput | null> {
+  const [metricsSnapshot, historySnapshot, recentSalesSnapshot] = await Promise.all([
+    itemRef.collection("ebayMetrics").orderBy("recordedAt", "desc").limit(1).get(),
+    itemRef.collection("priceHistory").orderBy("checkedAt", "desc").limit(10).get(),
+    itemRef.collection("sales").orderBy("saleDate", "desc").limit(RECENT_SALES_SAMPLED).get(),
+  ]);
+
+  // Without a live listing price there's nothing to reprice
+  const metrics = metricsSnapshot.docs[0]?.data();
+  if (!metrics?.listingPrice) return null;
+
+  // eBay imports also write priceHistory entries - only car-part checks describe the market
+  const marketEntry = historySnapshot.docs
+    .map((doc) => doc.data())
+    .find((entry) => entry.source !== "ebay" && entry.avgPrice > 0);
+
+  let ratioTotal = 0;
+  let ratioSales = 0;
+  for (const saleDoc of recentSalesSnapshot.docs) {
+    const sale = saleDoc.data();
+    if (sale.marketPriceAtSale?.avgPrice > 0 && sale.salePrice > 0) {
+      ratioTotal += sale.salePrice / sale.marketPriceAtSale.avgPrice;
+      ratioSales++;
+    }
+  }
+
+  // Maintained by itemStats.ts (rebuilt nightly for items that predate them)
+  const costedSales: number = data.costedSales || 0;
+
+  const views30Day = metrics.views30Day || 0;
+  const salesLast30Days = data.salesLast30Days || 0;
+
+  return {
+    currentPrice: metrics.listingPrice,
+    daysSinceLastSale: data.daysSinceLastSale || 0,
+    market: marketEntry ? {
+      avgPrice: marketEntry.avgPrice,
+      minPrice: marketEntry.minPrice || 0,
+      maxPrice: marketEntry.maxPrice || 0,
+      stdDev: marketEntry.stdDev || 0,
+      totalListings: marketEntry.totalListings || 0,
+      checkedAt: marketEntry.checkedAt || null,
+    } : null,
+    engagement: {
+      views30Day,
+      watchers: metrics.watchers || 0,
+      salesLast30Days,
+      conversionRate: views30Day > 0 ? Math.round((salesLast30Days / views30Day) * 10000) / 10000 : null,
+    },
+    costs: costedSales > 0 ? {
+      purchaseCost: (data.costedPurchaseCost || 0) / costedSales,
+      shipCost: (data.costedShipCost || 0) / costedSales,
+    } : null,
+    pastSaleToMarketRatio: ratioSales > 0 ? Math.round((ratioTotal / ratioSales) * 100) / 100 : null,
+  };
+}
+
+/**
+ * Queue a pending recommendation for every stale item that needs one
+ * Recommendation docs are keyed by item ID, so each item has at most one
+ */
+async function generateRepricingRecommendations(): Promise<{queued: number; skipped: number}> {
+  const now = admin.firestore.Timestamp.now();
+  const cooldownCutoff = now.toMillis() - DECISION_COOLDOWN_DAYS * 24 * 60 * 60 * 1000;
+
+  const [staleSnapshot, existingSnapshot] = await Promise.all([
+    db.collection("itemStats").where("isStale", "==", true).get(),
+    db.collection(REPRICING_RECOMMENDATIONS_COLLECTION).get(),
+  ]);
+
+  const existing = new Map(existingSnapshot.docs.map((doc) => [doc.id, doc.data()]));
+
+  let queued = 0;
+  let skipped = 0;
+
+  for (const doc of staleSnapshot.docs) {
+    const previous = existing.get(doc.id);
+    if (previous && previous.status !== "pending" &&
+        (previous.decidedAt?.toMillis() || 0) > cooldownCutoff) {
+      skipped++;
+      continue;
+    }
+
+    const data = doc.data();
+    const input = await loadRepricingInput(doc.ref, data);
+    const recommendation = input ? buildRepricingRecommendation(input) : null;
+
+    const recommendationRef = db.collection(REPRICING_RECOMMENDATIONS_COLLECTION).doc(doc.id);
+    if (!recommendation) {
+      // A pending suggestion that no longer applies is withdrawn
+      if (previous?.status === "pending") {
+        await recommendationRef.delete();
+      }
+      skipped++;
+      continue;
+    }
+
+    await recommendationRef.set({
+      itemId: doc.id,
+      itemName: data.itemName,
+      status: "pending",
+      daysSinceLastSale: data.daysSinceLastSale || 0,
+      ...recommendation,
+      createdAt: previous?.status === "pending" ? previous.createdAt : now,
+      updatedAt: now,
+    });
+    queued++;
+  }
+
+  return {queued, skipped};
+}
+
+/**
+ * Scheduled Function: Refresh the repricing queue
+ * Runs every Sunday at 6 AM (after the weekly price check)
+ */
+export const weeklyRepricingRecommendations = onSchedule(
+  {
+    schedule: "0 6 * * 0",
+    timeZone: "America/Chicago",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    logger.info("Starting repricing recommendations");
+    const result = await generateRepricingRecommendations();
+    logger.info(`Repricing recommendations completed: ${result.queued} queued, ${result.skipped} skipped`);
+  }
+);
+
+/**
+ * HTTP Callable: Refresh the repricing queue on demand
+ */
+export const refreshRepricingRecommendations = onCall(
+  {cors: true, timeoutSeconds: 300},
+  async (request) => {
+    requireRole(request, "manager");
+    try {
+      const result = await generateRepricingRecommendations();
+      logger.info(`Repricing queue refreshed: ${result.queued} queued, ${result.skipped} skipped`);
+      return {success: true, ...result};
+    } catch (error) {
+      logger.error("Error refreshing repricing recommendations:", error);
+      throw new HttpsError(
+        "internal",
+        error instanceof Error ? error.message : "Failed to refresh recommendations"
+      );
+    }
+  }
+);
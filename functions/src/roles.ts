@@ -0,0 +1,141 @@
+import * as admin from "firebase-admin";
+import {onCall, HttpsError, CallableRequest} from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+
+const db = admin.firestore();
+
+// Roles are assigned at userRoles/{email} and copied into the user's custom claims
+// Only setUserRole writes them (firestore.rules keeps clients out); the first
+// admin is bootstrapped by creating their userRoles doc in the console
+export const USER_ROLES_COLLECTION = "userRoles";
+
+export type Role = "employee" | "manager" | "admin";
+
+// Each role can do everything the roles below it can
+const ROLE_RANK: Record<Role, number> = {
+  employee: 0,
+  manager: 1,
+  admin: 2,
+};
+
+export interface UserRoleDoc {
+  email: string;
+  role: Role;
+  updatedBy: string;
+  updatedAt: FirebaseFirestore.Timestamp;
+  claimsSyncedAt?: FirebaseFirestore.Timestamp;
+}
+
+// Helper to get the userRoles doc ID for an email
+export const getRoleDocId = (email: string): string => email.trim().toLowerCase();
+
+const isRole = (value: unknown): value is Role =>
+  typeof value === "string" && value in ROLE_RANK;
+
+/**
+ * Role carried in the caller's ID token
+ * Signed-in users nobody has assigned a role to are employees
+ */
+export function getCallerRole(request: Pick<CallableRequest, "auth">): Role {
+  const role = request.auth?.token?.role;
+  return isRole(role) ? role : "employee";
+}
+
+/**
+ * Reject the call unless the caller is signed in with at least this role
+ * Returns the caller's email for audit fields
+ */
+export function requireRole(request: Pick<CallableRequest, "auth">, minimum: Role): string {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to do this");
+  }
+  const role = getCallerRole(request);
+  if (ROLE_RANK[role] < ROLE_RANK[minimum]) {
+    logger.warn("Callable rejected for role", {email: request.auth.token.email, role, minimum});
+    throw new HttpsError("permission-denied", `This requires the ${minimum} role`);
+  }
+  return request.auth.token.email || "unknown";
+}
+
+// Helper to copy a role onto a user's custom claims (keeps any other claims)
+// Returns false if the user has never signed in - the claims are set on their first sign-in instead
+async function applyRoleClaims(email: string, role: Role | null): Promise<boolean> {
+  let user: admin.auth.UserRecord;
+  try {
+    user = await admin.auth().getUserByEmail(email);
+  } catch (error) {
+    if ((error as {code?: string}).code === "auth/user-not-found") return false;
+    throw error;
+  }
+
+  const claims = {...(user.customClaims || {})};
+  if (role) {
+    claims.role = role;
+  } else {
+    delete claims.role;
+  }
+  await admin.auth().setCustomUserClaims(user.uid, claims);
+  return true;
+}
+
+/**
+ * HTTP Callable: Assign a role to a user by email (admins only)
+ */
+export const setUserRole = onCall(
+  {cors: true},
+  async (request) => {
+    const updatedBy = requireRole(request, "admin");
+    const {email, role} = request.data as {email: string; role: Role};
+
+    if (!email || !email.includes("@")) {
+      throw new HttpsError("invalid-argument", "A valid email is required");
+    }
+    if (!isRole(role)) {
+      throw new HttpsError("invalid-argument", "role must be employee, manager or admin");
+    }
+    // Keep at least the caller able to manage roles
+    if (getRoleDocId(email) === getRoleDocId(updatedBy) && role !== "admin") {
+      throw new HttpsError("failed-precondition", "You can't remove your own admin role");
+    }
+
+    // Claims first, so claimsSyncedAt tells a signed-in client to refresh its token
+    const applied = await applyRoleClaims(getRoleDocId(email), role);
+    const now = admin.firestore.Timestamp.now();
+    const roleDoc: UserRoleDoc = {
+      email: getRoleDocId(email),
+      role,
+      updatedBy,
+      updatedAt: now,
+      ...(applied && {claimsSyncedAt: now}),
+    };
+    await db.collection(USER_ROLES_COLLECTION).doc(getRoleDocId(email)).set(roleDoc);
+
+    logger.info("Role assigned", {email: roleDoc.email, role, updatedBy, applied});
+    return {success: true};
+  }
+);
+
+/**
+ * HTTP Callable: Bring the caller's claims in line with their userRoles doc
+ * Covers roles assigned before the user ever signed in (and the console-created first admin)
+ */
+export const refreshRoleClaims = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth?.token?.email) {
+      throw new HttpsError("unauthenticated", "Sign in to do this");
+    }
+
+    const email = getRoleDocId(request.auth.token.email);
+    const doc = await db.collection(USER_ROLES_COLLECTION).doc(email).get();
+    const stored = doc.data()?.role;
+    const role = isRole(stored) ? stored : null;
+
+    if ((role || "employee") !== getCallerRole(request)) {
+      await applyRoleClaims(email, role);
+      if (doc.exists) await doc.ref.update({claimsSyncedAt: admin.firestore.Timestamp.now()});
+      logger.info("Role claims refreshed", {email, role});
+    }
+    return {role: role || "employee"};
+  }
+);
@@ -0,0 +1,438 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {requireRole} from "./roles";
+import {isTrashed, withoutTrashed} from "./trash";
+
+const db = admin.firestore();
+
+const SEARCH_INDEX_COLLECTION = "searchIndex";
+
+// Prefixes are indexed so partial input ("1234", "jsm") still finds a match
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_LENGTH = 20;
+
+// Order and tracking numbers are also looked up by their last digits
+const SUFFIX_FIELDS = new Set(["orderNumber", "tracking", "returnTracking"]);
+const MIN_SUFFIX_LENGTH = 4;
+
+// Long free text (notes) only indexes its first words
+const MAX_TOKENS_PER_FIELD = 200;
+
+// Upper bound on index docs read per search before ranking
+const MAX_CANDIDATES = 1000;
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+type SearchCollection = "orders" | "returns";
+
+// Searchable fields and their ranking weight (higher = more specific match)
+// The weight-1 fields are the rest of what the order list used to filter on
+const FIELD_WEIGHTS: Record<string, number> = {
+  orderNumber: 10,
+  tracking: 8,
+  returnTracking: 8,
+  buyerEmail: 6,
+  buyerUsername: 6,
+  shipName: 5,
+  supplier: 3,
+  item: 2,
+  supplierContact: 1,
+  employee: 1,
+  carrier: 1,
+  shipAddress: 1,
+  shipAddress2: 1,
+  shipCity: 1,
+  shipState: 1,
+  shipZip: 1,
+  buyPrice: 1,
+  shipPrice: 1,
+  earnings: 1,
+  notes: 1,
+};
+
+interface SearchRequest {
+  query: string;
+  pageSize?: number;
+  offset?: number;
+}
+
+interface SearchHit {
+  id: string;
+  collection: SearchCollection;
+  score: number;
+  matchedFields: string[];
+  data: Record<string, unknown>;
+}
+
+interface SearchResponse {
+  results: SearchHit[];
+  total: number;
+  nextOffset: number | null;
+  truncated: boolean;
+}
+
+// Helper to split a value into lowercase alphanumeric tokens
+const tokenize = (value: unknown): string[] => {
+  if (value === undefined || value === null) return [];
+  const text = String(value).toLowerCase();
+  const tokens = text.split(/[^a-z0-9]+/).filter((t) => t.length > 0);
+
+  // Also keep the compacted value so "12-34567-89012" matches "1234567"
+  const compact = text.replace(/[^a-z0-9]/g, "");
+  if (compact.length > 0 && tokens.length > 1) {
+    tokens.push(compact);
+  }
+
+  return tokens;
+};
+
+// Helper to expand a token into its indexable prefixes
+const prefixesOf = (token: string): string[] => {
+  if (token.length < MIN_PREFIX_LENGTH) return [token];
+  const max = Math.min(token.length, MAX_PREFIX_LENGTH);
+  const prefixes: string[] = [];
+  for (let i = MIN_PREFIX_LENGTH; i <= max; i++) {
+    prefixes.push(token.substring(0, i));
+  }
+  return prefixes;
+};
+
+// Helper to list the indexable suffixes of a token ("1z999aa10123456784" -> "6784", "56784", ...)
+const suffixesOf = (token: string): string[] => {
+  const suffixes: string[] = [];
+  const max = Math.min(token.length - 1, MAX_PREFIX_LENGTH);
+  for (let length = MIN_SUFFIX_LENGTH; length <= max; length++) {
+    suffixes.push(token.substring(token.length - length));
+  }
+  return suffixes;
+};
+
+const indexDocId = (collectionName: SearchCollection, docId: string): string =>
+  `${collectionName}_${docId}`;
+
+/**
+ * Build the search index entry for an order or return document
+ */
+function buildIndexEntry(
+  collectionName: SearchCollection,
+  docId: string,
+  data: FirebaseFirestore.DocumentData
+) {
+  const fieldTokens: Record<string, string[]> = {};
+  const allTokens = new Set<string>();
+
+  for (const field of Object.keys(FIELD_WEIGHTS)) {
+    const tokens = Array.from(new Set(tokenize(data[field]))).slice(0, MAX_TOKENS_PER_FIELD);
+    if (tokens.length === 0) continue;
+
+    fieldTokens[field] = tokens;
+    for (const token of tokens) {
+      for (const prefix of prefixesOf(token)) {
+        allTokens.add(prefix);
+      }
+      if (SUFFIX_FIELDS.has(field)) {
+        suffixesOf(token).forEach((suffix) => allTokens.add(suffix));
+      }
+    }
+  }
+
+  return {
+    collection: collectionName,
+    docId,
+    tokens: Array.from(allTokens),
+    fieldTokens,
+    paidDate: data.paidDate || null,
+    status: data.status || null,
+    updatedAt: admin.firestore.Timestamp.now(),
+  };
+}
+
+async function writeIndexEntry(
+  collectionName: SearchCollection,
+  docId: string,
+  data: FirebaseFirestore.DocumentData | undefined
+): Promise<void> {
+  const ref = db.collection(SEARCH_INDEX_COLLECTION)
+    .doc(indexDocId(collectionName, docId));
+
+  if (!data) {
+    await ref.delete();
+    return;
+  }
+
+  await ref.set(buildIndexEntry(collectionName, docId, data));
+}
+
+// Skip re-indexing when none of the searchable fields changed
+const searchFieldsChanged = (
+  before: FirebaseFirestore.DocumentData | undefined,
+  after: FirebaseFirestore.DocumentData | undefined
+): boolean => {
+  if (!before || !after) return true;
+  if (
+    before.paidDate !== after.paidDate ||
+    before.status !== after.status ||
+    before.deletedAt !== after.deletedAt
+  ) {
+    return true;
+  }
+  return Object.keys(FIELD_WEIGHTS).some((field) => before[field] !== after[field]);
+};
+
+/**
+ * Firestore Trigger: Keep the search index in sync with orders
+ */
+export const updateSearchIndexOnOrder = onDocumentWritten(
+  "orders/{orderId}",
+  async (event) => {
+    const before = event.data?.before?.data();
+    const after = event.data?.after?.data();
+    if (!searchFieldsChanged(before, after)) return;
+
+    try {
+      // Trashed orders drop out of search until restored
+      await writeIndexEntry("orders", event.params.orderId, withoutTrashed(after));
+    } catch (error) {
+      logger.error(`Error indexing order ${event.params.orderId}:`, error);
+    }
+  }
+);
+
+/**
+ * Firestore Trigger: Keep the search index in sync with returns
+ */
+export const updateSearchIndexOnReturn = onDocumentWritten(
+  "returns/{returnId}",
+  async (event) => {
+    const before = event.data?.before?.data();
+    const after = event.data?.after?.data();
+    if (!searchFieldsChanged(before, after)) return;
+
+    try {
+      await writeIndexEntry("returns", event.params.returnId, withoutTrashed(after));
+    } catch (error) {
+      logger.error(`Error indexing return ${event.params.returnId}:`, error);
+    }
+  }
+);
+
+/**
+ * Score an index entry against the query tokens
+ * Every query token must match (exact, prefix, or the trailing digits of an
+ * order/tracking number) at least one field
+ */
+function scoreEntry(
+  fieldTokens: Record<string, string[]>,
+  queryTokens: string[]
+): {score: number; matchedFields: string[]} | null {
+  let score = 0;
+  const matchedFields = new Set<string>();
+
+  for (const queryToken of queryTokens) {
+    let best = 0;
+    let bestField: string | null = null;
+
+    for (const [field, tokens] of Object.entries(fieldTokens)) {
+      const weight = FIELD_WEIGHTS[field] || 1;
+      for (const token of tokens) {
+        let points = 0;
+        if (token === queryToken) {
+          points = weight;
+        } else if (token.startsWith(queryToken)) {
+          points = weight * 0.5;
+        } else if (
+          SUFFIX_FIELDS.has(field) &&
+          queryToken.length >= MIN_SUFFIX_LENGTH &&
+          token.endsWith(queryToken)
+        ) {
+          points = weight * 0.5;
+        }
+        if (points > best) {
+          best = points;
+          bestField = field;
+        }
+      }
+    }
+
+    if (!bestField) return null;
+    score += best;
+    matchedFields.add(bestField);
+  }
+
+  return {score, matchedFields: Array.from(matchedFields)};
+}
+
+/**
+ * HTTP Callable: Search orders and returns across all history
+ * Uses the token index for candidate lookup, then ranks and paginates
+ */
+export const searchOrdersAndReturns = onCall<SearchRequest>(
+  {
+    cors: true,
+    maxInstances: 10,
+    timeoutSeconds: 30,
+    memory: "512MiB",
+  },
+  async (request): Promise<SearchResponse> => {
+    requireRole(request, "employee");
+    const rawQuery = request.data.query?.trim();
+
+    if (!rawQuery) {
+      throw new HttpsError("invalid-argument", "query is required");
+    }
+
+    const queryTokens = Array.from(new Set(
+      rawQuery.toLowerCase().split(/[^a-z0-9]+/).filter((t) => t.length > 0)
+    ));
+
+    if (queryTokens.length === 0) {
+      return {results: [], total: 0, nextOffset: null, truncated: false};
+    }
+
+    const pageSize = Math.min(
+      Math.max(1, request.data.pageSize || DEFAULT_PAGE_SIZE),
+      MAX_PAGE_SIZE
+    );
+    const offset = Math.max(0, request.data.offset || 0);
+
+    // Look up candidates by the longest (most selective) token
+    const lookupToken = queryTokens
+      .reduce((a, b) => (b.length > a.length ? b : a))
+      .substring(0, MAX_PREFIX_LENGTH);
+
+    logger.info("Searching orders and returns", {
+      query: rawQuery,
+      lookupToken,
+      offset,
+      pageSize,
+    });
+
+    try {
+      const candidates = await db.collection(SEARCH_INDEX_COLLECTION)
+        .where("tokens", "array-contains", lookupToken)
+        .limit(MAX_CANDIDATES)
+        .get();
+
+      const ranked: Array<{
+        collection: SearchCollection;
+        docId: string;
+        paidDate: string;
+        score: number;
+        matchedFields: string[];
+      }> = [];
+
+      candidates.forEach((doc) => {
+        const entry = doc.data();
+        const match = scoreEntry(entry.fieldTokens || {}, queryTokens);
+        if (!match) return;
+
+        ranked.push({
+          collection: entry.collection,
+          docId: entry.docId,
+          paidDate: entry.paidDate || "",
+          score: match.score,
+          matchedFields: match.matchedFields,
+        });
+      });
+
+      // Highest score first, then most recent sale
+      ranked.sort((a, b) => {
+        if (b.score !== a.score) return b.score - a.score;
+        return new Date(b.paidDate || 0).getTime() - new Date(a.paidDate || 0).getTime();
+      });
+
+      const page = ranked.slice(offset, offset + pageSize);
+      const refs = page.map((hit) => db.collection(hit.collection).doc(hit.docId));
+      const snapshots = refs.length > 0 ? await db.getAll(...refs) : [];
+
+      const results: SearchHit[] = [];
+      snapshots.forEach((snapshot, i) => {
+        // Index can briefly lag a delete - skip anything that's gone
+        if (!snapshot.exists) return;
+        results.push({
+          id: snapshot.id,
+          collection: page[i].collection,
+          score: page[i].score,
+          matchedFields: page[i].matchedFields,
+          data: snapshot.data() || {},
+        });
+      });
+
+      const nextOffset = offset + pageSize < ranked.length ? offset + pageSize : null;
+
+      logger.info("Search completed", {
+        candidates: candidates.size,
+        matches: ranked.length,
+        returned: results.length,
+      });
+
+      return {
+        results,
+        total: ranked.length,
+        nextOffset,
+        truncated: candidates.size >= MAX_CANDIDATES,
+      };
+    } catch (error) {
+      logger.error("Error searching orders and returns:", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError(
+        "internal",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  }
+);
+
+/**
+ * HTTP Callable: Rebuild the search index from all orders and returns
+ * Run once after deploy so search covers history written before the triggers
+ * (and again whenever FIELD_WEIGHTS or the suffix fields change)
+ */
+export const rebuildSearchIndex = onCall(
+  {cors: true, timeoutSeconds: 540, memory: "1GiB"},
+  async (request) => {
+    requireRole(request, "admin");
+    logger.info("Starting search index rebuild");
+
+    let batch = db.batch();
+    let batchCount = 0;
+    const indexed: Record<SearchCollection, number> = {orders: 0, returns: 0};
+
+    for (const collectionName of ["orders", "returns"] as SearchCollection[]) {
+      const snapshot = await db.collection(collectionName).get();
+
+      for (const doc of snapshot.docs) {
+        if (isTrashed(doc.data())) continue;
+        const ref = db.collection(SEARCH_INDEX_COLLECTION)
+          .doc(indexDocId(collectionName, doc.id));
+        batch.set(ref, buildIndexEntry(collectionName, doc.id, doc.data()));
+        batchCount++;
+        indexed[collectionName]++;
+
+        // Commit batch if approaching limit
+        if (batchCount >= 450) {
+          await batch.commit();
+          logger.info(`Committed batch: ${indexed.orders} orders, ${indexed.returns} returns`);
+          batch = db.batch();
+          batchCount = 0;
+        }
+      }
+    }
+
+    // Commit remaining
+    if (batchCount > 0) {
+      await batch.commit();
+    }
+
+    logger.info(`Search index rebuild completed: ${indexed.orders} orders, ${indexed.returns} returns`);
+    return {
+      success: true,
+      ordersIndexed: indexed.orders,
+      returnsIndexed: indexed.returns,
+    };
+  }
+);
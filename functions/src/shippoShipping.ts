@@ -1,6 +1,12 @@
+import * as admin from "firebase-admin";
 import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {requireRole} from "./roles";
+import {normalizeOrderStatus} from "./orderStatus";
 import {defineSecret} from "firebase-functions/params";
 import * as logger from "firebase-functions/logger";
+import {PDFDocument} from "pdf-lib";
+
+const db = admin.firestore();
 
 // Shippo API configuration - key stored in Firebase Secrets
 const shippoApiKey = defineSecret("SHIPPO_API_KEY");
@@ -51,6 +57,25 @@ interface LabelResult {
   carrier: string;
 }
 
+interface MergeLabelsRequest {
+  labelUrls: string[];
+}
+
+interface MergeLabelsResult {
+  pdfBase64: string;
+  pageCount: number;
+  failedUrls: string[];
+}
+
+// Keeps the merged PDF well under the callable response size limit
+const MAX_LABELS_PER_MERGE = 100;
+
+// Hosts Shippo serves label_url from - mergeShippingLabels fetches nothing else
+const SHIPPO_LABEL_HOSTS = [/^deliver\.goshippo\.com$/, /^shippo-delivery[a-z0-9-]*\.s3\.amazonaws\.com$/];
+
+// Label redirects followed before giving up (each hop is checked against SHIPPO_LABEL_HOSTS)
+const MAX_LABEL_REDIRECTS = 3;
+
 interface GetLabelRequest {
   transactionId: string;
 }
@@ -67,6 +92,8 @@ interface VoidLabelRequest {
 interface VoidLabelResult {
   refundId: string;
   status: "QUEUED" | "PENDING" | "SUCCESS" | "ERROR";
+  // Order moved back to "not shipped" because its label was voided
+  resetOrderId: string | null;
 }
 
 interface PickupRequest {
@@ -94,6 +121,7 @@ export const getShippingRates = onCall<RatesRequest>(
     secrets: [shippoApiKey],
   },
   async (request): Promise<ShippingRate[]> => {
+    requireRole(request, "employee");
     const {fromAddress, toAddress, parcel, returnAddress} = request.data;
 
     // Validate input
@@ -220,6 +248,7 @@ export const purchaseShippingLabel = onCall<LabelRequest>(
     secrets: [shippoApiKey],
   },
   async (request): Promise<LabelResult> => {
+    requireRole(request, "employee");
     const {rateId} = request.data;
 
     if (!rateId) {
@@ -303,6 +332,7 @@ export const getShipmentLabel = onCall<GetLabelRequest>(
     secrets: [shippoApiKey],
   },
   async (request): Promise<GetLabelResult> => {
+    requireRole(request, "employee");
     const {transactionId} = request.data;
 
     if (!transactionId) {
@@ -363,10 +393,45 @@ export const getShipmentLabel = onCall<GetLabelRequest>(
   }
 );
 
+/**
+ * Move a shipped order back to "not shipped" once its label is voided
+ * Only when the order still carries the voided label's tracking number -
+ * a newer label or a later status is left alone. Returns the order ID if reset.
+ */
+async function resetOrderForVoidedLabel(transactionId: string, voidedBy: string): Promise<string | null> {
+  const shipments = await db.collection("shipments")
+    .where("transactionId", "==", transactionId)
+    .limit(1)
+    .get();
+  const shipment = shipments.docs[0]?.data();
+  if (!shipment?.orderId || shipment.type === "return") return null;
+
+  const orderRef = db.collection("orders").doc(shipment.orderId);
+  const orderDoc = await orderRef.get();
+  const order = orderDoc.data();
+  if (
+    !order ||
+    normalizeOrderStatus(order.status) !== "shipped" ||
+    order.tracking !== shipment.trackingNumber
+  ) {
+    return null;
+  }
+
+  await orderRef.update({
+    status: "not shipped",
+    tracking: "",
+    carrier: "",
+    updatedAt: new Date().toISOString(),
+    updatedBy: voidedBy,
+  });
+  return orderRef.id;
+}
+
 /**
  * Void/refund an unused shipping label
  * Takes a transaction ID and requests a refund from Shippo
  * Refunds typically process within 14 business days
+ * The order the label was bought for goes back to "not shipped"
  */
 export const voidShippingLabel = onCall<VoidLabelRequest>(
   {
@@ -377,6 +442,7 @@ export const voidShippingLabel = onCall<VoidLabelRequest>(
     secrets: [shippoApiKey],
   },
   async (request): Promise<VoidLabelResult> => {
+    const voidedBy = requireRole(request, "manager");
     const {transactionId} = request.data;
 
     if (!transactionId) {
@@ -411,14 +477,20 @@ export const voidShippingLabel = onCall<VoidLabelRequest>(
 
       const data = await response.json();
 
+      const resetOrderId = data.status === "ERROR" ?
+        null :
+        await resetOrderForVoidedLabel(transactionId, voidedBy);
+
       logger.info("Refund request submitted", {
         refundId: data.object_id,
         status: data.status,
+        resetOrderId,
       });
 
       return {
         refundId: data.object_id,
         status: data.status,
+        resetOrderId,
       };
     } catch (error) {
       logger.error("Error requesting refund:", error);
@@ -446,6 +518,7 @@ export const scheduleUSPSPickup = onCall<PickupRequest>(
     secrets: [shippoApiKey],
   },
   async (request): Promise<PickupResult> => {
+    requireRole(request, "employee");
     const {transactionId, pickupAddress, buildingLocationType, instructions} = request.data;
 
     if (!transactionId || !pickupAddress || !buildingLocationType) {
@@ -567,3 +640,121 @@ export const scheduleUSPSPickup = onCall<PickupRequest>(
     }
   }
 );
+
+// Helper to check a label URL points at Shippo's label storage over HTTPS
+const isShippoLabelUrl = (value: unknown): value is string => {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" && SHIPPO_LABEL_HOSTS.some((host) => host.test(url.hostname));
+  } catch {
+    return false;
+  }
+};
+
+// Helper to download a label, following redirects only while they stay on Shippo's hosts
+async function fetchShippoLabel(url: string): Promise<ArrayBuffer> {
+  let current = url;
+  for (let hop = 0; hop <= MAX_LABEL_REDIRECTS; hop++) {
+    const response = await fetch(current, {redirect: "manual"});
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get("location");
+      const next = location ? new URL(location, current).toString() : "";
+      if (!isShippoLabelUrl(next)) {
+        throw new Error(`Label redirected off Shippo: ${next}`);
+      }
+      current = next;
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`Label download error: ${response.status}`);
+    }
+    return response.arrayBuffer();
+  }
+  throw new Error("Too many label redirects");
+}
+
+/**
+ * Merge purchased label PDFs into a single printable document
+ * Used by batch label purchasing so all labels print in one job
+ */
+export const mergeShippingLabels = onCall<MergeLabelsRequest>(
+  {
+    cors: true,
+    maxInstances: 10,
+    timeoutSeconds: 120,
+    memory: "512MiB",
+  },
+  async (request): Promise<MergeLabelsResult> => {
+    requireRole(request, "employee");
+    const {labelUrls} = request.data;
+
+    if (!Array.isArray(labelUrls) || labelUrls.length === 0) {
+      throw new HttpsError(
+        "invalid-argument",
+        "labelUrls is required"
+      );
+    }
+
+    if (labelUrls.length > MAX_LABELS_PER_MERGE) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Cannot merge more than ${MAX_LABELS_PER_MERGE} labels at once`
+      );
+    }
+
+    logger.info("Merging shipping labels", {count: labelUrls.length});
+
+    try {
+      const merged = await PDFDocument.create();
+      const failedUrls: string[] = [];
+
+      // Sequential so pages stay in the same order as the request
+      for (const url of labelUrls) {
+        if (!isShippoLabelUrl(url)) {
+          logger.warn("Skipping label that isn't a Shippo label URL", {url});
+          failedUrls.push(String(url));
+          continue;
+        }
+
+        try {
+          const source = await PDFDocument.load(await fetchShippoLabel(url));
+          const pages = await merged.copyPages(source, source.getPageIndices());
+          pages.forEach((page) => merged.addPage(page));
+        } catch (error) {
+          logger.warn("Skipping label that could not be merged", {url, error});
+          failedUrls.push(url);
+        }
+      }
+
+      if (merged.getPageCount() === 0) {
+        throw new HttpsError(
+          "not-found",
+          "None of the labels could be downloaded"
+        );
+      }
+
+      const bytes = await merged.save();
+
+      logger.info("Labels merged successfully", {
+        pageCount: merged.getPageCount(),
+        failed: failedUrls.length,
+      });
+
+      return {
+        pdfBase64: Buffer.from(bytes).toString("base64"),
+        pageCount: merged.getPageCount(),
+        failedUrls,
+      };
+    } catch (error) {
+      logger.error("Error merging labels:", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError(
+        "internal",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  }
+);
@@ -1,6 +1,13 @@
+import * as admin from "firebase-admin";
 import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {requireRole} from "./roles";
 import {defineSecret} from "firebase-functions/params";
 import * as logger from "firebase-functions/logger";
+import {
+  parseShippoCheckpoint,
+  setTrackingEvents,
+  TrackingCheckpoint,
+} from "./trackingEvents";
 
 // Shippo API configuration - key stored in Firebase Secrets
 const shippoApiKey = defineSecret("SHIPPO_API_KEY");
@@ -20,7 +27,7 @@ const CARRIER_MAP: Record<string, string> = {
   "shippo": "shippo", // for testing
 };
 
-function normalizeCarrier(carrier: string): string {
+export function normalizeCarrier(carrier: string): string {
   const normalized = carrier.toLowerCase().trim();
   return CARRIER_MAP[normalized] || normalized;
 }
@@ -28,16 +35,95 @@ function normalizeCarrier(carrier: string): string {
 interface TrackingRequest {
   carrier: string;
   trackingNumber: string;
+  // When set, the checkpoint history is saved under this order/return
+  target?: {
+    collection: "orders" | "returns";
+    docId: string;
+    // Supplier -> us shipment on an order's purchase order
+    field?: "inboundTracking";
+  };
 }
 
-interface TrackingResult {
+export interface TrackingResult {
   status: string;
+  substatus?: string | null;
   statusDetails: string;
   eta: string | null;
   location?: {
     city: string;
     state: string;
   };
+  history?: TrackingCheckpoint[];
+}
+
+/**
+ * Work out which shipment on an order/return a tracking number belongs to
+ * Returns null when the doc doesn't carry that number, so callers can't write
+ * history onto a doc (or shipment) it doesn't belong to
+ */
+function matchTrackingField(
+  data: FirebaseFirestore.DocumentData,
+  collectionName: "orders" | "returns",
+  field: "inboundTracking" | undefined,
+  trackingNumber: string
+): string | null {
+  if (field === "inboundTracking") {
+    return String(data.purchaseOrder?.inboundTracking || "").trim() === trackingNumber ?
+      "inboundTracking" :
+      null;
+  }
+
+  // Return tickets keep the original outbound tracking alongside their own
+  const candidates = collectionName === "returns" ? ["returnTracking", "tracking"] : ["tracking"];
+  return candidates.find((candidate) => String(data[candidate] || "").trim() === trackingNumber) || null;
+}
+
+/**
+ * Fetch tracking status for one shipment from Shippo
+ * Shared by the callable and the scheduled tracking refresh
+ */
+export async function fetchShippoTracking(
+  apiKey: string,
+  carrier: string,
+  trackingNumber: string
+): Promise<TrackingResult> {
+  const url = `${BASE_URL}/${normalizeCarrier(carrier)}/${trackingNumber}`;
+
+  const response = await fetch(url, {
+    headers: {
+      "Authorization": `ShippoToken ${apiKey}`,
+    },
+  });
+
+  if (!response.ok) {
+    logger.error("Shippo API error", {status: response.status});
+    throw new HttpsError(
+      "unavailable",
+      `Shippo API error: ${response.status}`
+    );
+  }
+
+  const data = await response.json();
+
+  logger.info("Shippo tracking result", {
+    status: data.tracking_status?.status,
+  });
+
+  const history: TrackingCheckpoint[] = Array.isArray(data.tracking_history) ?
+    data.tracking_history.map(parseShippoCheckpoint) :
+    [];
+
+  return {
+    status: data.tracking_status?.status || "UNKNOWN",
+    substatus: data.tracking_status?.substatus?.text || null,
+    statusDetails: data.tracking_status?.status_details || "",
+    eta: data.eta || null,
+    location: data.tracking_status?.location ? {
+      city: data.tracking_status.location.city || "",
+      state: data.tracking_status.location.state || "",
+    } : undefined,
+    history,
+  };
 }
 
 /**
@@ -53,6 +139,7 @@ export const getShippoTracking = onCall<TrackingRequest>(
     secrets: [shippoApiKey],
   },
   async (request): Promise<TrackingResult> => {
+    requireRole(request, "employee");
     // Trim whitespace from inputs
     const carrier = request.data.carrier?.trim();
     const trackingNumber = request.data.trackingNumber?.trim();
@@ -65,44 +152,50 @@ export const getShippoTracking = onCall<TrackingRequest>(
       );
     }
 
-    const normalizedCarrier = normalizeCarrier(carrier);
-    const url = `${BASE_URL}/${normalizedCarrier}/${trackingNumber}`;
+    const target = request.data.target;
+    if (target && !["orders", "returns"].includes(target.collection)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "target.collection must be orders or returns"
+      );
+    }
+    if (target?.field && (target.field !== "inboundTracking" || target.collection !== "orders")) {
+      throw new HttpsError(
+        "invalid-argument",
+        "target.field must be inboundTracking on an order"
+      );
+    }
 
     logger.info("Fetching Shippo tracking", {
-      carrier: normalizedCarrier,
+      carrier: normalizeCarrier(carrier),
       trackingNumber,
     });
 
     try {
-      const response = await fetch(url, {
-        headers: {
-          "Authorization": `ShippoToken ${shippoApiKey.value()}`,
-        },
-      });
-
-      if (!response.ok) {
-        logger.error("Shippo API error", {status: response.status});
-        throw new HttpsError(
-          "unavailable",
-          `Shippo API error: ${response.status}`
-        );
+      const result = await fetchShippoTracking(shippoApiKey.value(), carrier, trackingNumber);
+
+      if (target?.docId && result.history && result.history.length > 0) {
+        try {
+          const docRef = admin.firestore().collection(target.collection).doc(target.docId);
+          const snapshot = await docRef.get();
+          const trackingField = snapshot.exists ?
+            matchTrackingField(snapshot.data() || {}, target.collection, target.field, trackingNumber) :
+            null;
+
+          if (trackingField) {
+            const batch = admin.firestore().batch();
+            setTrackingEvents(batch, docRef, trackingField, trackingNumber, result.history, "card_refresh");
+            await batch.commit();
+          } else {
+            logger.warn("Not saving tracking history - number isn't on the target", {target, trackingNumber});
+          }
+        } catch (error) {
+          // History is a nice-to-have - still return the status
+          logger.warn("Failed to save tracking history", {target, error});
+        }
       }
 
-      const data = await response.json();
-
-      logger.info("Shippo tracking result", {
-        status: data.tracking_status?.status,
-      });
-
-      return {
-        status: data.tracking_status?.status || "UNKNOWN",
-        statusDetails: data.tracking_status?.status_details || "",
-        eta: data.eta || null,
-        location: data.tracking_status?.location ? {
-          city: data.tracking_status.location.city || "",
-          state: data.tracking_status.location.state || "",
-        } : undefined,
-      };
+      return result;
     } catch (error) {
       logger.error("Error fetching tracking:", error);
       if (error instanceof HttpsError) {
@@ -0,0 +1,164 @@
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import * as logger from "firebase-functions/logger";
+import {onRequest} from "firebase-functions/v2/https";
+import {defineSecret} from "firebase-functions/params";
+import {
+  ORDER_TRACKING_FIELDS,
+  RETURN_TRACKING_FIELDS,
+  TrackingFields,
+} from "./carrierTracking";
+import {
+  parseShippoCheckpoint,
+  setTrackingEvents,
+  TrackingCheckpoint,
+} from "./trackingEvents";
+import {isTrashed} from "./trash";
+
+const db = admin.firestore();
+
+// Shared token appended to the webhook URL registered in Shippo (?token=...)
+const shippoWebhookToken = defineSecret("SHIPPO_WEBHOOK_TOKEN");
+
+// Helper to compare the request token without leaking timing
+const tokenMatches = (provided: unknown, expected: string): boolean => {
+  if (typeof provided !== "string" || !expected) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Write the checkpoint history and latest status onto one matched document
+ * current is null when the payload had no tracking_status - only history is stored then
+ * Trashed documents are left alone, as in trackingRefresh
+ */
+async function applyTrackingUpdate(
+  doc: FirebaseFirestore.QueryDocumentSnapshot,
+  fields: TrackingFields,
+  trackingNumber: string,
+  eta: string | null,
+  current: TrackingCheckpoint | null,
+  history: TrackingCheckpoint[]
+): Promise<void> {
+  const data = doc.data();
+  if (isTrashed(data)) return;
+
+  const now = new Date().toISOString();
+  const batch = db.batch();
+
+  // The current status is usually the last history entry, but not always
+  const checkpoints = [...history];
+  if (current && !checkpoints.some((c) => c.id === current.id)) {
+    checkpoints.push(current);
+  }
+  setTrackingEvents(batch, doc.ref, fields.tracking, trackingNumber, checkpoints, "shippo_webhook");
+
+  if (!current) {
+    await batch.commit();
+    return;
+  }
+
+  const updates: FirebaseFirestore.DocumentData = {
+    [fields.status]: current.status,
+    [fields.statusDetails]: current.statusDetails,
+    [fields.eta]: eta,
+    [fields.lastChecked]: now,
+  };
+
+  if (current.status === "DELIVERED" && fields.inFlightStatuses.includes(data.status)) {
+    updates.status = fields.deliveredStatus;
+    updates.updatedAt = now;
+    updates.updatedBy = "shippo webhook";
+  }
+
+  batch.update(doc.ref, updates);
+  await batch.commit();
+}
+
+/**
+ * Shippo Webhook Handler
+ * Receives track_updated events and stores the checkpoint history on the
+ * matching order (outbound tracking) or return (inbound tracking)
+ *
+ * URL will be: https://us-central1-pardical-web-app.cloudfunctions.net/shippoWebhook?token=...
+ */
+export const shippoWebhook = onRequest(
+  {
+    cors: false,
+    maxInstances: 10,
+    secrets: [shippoWebhookToken],
+  },
+  async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).send("Method Not Allowed");
+      return;
+    }
+
+    if (!tokenMatches(req.query.token, shippoWebhookToken.value())) {
+      logger.warn("Rejected Shippo webhook with missing or invalid token");
+      res.status(401).json({error: "Unauthorized"});
+      return;
+    }
+
+    const event = req.body || {};
+
+    // Acknowledge other event types so Shippo doesn't retry them
+    if (event.event !== "track_updated") {
+      logger.info("Ignoring Shippo webhook event", {event: event.event});
+      res.status(200).json({success: true, ignored: true});
+      return;
+    }
+
+    const data = event.data || {};
+    const trackingNumber: string = String(data.tracking_number || "").trim();
+    if (!trackingNumber) {
+      res.status(400).json({error: "tracking_number is required"});
+      return;
+    }
+
+    try {
+      const [ordersSnapshot, returnsSnapshot] = await Promise.all([
+        db.collection("orders")
+          .where(ORDER_TRACKING_FIELDS.tracking, "==", trackingNumber)
+          .get(),
+        db.collection("returns")
+          .where(RETURN_TRACKING_FIELDS.tracking, "==", trackingNumber)
+          .get(),
+      ]);
+
+      const current = data.tracking_status?.status ?
+        parseShippoCheckpoint(data.tracking_status) :
+        null;
+      const history: TrackingCheckpoint[] = Array.isArray(data.tracking_history) ?
+        data.tracking_history.map(parseShippoCheckpoint) :
+        [];
+      const eta: string | null = data.eta || null;
+
+      for (const doc of ordersSnapshot.docs) {
+        await applyTrackingUpdate(doc, ORDER_TRACKING_FIELDS, trackingNumber, eta, current, history);
+      }
+      for (const doc of returnsSnapshot.docs) {
+        await applyTrackingUpdate(doc, RETURN_TRACKING_FIELDS, trackingNumber, eta, current, history);
+      }
+
+      const matched = ordersSnapshot.size + returnsSnapshot.size;
+      logger.info("Shippo tracking update processed", {
+        trackingNumber,
+        status: current?.status || null,
+        matchedOrders: ordersSnapshot.size,
+        matchedReturns: returnsSnapshot.size,
+        test: event.test === true,
+      });
+
+      // 200 even when unmatched - the label may belong to another system
+      res.status(200).json({success: true, matched});
+    } catch (error) {
+      logger.error("Error processing Shippo webhook:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
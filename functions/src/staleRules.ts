@@ -0,0 +1,231 @@
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+export const STALE_RULE_SETS_COLLECTION = "staleRuleSets";
+
+export type StaleSeverity = "watch" | "stale" | "dead";
+
+const SEVERITY_RANK: Record<StaleSeverity, number> = {
+  watch: 1,
+  stale: 2,
+  dead: 3,
+};
+
+// Only these tiers set isStale - "watch" items are flagged but not stale yet
+export const STALE_SEVERITIES: StaleSeverity[] = ["stale", "dead"];
+
+/**
+ * All conditions on a rule must hold for it to match
+ * Conditions that need eBay or market data don't match items without it
+ */
+export interface StaleRuleConditions {
+  minDaysSinceLastSale?: number | "itemThreshold"; // "itemThreshold" = item's staleThresholdDays
+  maxViews30Day?: number;
+  maxWatchers?: number;
+  minMarketListings?: number; // car-part.com listings - a crowded market
+  maxMarginPercent?: number; // avgProfitMargin
+}
+
+export interface StaleRule {
+  id: string;
+  name: string;
+  severity: StaleSeverity;
+  conditions: StaleRuleConditions;
+}
+
+export interface StaleRuleSet {
+  id: string;
+  name: string;
+  enabled: boolean;
+  isDefault: boolean; // used when no other set applies
+  priority: number; // higher wins when several sets apply
+  appliesTo: {
+    partTypes?: string[]; // vehicleInfo.part
+    categories?: string[]; // itemStats.category
+  };
+  rules: StaleRule[];
+  unreviewAfterDays: number; // reviewed items come back after this long without a sale
+}
+
+export interface StaleRuleMatch {
+  ruleSetId: string;
+  ruleSetName: string;
+  ruleId: string;
+  ruleName: string;
+  severity: StaleSeverity;
+}
+
+// Used when Firestore has no default set - same behavior as the old fixed threshold
+export const BUILT_IN_RULE_SET: StaleRuleSet = {
+  id: "built-in",
+  name: "Built-in",
+  enabled: true,
+  isDefault: true,
+  priority: 0,
+  appliesTo: {},
+  rules: [{
+    id: "item-threshold",
+    name: "No sale within item threshold",
+    severity: "stale",
+    conditions: {minDaysSinceLastSale: "itemThreshold"},
+  }],
+  unreviewAfterDays: 60,
+};
+
+/**
+ * Item data a rule set is evaluated against
+ * eBay and market lookups are lazy so items only pay for the reads
+ * their rules actually need
+ */
+export interface StaleRuleContext {
+  daysSinceLastSale: number;
+  itemThresholdDays: number;
+  avgProfitMargin: number | null;
+  loadEbayMetrics: () => Promise<{views30Day: number; watchers: number} | null>;
+  loadMarketListings: () => Promise<number | null>;
+}
+
+/**
+ * Load enabled rule sets, highest priority first
+ */
+export async function loadStaleRuleSets(): Promise<StaleRuleSet[]> {
+  const snapshot = await db.collection(STALE_RULE_SETS_COLLECTION)
+    .where("enabled", "==", true)
+    .get();
+
+  const ruleSets = snapshot.docs.map((doc) => ({...doc.data(), id: doc.id}) as StaleRuleSet);
+  return ruleSets.sort((a, b) => (b.priority || 0) - (a.priority || 0));
+}
+
+/**
+ * Pick the rule set for an item: the highest-priority set whose part type or
+ * category matches, then the default set, then the built-in threshold rule
+ */
+export function selectRuleSet(
+  ruleSets: StaleRuleSet[],
+  item: FirebaseFirestore.DocumentData
+): StaleRuleSet {
+  const partType = String(item.vehicleInfo?.part || "").toLowerCase();
+  const category = String(item.category || "").toLowerCase();
+
+  const matched = ruleSets.find((ruleSet) => {
+    const partTypes = (ruleSet.appliesTo?.partTypes || []).map((p) => p.toLowerCase());
+    const categories = (ruleSet.appliesTo?.categories || []).map((c) => c.toLowerCase());
+    return (partType && partTypes.includes(partType)) ||
+      (category && categories.includes(category));
+  });
+
+  return matched ||
+    ruleSets.find((ruleSet) => ruleSet.isDefault) ||
+    BUILT_IN_RULE_SET;
+}
+
+// Helper to check one rule's conditions
+async function ruleMatches(rule: StaleRule, context: StaleRuleContext): Promise<boolean> {
+  const {conditions} = rule;
+
+  if (conditions.minDaysSinceLastSale !== undefined) {
+    const minDays = conditions.minDaysSinceLastSale === "itemThreshold" ?
+      context.itemThresholdDays :
+      conditions.minDaysSinceLastSale;
+    if (context.daysSinceLastSale < minDays) return false;
+  }
+
+  if (conditions.maxMarginPercent !== undefined) {
+    if (context.avgProfitMargin === null || context.avgProfitMargin > conditions.maxMarginPercent) {
+      return false;
+    }
+  }
+
+  if (conditions.maxViews30Day !== undefined || conditions.maxWatchers !== undefined) {
+    const metrics = await context.loadEbayMetrics();
+    if (!metrics) return false;
+    if (conditions.maxViews30Day !== undefined && metrics.views30Day > conditions.maxViews30Day) {
+      return false;
+    }
+    if (conditions.maxWatchers !== undefined && metrics.watchers > conditions.maxWatchers) {
+      return false;
+    }
+  }
+
+  if (conditions.minMarketListings !== undefined) {
+    const listings = await context.loadMarketListings();
+    if (listings === null || listings < conditions.minMarketListings) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Evaluate a rule set and return the most severe matching rule
+ * (first one wins on a tie), or null if nothing matched
+ */
+export async function evaluateStaleRules(
+  ruleSet: StaleRuleSet,
+  context: StaleRuleContext
+): Promise<StaleRuleMatch | null> {
+  let best: StaleRule | null = null;
+
+  for (const rule of ruleSet.rules || []) {
+    if (best && SEVERITY_RANK[rule.severity] <= SEVERITY_RANK[best.severity]) continue;
+    if (await ruleMatches(rule, context)) {
+      best = rule;
+    }
+  }
+
+  return best ? {
+    ruleSetId: ruleSet.id,
+    ruleSetName: ruleSet.name,
+    ruleId: best.id,
+    ruleName: best.name,
+    severity: best.severity,
+  } : null;
+}
+
+/**
+ * Build the evaluation context for an itemStats doc
+ */
+export function buildStaleRuleContext(
+  doc: FirebaseFirestore.QueryDocumentSnapshot,
+  daysSinceLastSale: number
+): StaleRuleContext {
+  const data = doc.data();
+  let ebayMetrics: Promise<{views30Day: number; watchers: number} | null> | null = null;
+  let marketListings: Promise<number | null> | null = null;
+
+  return {
+    daysSinceLastSale,
+    itemThresholdDays: data.staleThresholdDays || 30,
+    avgProfitMargin: typeof data.avgProfitMargin === "number" ? data.avgProfitMargin : null,
+    loadEbayMetrics: () => {
+      if (!ebayMetrics) {
+        ebayMetrics = doc.ref.collection("ebayMetrics")
+          .orderBy("recordedAt", "desc")
+          .limit(1)
+          .get()
+          .then((snapshot) => {
+            const latest = snapshot.docs[0]?.data();
+            return latest ? {views30Day: latest.views30Day || 0, watchers: latest.watchers || 0} : null;
+          });
+      }
+      return ebayMetrics;
+    },
+    loadMarketListings: () => {
+      if (!marketListings) {
+        marketListings = doc.ref.collection("priceHistory")
+          .orderBy("checkedAt", "desc")
+          .limit(10)
+          .get()
+          .then((snapshot) => {
+            // eBay imports also write priceHistory - only car-part checks count listings
+            const entry = snapshot.docs
+              .map((entryDoc) => entryDoc.data())
+              .find((history) => history.source !== "ebay");
+            return entry ? entry.totalListings || 0 : null;
+          });
+      }
+      return marketListings;
+    },
+  };
+}
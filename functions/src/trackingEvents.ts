@@ -0,0 +1,75 @@
+import * as crypto from "crypto";
+
+// Checkpoints are stored under each order/return: {collection}/{id}/trackingEvents
+export const TRACKING_EVENTS_SUBCOLLECTION = "trackingEvents";
+
+export type TrackingEventSource = "shippo_webhook" | "scheduled_refresh" | "card_refresh";
+
+export interface TrackingCheckpoint {
+  id: string;
+  status: string;
+  substatus: string | null;
+  statusDetails: string;
+  statusDate: string | null;
+  location: {
+    city: string;
+    state: string;
+    zip: string;
+    country: string;
+  } | null;
+}
+
+/**
+ * Normalize a Shippo tracking_status / tracking_history entry
+ * The ID is Shippo's object_id, or a hash of the checkpoint when it has none,
+ * so the same checkpoint always lands on the same event doc
+ */
+export function parseShippoCheckpoint(raw: FirebaseFirestore.DocumentData): TrackingCheckpoint {
+  const id = raw.object_id || crypto.createHash("sha1")
+    .update(`${raw.status_date}|${raw.status}|${raw.status_details}`)
+    .digest("hex");
+
+  return {
+    id,
+    status: raw.status || "UNKNOWN",
+    substatus: raw.substatus?.text || raw.substatus?.code || null,
+    statusDetails: raw.status_details || "",
+    statusDate: raw.status_date || null,
+    location: raw.location ? {
+      city: raw.location.city || "",
+      state: raw.location.state || "",
+      zip: raw.location.zip || "",
+      country: raw.location.country || "",
+    } : null,
+  };
+}
+
+/**
+ * Queue writes for a shipment's checkpoints onto a batch
+ * Returns the number of writes added so callers can keep batches under the limit
+ */
+export function setTrackingEvents(
+  batch: FirebaseFirestore.WriteBatch,
+  docRef: FirebaseFirestore.DocumentReference,
+  trackingField: string,
+  trackingNumber: string,
+  checkpoints: TrackingCheckpoint[],
+  source: TrackingEventSource
+): number {
+  const receivedAt = new Date().toISOString();
+
+  // Shippo sends the full history each time - the newest 100 are plenty
+  const recent = checkpoints.slice(-100);
+  for (const checkpoint of recent) {
+    const {id, ...event} = checkpoint;
+    batch.set(docRef.collection(TRACKING_EVENTS_SUBCOLLECTION).doc(id), {
+      ...event,
+      field: trackingField,
+      // The same field can carry a new shipment after a relabel/void
+      trackingNumber,
+      source,
+      receivedAt,
+    });
+  }
+  return recent.length;
+}
@@ -0,0 +1,203 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {defineSecret} from "firebase-functions/params";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {
+  CarrierAdapter,
+  getCarrierAdapter,
+  ORDER_TRACKING_FIELDS,
+  RETURN_TRACKING_FIELDS,
+  TrackingFields,
+} from "./carrierTracking";
+import {setTrackingEvents} from "./trackingEvents";
+import {isTrashed} from "./trash";
+
+const db = admin.firestore();
+
+// Shippo API configuration - key stored in Firebase Secrets
+const shippoApiKey = defineSecret("SHIPPO_API_KEY");
+
+// Same TTL the cards use (isTrackingStale in src/services/shippo.ts)
+const TRACKING_TTL_HOURS = 2;
+
+// Keep each run well inside the timeout and Shippo's rate limit
+const MAX_LOOKUPS_PER_RUN = 300;
+
+interface RefreshSummary {
+  checked: number;
+  delivered: number;
+  failed: number;
+  skipped: number;
+}
+
+// Helper to check whether a cached tracking lookup is older than the TTL
+const isStale = (lastChecked: string | undefined, now: Date): boolean => {
+  if (!lastChecked) return true;
+  const hours = (now.getTime() - new Date(lastChecked).getTime()) / (1000 * 60 * 60);
+  return isNaN(hours) || hours > TRACKING_TTL_HOURS;
+};
+
+/**
+ * Refresh tracking for one set of documents and move delivered ones on
+ * Returns how many carrier lookups were used so the caller can cap the run
+ */
+async function refreshDocs(
+  docs: FirebaseFirestore.QueryDocumentSnapshot[],
+  fields: TrackingFields,
+  adapter: CarrierAdapter,
+  lookupBudget: number,
+  summary: RefreshSummary
+): Promise<number> {
+  const now = new Date();
+  let lookups = 0;
+  let batch = db.batch();
+  let batchCount = 0;
+
+  for (const doc of docs) {
+    const data = doc.data();
+    const trackingNumber = data[fields.tracking];
+    const carrier = data[fields.carrier];
+
+    // Nothing to refresh without a tracking number, or once it's in the trash
+    if (!trackingNumber || !carrier || isTrashed(data)) {
+      summary.skipped++;
+      continue;
+    }
+
+    const updates: FirebaseFirestore.DocumentData = {};
+
+    // Already seen as delivered (e.g. by a card) - just finish the status move
+    if (data[fields.status] === "DELIVERED") {
+      updates.status = fields.deliveredStatus;
+    } else {
+      if (!isStale(data[fields.lastChecked], now)) {
+        summary.skipped++;
+        continue;
+      }
+      if (lookups >= lookupBudget) {
+        summary.skipped++;
+        continue;
+      }
+
+      lookups++;
+      try {
+        const result = await adapter.track(carrier, trackingNumber);
+        updates[fields.status] = result.status;
+        updates[fields.statusDetails] = result.statusDetails;
+        updates[fields.eta] = result.eta || null;
+        updates[fields.lastChecked] = now.toISOString();
+        summary.checked++;
+
+        if (result.history && result.history.length > 0) {
+          batchCount += setTrackingEvents(
+            batch,
+            doc.ref,
+            fields.tracking,
+            trackingNumber,
+            result.history,
+            "scheduled_refresh"
+          );
+        }
+
+        if (result.status === "DELIVERED") {
+          updates.status = fields.deliveredStatus;
+        }
+      } catch (error) {
+        // Bad/test tracking numbers are expected - log and move on
+        logger.warn(`Tracking lookup failed for ${doc.ref.path}`, {
+          carrier,
+          trackingNumber,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        summary.failed++;
+        continue;
+      }
+    }
+
+    if (updates.status) {
+      updates.updatedAt = now.toISOString();
+      updates.updatedBy = "tracking refresh";
+      summary.delivered++;
+    }
+
+    batch.update(doc.ref, updates);
+    batchCount++;
+
+    // Commit batch if approaching limit (history can add up to 100 writes per doc)
+    if (batchCount >= 350) {
+      await batch.commit();
+      batch = db.batch();
+      batchCount = 0;
+    }
+  }
+
+  // Commit remaining
+  if (batchCount > 0) {
+    await batch.commit();
+  }
+
+  return lookups;
+}
+
+/**
+ * Refresh tracking on every in-flight order and return
+ * Exported separately from the schedule so it can run against any adapter
+ */
+export async function refreshInFlightShipments(
+  adapter: CarrierAdapter
+): Promise<RefreshSummary> {
+  const summary: RefreshSummary = {checked: 0, delivered: 0, failed: 0, skipped: 0};
+
+  const ordersSnapshot = await db.collection("orders")
+    .where("status", "in", ORDER_TRACKING_FIELDS.inFlightStatuses)
+    .get();
+
+  const used = await refreshDocs(
+    ordersSnapshot.docs,
+    ORDER_TRACKING_FIELDS,
+    adapter,
+    MAX_LOOKUPS_PER_RUN,
+    summary
+  );
+
+  // Returns on their way back to us
+  const returnsSnapshot = await db.collection("returns")
+    .where("status", "in", RETURN_TRACKING_FIELDS.inFlightStatuses)
+    .get();
+
+  await refreshDocs(
+    returnsSnapshot.docs,
+    RETURN_TRACKING_FIELDS,
+    adapter,
+    MAX_LOOKUPS_PER_RUN - used,
+    summary
+  );
+
+  return summary;
+}
+
+/**
+ * Scheduled Function: Refresh tracking for shipments nobody has opened
+ * Moves delivered orders to 'delivered' and returns to 'return delivered'
+ * Runs every 2 hours
+ */
+export const refreshTrackingStatuses = onSchedule(
+  {
+    schedule: "15 */2 * * *", // Every 2 hours, offset from the top of the hour
+    timeZone: "America/Chicago",
+    timeoutSeconds: 540,
+    memory: "512MiB",
+    secrets: [shippoApiKey],
+  },
+  async () => {
+    const adapter = getCarrierAdapter(shippoApiKey.value());
+    logger.info(`Starting tracking refresh (${adapter.name} adapter)`);
+
+    const summary = await refreshInFlightShipments(adapter);
+
+    logger.info(
+      `Tracking refresh completed: ${summary.checked} checked, ` +
+      `${summary.delivered} delivered, ${summary.failed} failed, ${summary.skipped} skipped`
+    );
+  }
+);
@@ -0,0 +1,58 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+
+const db = admin.firestore();
+
+// Trashed orders and returns are deleted for good after this long
+// Matches TRASH_RETENTION_DAYS in src/services/trash.ts
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Whether an order or return is in the trash
+ * Deleting from a card stamps deletedAt/deletedBy instead of removing the doc;
+ * triggers and rebuilds treat trashed docs as if they were gone
+ */
+export const isTrashed = (data: FirebaseFirestore.DocumentData | undefined): boolean =>
+  !!data?.deletedAt;
+
+// Helper to treat a trashed doc as missing in before/after trigger data
+export const withoutTrashed = (
+  data: FirebaseFirestore.DocumentData | undefined
+): FirebaseFirestore.DocumentData | undefined => (isTrashed(data) ? undefined : data);
+
+/**
+ * Scheduled Function: Permanently delete orders and returns trashed longer
+ * than the retention period (with their tracking history)
+ * Runs every day at 3:30 AM
+ */
+export const purgeTrash = onSchedule(
+  {
+    schedule: "30 3 * * *",
+    timeZone: "America/Chicago",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - TRASH_RETENTION_DAYS);
+
+    let purged = 0;
+    for (const collectionName of ["orders", "returns"]) {
+      const snapshot = await db.collection(collectionName)
+        .where("deletedAt", "<=", cutoff.toISOString())
+        .get();
+
+      for (const doc of snapshot.docs) {
+        try {
+          // Recursive so the trackingEvents subcollection goes too
+          await db.recursiveDelete(doc.ref);
+          purged++;
+        } catch (error) {
+          logger.error(`Error purging ${doc.ref.path}:`, error);
+        }
+      }
+    }
+
+    logger.info(`Purged ${purged} orders/returns trashed before ${cutoff.toISOString()}`);
+  }
+);
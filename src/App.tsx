@@ -9,8 +9,14 @@ import { OrderList } from './components/Orders/OrderList';
 import { EmployeeReport } from './components/Reports/EmployeeReport';
 import { ItemReport } from './components/Reports/ItemReport';
 import { StaleItemsReport } from './components/Reports/StaleItemsReport';
+import { DispositionFollowUp } from './components/Reports/DispositionFollowUp';
+import { ProfitReport } from './components/Reports/ProfitReport';
 import { CustomerList } from './components/Customers/CustomerList';
 import { ShipmentList } from './components/Shipments/ShipmentList';
+import { SupplierList } from './components/Suppliers/SupplierList';
+import { TrashList } from './components/Orders/TrashList';
+import { UserRoles } from './components/Admin/UserRoles';
+import { ActivityFeed } from './components/Admin/ActivityFeed';
 
 const theme = createTheme({
   palette: {
@@ -100,8 +106,49 @@ function App() {
               <Route path="reports/employees" element={<EmployeeReport />} />
               <Route path="reports/items" element={<ItemReport />} />
               <Route path="reports/stale" element={<StaleItemsReport />} />
+              <Route
+                path="reports/dispositions"
+                element={
+                  <ProtectedRoute minimumRole="manager">
+                    <DispositionFollowUp />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="reports/profit"
+                element={
+                  <ProtectedRoute minimumRole="manager">
+                    <ProfitReport />
+                  </ProtectedRoute>
+                }
+              />
               <Route path="customers" element={<CustomerList />} />
               <Route path="shipments" element={<ShipmentList />} />
+              <Route path="suppliers" element={<SupplierList />} />
+              <Route
+                path="trash"
+                element={
+                  <ProtectedRoute minimumRole="manager">
+                    <TrashList />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/users"
+                element={
+                  <ProtectedRoute minimumRole="admin">
+                    <UserRoles />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/activity"
+                element={
+                  <ProtectedRoute minimumRole="admin">
+                    <ActivityFeed />
+                  </ProtectedRoute>
+                }
+              />
             </Route>
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
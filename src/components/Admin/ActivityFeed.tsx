@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  Chip,
+} from '@mui/material';
+import {
+  subscribeToActivityFeed,
+  matchesAuditFilter,
+  AUDIT_FEED_PAGE_SIZE,
+} from '../../services/auditLog';
+import { AuditChangeLine } from '../Orders/ChangeHistoryPanel';
+import { AuditEntry } from '../../types/audit';
+
+const ACTION_COLORS: Record<AuditEntry['action'], 'success' | 'default' | 'error'> = {
+  create: 'success',
+  update: 'default',
+  delete: 'error',
+};
+
+/**
+ * Every change to orders and returns, newest first
+ * Filter by who, by field and by value to answer "who changed this to refunded?"
+ */
+export const ActivityFeed: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [limitCount, setLimitCount] = useState(AUDIT_FEED_PAGE_SIZE);
+  const [changedBy, setChangedBy] = useState('');
+  const [field, setField] = useState('');
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    const unsubscribe = subscribeToActivityFeed(limitCount, setEntries);
+    return () => unsubscribe();
+  }, [limitCount]);
+
+  // Filter options come from what's loaded
+  const actors = useMemo(
+    () => [...new Set((entries || []).map((entry) => entry.changedBy))].sort(),
+    [entries]
+  );
+  const fields = useMemo(
+    () => [...new Set((entries || []).flatMap((entry) => entry.fields))].sort(),
+    [entries]
+  );
+
+  const filtered = (entries || []).filter((entry) => matchesAuditFilter(entry, { changedBy, field, text }));
+  const hasMore = entries !== null && entries.length >= limitCount;
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Box mb={2}>
+        <Typography variant="h4" gutterBottom>
+          Activity
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Every change to orders and returns, recorded by the server
+        </Typography>
+      </Box>
+
+      <Box display="flex" gap={1} mb={2}>
+        <Select
+          size="small"
+          value={changedBy}
+          onChange={(e) => setChangedBy(e.target.value)}
+          displayEmpty
+          sx={{ minWidth: 200 }}
+        >
+          <MenuItem value="">Anyone</MenuItem>
+          {actors.map((actor) => (
+            <MenuItem key={actor} value={actor}>{actor}</MenuItem>
+          ))}
+        </Select>
+        <Select
+          size="small"
+          value={field}
+          onChange={(e) => setField(e.target.value)}
+          displayEmpty
+          sx={{ minWidth: 180 }}
+        >
+          <MenuItem value="">Any field</MenuItem>
+          {fields.map((f) => (
+            <MenuItem key={f} value={f}>{f}</MenuItem>
+          ))}
+        </Select>
+        <TextField
+          size="small"
+          placeholder="Order #, item or new value (e.g. refunded)"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          sx={{ flex: 1 }}
+        />
+      </Box>
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>When</TableCell>
+              <TableCell>Who</TableCell>
+              <TableCell>Order</TableCell>
+              <TableCell>Changes</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {entries === null ? (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                    Loading...
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : filtered.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                    No matching changes{hasMore ? ' - try loading more' : ''}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              filtered.map((entry) => (
+                <TableRow key={entry.id} hover sx={{ verticalAlign: 'top' }}>
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                    <Typography variant="body2">{entry.changedAt.toLocaleDateString()}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {entry.changedAt.toLocaleTimeString()}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{entry.changedBy}</Typography>
+                  </TableCell>
+                  <TableCell sx={{ maxWidth: 240 }}>
+                    <Typography variant="body2">
+                      {entry.orderNumber || entry.docId}
+                      {entry.collection === 'returns' && (
+                        <Typography component="span" variant="caption" color="text.secondary"> (return)</Typography>
+                      )}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" noWrap display="block">
+                      {entry.item}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    {entry.action === 'update' ? (
+                      entry.changes
+                        .filter((change) => !field || change.field === field)
+                        .map((change) => <AuditChangeLine key={change.field} change={change} />)
+                    ) : (
+                      <Chip
+                        label={entry.action === 'create' ? 'Created' : 'Deleted'}
+                        size="small"
+                        color={ACTION_COLORS[entry.action]}
+                      />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {hasMore && (
+        <Box display="flex" justifyContent="center" mt={2}>
+          <Button variant="outlined" onClick={() => setLimitCount(limitCount + AUDIT_FEED_PAGE_SIZE)}>
+            Load More
+          </Button>
+        </Box>
+      )}
+    </Container>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  Alert,
+} from '@mui/material';
+import { useAuth } from '../Auth/AuthContext';
+import { subscribeToUserRoles, setUserRole, ROLE_LABELS } from '../../services/roles';
+import { runStatusNormalization } from '../../services/orderStatus';
+import { UserRole, UserRoleAssignment } from '../../types/roles';
+
+const ROLES: UserRole[] = ['employee', 'manager', 'admin'];
+
+// What each role adds on top of the one before it
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  employee: 'Orders, shipping labels, returns, reports',
+  manager: 'Also voids labels, deletes and restores orders and returns, credited amounts, profit, item merges and eBay imports',
+  admin: 'Also migrations, backfills and user roles',
+};
+
+// Callable errors carry the server message - show it instead of a generic failure
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+/**
+ * Assign employee / manager / admin roles by email
+ * Anyone without an entry here is an employee. Admin-only data fixes live
+ * at the bottom of the page.
+ */
+export const UserRoles: React.FC = () => {
+  const { user } = useAuth();
+  const [assignments, setAssignments] = useState<UserRoleAssignment[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>('manager');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [normalizing, setNormalizing] = useState(false);
+  const [normalizeResult, setNormalizeResult] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToUserRoles(setAssignments);
+    return () => unsubscribe();
+  }, []);
+
+  const assign = async (targetEmail: string, targetRole: UserRole) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await setUserRole(targetEmail, targetRole);
+      return true;
+    } catch (err) {
+      console.error('Error setting role:', err);
+      setError(getErrorMessage(err, 'Failed to set role'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (await assign(email, role)) setEmail('');
+  };
+
+  const handleStatusNormalization = async () => {
+    setNormalizing(true);
+    setNormalizeResult(null);
+    setError(null);
+    try {
+      const result = await runStatusNormalization();
+      const breakdown = Object.entries(result.normalized)
+        .map(([legacy, count]) => `${legacy}: ${count}`)
+        .join(', ');
+      setNormalizeResult(`Orders and returns updated: ${result.total}${breakdown ? ` (${breakdown})` : ''}`);
+    } catch (err) {
+      console.error('Status normalization error:', err);
+      setError(getErrorMessage(err, 'Failed to normalize order statuses'));
+    } finally {
+      setNormalizing(false);
+    }
+  };
+
+  return (
+    <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+      <Box mb={2}>
+        <Typography variant="h4" gutterBottom>
+          User Roles
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Roles take effect within a few seconds, without signing out
+        </Typography>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        {ROLES.map((r) => (
+          <Typography key={r} variant="body2" sx={{ mb: 0.5 }}>
+            <strong>{ROLE_LABELS[r]}</strong>
+            <Typography component="span" variant="body2" color="text.secondary">
+              {' - '}{ROLE_DESCRIPTIONS[r]}
+            </Typography>
+          </Typography>
+        ))}
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" gap={1} mb={2}>
+        <TextField
+          label="Email"
+          size="small"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          sx={{ flex: 1 }}
+        />
+        <Select
+          size="small"
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          sx={{ minWidth: 140 }}
+        >
+          {ROLES.map((r) => (
+            <MenuItem key={r} value={r}>{ROLE_LABELS[r]}</MenuItem>
+          ))}
+        </Select>
+        <Button variant="contained" onClick={handleAdd} disabled={saving || !email.includes('@')}>
+          Assign
+        </Button>
+      </Box>
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Email</TableCell>
+              <TableCell>Role</TableCell>
+              <TableCell>Changed</TableCell>
+              <TableCell>Claims</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {assignments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                    No roles assigned yet - everyone is an employee
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              assignments.map((assignment) => (
+                <TableRow key={assignment.email} hover>
+                  <TableCell>{assignment.email}</TableCell>
+                  <TableCell>
+                    <Select
+                      size="small"
+                      value={assignment.role}
+                      onChange={(e) => assign(assignment.email, e.target.value as UserRole)}
+                      disabled={saving || assignment.email === user?.email?.toLowerCase()}
+                      sx={{ minWidth: 140 }}
+                    >
+                      {ROLES.map((r) => (
+                        <MenuItem key={r} value={r}>{ROLE_LABELS[r]}</MenuItem>
+                      ))}
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{assignment.updatedAt.toLocaleDateString()}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {assignment.updatedBy}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="caption" color="text.secondary">
+                      {assignment.claimsSyncedAt ? 'Synced' : 'On next sign-in'}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Box mt={4}>
+        <Typography variant="h6" gutterBottom>
+          Maintenance
+        </Typography>
+        {normalizeResult && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNormalizeResult(null)}>
+            {normalizeResult}
+          </Alert>
+        )}
+        <Paper sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+            Rewrite legacy status spellings ("notShipped", "return done") on every order and return
+          </Typography>
+          <Button variant="outlined" onClick={handleStatusNormalization} disabled={normalizing}>
+            {normalizing ? 'Normalizing...' : 'Normalize Statuses'}
+          </Button>
+        </Paper>
+      </Box>
+    </Container>
+  );
+};
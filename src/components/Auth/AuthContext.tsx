@@ -1,11 +1,18 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User as FirebaseUser, onAuthStateChanged, signInWithPopup, signOut } from 'firebase/auth';
 import { auth, googleProvider } from '../../services/firebase';
-import { User } from '../../types';
+import { User, UserRole } from '../../types';
+import {
+  getRoleFromClaims,
+  roleAtLeast,
+  subscribeToMyRole,
+  refreshRoleClaims,
+} from '../../services/roles';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  hasRole: (minimum: UserRole) => boolean;
   signInWithGoogle: () => Promise<void>;
   logout: () => Promise<void>;
 }
@@ -25,13 +32,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (firebaseUser: FirebaseUser | null) => {
+    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser: FirebaseUser | null) => {
       if (firebaseUser) {
+        // The role lives in custom claims - the same thing the callables check
+        let role: UserRole = 'employee';
+        try {
+          const tokenResult = await firebaseUser.getIdTokenResult();
+          role = getRoleFromClaims(tokenResult.claims);
+        } catch (error) {
+          console.error('Error reading role claims:', error);
+        }
         setUser({
           uid: firebaseUser.uid,
           displayName: firebaseUser.displayName,
           email: firebaseUser.email,
           photoURL: firebaseUser.photoURL,
+          role,
         });
       } else {
         setUser(null);
@@ -42,6 +58,32 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return unsubscribe;
   }, []);
 
+  // Pick up role changes while signed in: when the assigned role and the
+  // token disagree, have the server sync the claims and refresh the token
+  const email = user?.email;
+  useEffect(() => {
+    if (!email) return;
+
+    const unsubscribe = subscribeToMyRole(email, async (assignment) => {
+      const assigned = assignment?.role || 'employee';
+      const firebaseUser = auth.currentUser;
+      if (!firebaseUser) return;
+
+      try {
+        const current = getRoleFromClaims((await firebaseUser.getIdTokenResult()).claims);
+        if (current === assigned) return;
+
+        await refreshRoleClaims();
+        const role = getRoleFromClaims((await firebaseUser.getIdTokenResult(true)).claims);
+        setUser((prev) => (prev && prev.role !== role ? { ...prev, role } : prev));
+      } catch (error) {
+        console.error('Error refreshing role:', error);
+      }
+    });
+
+    return () => unsubscribe();
+  }, [email]);
+
   const signInWithGoogle = async () => {
     try {
       await signInWithPopup(auth, googleProvider);
@@ -63,6 +105,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const value = {
     user,
     loading,
+    hasRole: (minimum: UserRole) => !!user && roleAtLeast(user.role, minimum),
     signInWithGoogle,
     logout,
   };
@@ -2,13 +2,15 @@ import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { CircularProgress, Box } from '@mui/material';
 import { useAuth } from './AuthContext';
+import { UserRole } from '../../types';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  minimumRole?: UserRole; // signed-in users without it are sent back to Orders
 }
 
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { user, loading } = useAuth();
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, minimumRole }) => {
+  const { user, loading, hasRole } = useAuth();
 
   if (loading) {
     return (
@@ -27,5 +29,9 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" replace />;
   }
 
+  if (minimumRole && !hasRole(minimumRole)) {
+    return <Navigate to="/" replace />;
+  }
+
   return <>{children}</>;
 };
\ No newline at end of file
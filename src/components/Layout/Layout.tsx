@@ -14,9 +14,10 @@ import {
 import LocalShippingIcon from '@mui/icons-material/LocalShipping';
 import { useAuth } from '../Auth/AuthContext';
 import { ShippingDialog } from '../Shipping/ShippingDialog';
+import { UserRole } from '../../types';
 
 export const Layout: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, hasRole } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
@@ -42,9 +43,15 @@ export const Layout: React.FC = () => {
 
   const tabValue = location.pathname === '/reports/employees' ? 1 :
                    location.pathname === '/reports/items' ? 2 :
-                   location.pathname === '/reports/stale' ? 3 :
+                   location.pathname === '/reports/stale' ||
+                   location.pathname === '/reports/dispositions' ? 3 :
                    location.pathname === '/customers' ? 4 :
-                   location.pathname === '/shipments' ? 5 : 0;
+                   location.pathname === '/shipments' ? 5 :
+                   location.pathname === '/reports/profit' ? 6 :
+                   location.pathname === '/suppliers' ? 7 :
+                   location.pathname === '/admin/users' ? 8 :
+                   location.pathname === '/admin/activity' ? 9 :
+                   location.pathname === '/trash' ? 10 : 0;
 
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
@@ -72,14 +79,21 @@ export const Layout: React.FC = () => {
           </Typography>
 
           <Box sx={{ display: 'flex', gap: 0.5, flexGrow: 1 }}>
-            {[
+            {([
               { label: 'Orders', value: 0, path: '/' },
               { label: 'Reports', value: 1, path: '/reports/employees' },
               { label: 'Items', value: 2, path: '/reports/items' },
+              { label: 'Profit', value: 6, path: '/reports/profit', minimumRole: 'manager' },
               { label: 'Stale', value: 3, path: '/reports/stale' },
               { label: 'Customers', value: 4, path: '/customers' },
               { label: 'Shipments', value: 5, path: '/shipments' },
-            ].map((tab) => (
+              { label: 'Suppliers', value: 7, path: '/suppliers' },
+              { label: 'Trash', value: 10, path: '/trash', minimumRole: 'manager' },
+              { label: 'Admin', value: 8, path: '/admin/users', minimumRole: 'admin' },
+              { label: 'Activity', value: 9, path: '/admin/activity', minimumRole: 'admin' },
+            ] as { label: string; value: number; path: string; minimumRole?: UserRole }[])
+              .filter((tab) => !tab.minimumRole || hasRole(tab.minimumRole))
+              .map((tab) => (
               <Button
                 key={tab.value}
                 onClick={() => navigate(tab.path)}
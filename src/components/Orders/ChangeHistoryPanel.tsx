@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Typography, IconButton, Collapse } from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import { subscribeToDocumentHistory, formatAuditValue } from '../../services/auditLog';
+import { AuditChange, AuditCollection, AuditEntry } from '../../types/audit';
+
+interface ChangeHistoryPanelProps {
+  collectionName: AuditCollection;
+  docId: string;
+  // Fields the viewer isn't allowed to see (e.g. credited for employees)
+  hiddenFields?: string[];
+}
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'Created',
+  update: 'Changed',
+  delete: 'Deleted',
+};
+
+// Helper to show when a change happened
+const formatChangedAt = (date: Date): string =>
+  date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// One field's old -> new value
+export const AuditChangeLine: React.FC<{ change: AuditChange }> = ({ change }) => (
+  <Typography sx={{ fontSize: '11px', color: '#a1a1aa', wordBreak: 'break-word' }}>
+    <Box component="span" sx={{ color: '#e4e4e7', fontWeight: 500 }}>{change.field}</Box>
+    {': '}
+    <Box component="span" sx={{ color: '#71717a', textDecoration: 'line-through' }}>
+      {formatAuditValue(change.oldValue)}
+    </Box>
+    {' → '}
+    {formatAuditValue(change.newValue)}
+  </Typography>
+);
+
+/**
+ * Who changed what on an order or return, and when
+ * Read from the audit log the server keeps - only subscribes once opened
+ */
+export const ChangeHistoryPanel: React.FC<ChangeHistoryPanelProps> = ({ collectionName, docId, hiddenFields }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!expanded) return;
+    const unsubscribe = subscribeToDocumentHistory(collectionName, docId, setEntries);
+    return () => unsubscribe();
+  }, [expanded, collectionName, docId]);
+
+  const visibleEntries = (entries || [])
+    .map((entry) => ({
+      ...entry,
+      changes: entry.changes.filter((change) => !hiddenFields?.includes(change.field)),
+    }))
+    .filter((entry) => entry.action !== 'update' || entry.changes.length > 0);
+
+  return (
+    <Box sx={{ mt: 1.5, borderTop: '1px solid #27272a', pt: 1 }}>
+      <Box
+        sx={{ display: 'flex', alignItems: 'center', gap: 1, cursor: 'pointer' }}
+        onClick={() => setExpanded(!expanded)}
+      >
+        <IconButton
+          size="small"
+          sx={{
+            p: 0.25,
+            color: '#a1a1aa',
+            transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)',
+            transition: 'transform 0.2s',
+          }}
+        >
+          <ExpandMoreIcon sx={{ fontSize: 18 }} />
+        </IconButton>
+        <Typography sx={{ fontSize: '11px', color: '#a1a1aa', fontWeight: 500 }}>History</Typography>
+        {expanded && entries && (
+          <Typography sx={{ fontSize: '11px', color: '#52525b' }}>
+            {visibleEntries.length} {visibleEntries.length === 1 ? 'change' : 'changes'}
+          </Typography>
+        )}
+      </Box>
+
+      <Collapse in={expanded} unmountOnExit>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1, maxHeight: 280, overflowY: 'auto' }}>
+          {entries === null ? (
+            <Typography sx={{ fontSize: '11px', color: '#52525b' }}>Loading...</Typography>
+          ) : visibleEntries.length === 0 ? (
+            <Typography sx={{ fontSize: '11px', color: '#52525b' }}>No changes recorded yet</Typography>
+          ) : (
+            visibleEntries.map((entry) => (
+              <Box key={entry.id} sx={{ borderLeft: '2px solid #3f3f46', pl: 1 }}>
+                <Typography sx={{ fontSize: '10px', color: '#71717a', mb: 0.25 }}>
+                  {ACTION_LABELS[entry.action]} by {entry.changedBy} · {formatChangedAt(entry.changedAt)}
+                </Typography>
+                {/* Creates and deletes list every field - the values only matter for edits */}
+                {entry.action === 'update' &&
+                  entry.changes.map((change) => <AuditChangeLine key={change.field} change={change} />)}
+              </Box>
+            ))
+          )}
+        </Box>
+      </Collapse>
+    </Box>
+  );
+};
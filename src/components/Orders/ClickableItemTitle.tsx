@@ -1,5 +1,7 @@
-import React from 'react';
-import { Typography } from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import { Box, Typography, Tooltip } from '@mui/material';
+import PlaceOutlinedIcon from '@mui/icons-material/PlaceOutlined';
+import { getInventoryLocation } from '../../services/inventory';
 
 interface ClickableItemTitleProps {
   itemName: string;
@@ -10,28 +12,65 @@ export const ClickableItemTitle: React.FC<ClickableItemTitleProps> = ({
   itemName,
   onOpenProfile,
 }) => {
+  const [location, setLocation] = useState<string | null>(null);
+
+  // Shelf location so whoever packs the order knows where to pull the part
+  useEffect(() => {
+    let cancelled = false;
+    getInventoryLocation(itemName).then((result) => {
+      if (!cancelled) setLocation(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemName]);
+
   return (
-    <Typography
-      onClick={(e) => {
-        e.stopPropagation();
-        onOpenProfile();
-      }}
-      sx={{
-        color: '#fff',
-        fontSize: '14px',
-        fontWeight: 600,
-        whiteSpace: 'nowrap',
-        overflow: 'hidden',
-        textOverflow: 'ellipsis',
-        cursor: 'pointer',
-        '&:hover': {
-          color: '#3b82f6',
-          textDecoration: 'underline',
-        },
-        transition: 'color 0.15s ease',
-      }}
-    >
-      {itemName}
-    </Typography>
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, minWidth: 0 }}>
+      <Typography
+        onClick={(e) => {
+          e.stopPropagation();
+          onOpenProfile();
+        }}
+        sx={{
+          color: '#fff',
+          fontSize: '14px',
+          fontWeight: 600,
+          whiteSpace: 'nowrap',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          cursor: 'pointer',
+          '&:hover': {
+            color: '#3b82f6',
+            textDecoration: 'underline',
+          },
+          transition: 'color 0.15s ease',
+        }}
+      >
+        {itemName}
+      </Typography>
+      {location && (
+        <Tooltip title="Shelf location">
+          <Box
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 0.25,
+              flexShrink: 0,
+              px: 0.75,
+              py: 0.125,
+              borderRadius: 1,
+              border: '1px solid #3f3f46',
+              color: '#a1a1aa',
+              fontSize: '11px',
+              fontWeight: 600,
+            }}
+          >
+            <PlaceOutlinedIcon sx={{ fontSize: 12 }} />
+            {location}
+          </Box>
+        </Tooltip>
+      )}
+    </Box>
   );
 };
@@ -13,6 +13,7 @@ import {
 } from '@mui/material';
 import { collection, addDoc, doc, updateDoc } from 'firebase/firestore';
 import { db } from '../../services/firebase';
+import { useAuth } from '../Auth/AuthContext';
 import { Order, OrderStatus } from '../../types';
 
 interface OrderDialogProps {
@@ -22,6 +23,7 @@ interface OrderDialogProps {
 }
 
 export const CreateOrderDialog: React.FC<OrderDialogProps> = ({ open, onClose, order }) => {
+  const { user } = useAuth();
   const isEditMode = !!order;
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -88,12 +90,13 @@ export const CreateOrderDialog: React.FC<OrderDialogProps> = ({ open, onClose, o
         shipZip: shipZip.trim() || '',
         shipPhone: shipPhone.trim() || '',
         dueDate: dueDate || '',
+        updatedBy: user?.email || 'unknown',
       };
 
       if (isEditMode && order) {
         // Update existing order
         const orderRef = doc(db, 'orders', order.id);
-        await updateDoc(orderRef, orderData);
+        await updateDoc(orderRef, { ...orderData, updatedAt: new Date().toISOString() });
       } else {
         // Create new order
         orderData.status = 'not shipped' as OrderStatus;
@@ -19,7 +19,9 @@ import {
   updateItemProfile,
   normalizeItemName,
 } from '../../services/itemProfiles';
-import { ItemProfile } from '../../types';
+import { getInventory, saveInventory } from '../../services/inventory';
+import { getRegistryEntry } from '../../services/itemRegistry';
+import { ItemProfile, RegistryTitle } from '../../types';
 
 interface ItemProfileDialogProps {
   open: boolean;
@@ -34,7 +36,8 @@ export const ItemProfileDialog: React.FC<ItemProfileDialogProps> = ({
   itemName,
   itemId,
 }) => {
-  const { user } = useAuth();
+  const { user, hasRole } = useAuth();
+  const canEditInventory = hasRole('manager');
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [profile, setProfile] = useState<ItemProfile | null>(null);
@@ -45,6 +48,12 @@ export const ItemProfileDialog: React.FC<ItemProfileDialogProps> = ({
   const [ebayItemId, setEbayItemId] = useState<string | undefined>();
   const [qualityNotes, setQualityNotes] = useState('');
   const [vehicleFitment, setVehicleFitment] = useState('');
+  const [hasInventory, setHasInventory] = useState(false);
+  const [quantityOnHand, setQuantityOnHand] = useState('');
+  const [location, setLocation] = useState('');
+  const [acquiredAt, setAcquiredAt] = useState('');
+  const [acquisitionCost, setAcquisitionCost] = useState('');
+  const [otherTitles, setOtherTitles] = useState<RegistryTitle[]>([]);
 
   // Load profile when dialog opens
   useEffect(() => {
@@ -56,12 +65,22 @@ export const ItemProfileDialog: React.FC<ItemProfileDialogProps> = ({
   const loadProfile = async () => {
     setIsLoading(true);
     try {
-      const profileData = await getOrCreateItemProfile(
-        itemName,
-        itemId,
-        user?.email || undefined
-      );
+      const [profileData, inventory, registryEntry] = await Promise.all([
+        getOrCreateItemProfile(itemName, itemId, user?.email || undefined),
+        getInventory(itemName),
+        getRegistryEntry(itemId),
+      ]);
       setProfile(profileData);
+      setOtherTitles(
+        (registryEntry?.titles || [])
+          .filter((entry) => entry.title !== itemName)
+          .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+      );
+      setHasInventory(!!inventory);
+      setQuantityOnHand(inventory ? String(inventory.quantityOnHand) : '');
+      setLocation(inventory?.location || '');
+      setAcquiredAt(inventory?.acquiredAt || '');
+      setAcquisitionCost(inventory?.acquisitionCost !== undefined ? String(inventory.acquisitionCost) : '');
       setNotes(profileData.notes || '');
       // Pre-fill with default eBay URL if no custom URL is saved
       // Use ebayItemId from itemStats, or fall back to itemId prop (which may be the eBay item ID)
@@ -96,6 +115,23 @@ export const ItemProfileDialog: React.FC<ItemProfileDialogProps> = ({
         },
         user?.email || ''
       );
+
+      // Only start tracking inventory once someone enters a quantity or location
+      // (stock counts are a manager call - employees see them read-only)
+      if (canEditInventory && (hasInventory || quantityOnHand.trim() || location.trim())) {
+        const cost = parseFloat(acquisitionCost);
+        await saveInventory(
+          itemName,
+          itemId || profile.itemId,
+          {
+            quantityOnHand: parseInt(quantityOnHand, 10) || 0,
+            location,
+            acquiredAt: acquiredAt || undefined,
+            acquisitionCost: isNaN(cost) ? undefined : cost,
+          },
+          user?.email || ''
+        );
+      }
       onClose();
     } catch (error) {
       console.error('Error saving item profile:', error);
@@ -154,6 +190,16 @@ export const ItemProfileDialog: React.FC<ItemProfileDialogProps> = ({
             SKU: {itemId}
           </Typography>
         )}
+        {otherTitles.length > 0 && (
+          <Typography
+            sx={{ fontSize: '11px', color: '#71717a', mt: 0.25 }}
+            title={otherTitles
+              .map((entry) => `${entry.title} (last seen ${entry.lastSeenAt.toLocaleDateString()})`)
+              .join('\n')}
+          >
+            Also sold as: {otherTitles.map((entry) => entry.title).join(' · ')}
+          </Typography>
+        )}
       </DialogTitle>
 
       <DialogContent sx={{ mt: 2 }}>
@@ -170,6 +216,76 @@ export const ItemProfileDialog: React.FC<ItemProfileDialogProps> = ({
           </Box>
         ) : (
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2.5 }}>
+            {/* Inventory */}
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Box
+                  sx={{
+                    width: 3,
+                    height: 12,
+                    backgroundColor: '#14b8a6',
+                    borderRadius: 1,
+                  }}
+                />
+                <Typography
+                  sx={{
+                    fontSize: '11px',
+                    fontWeight: 600,
+                    textTransform: 'uppercase',
+                    letterSpacing: '0.5px',
+                    color: '#71717a',
+                  }}
+                >
+                  Inventory
+                </Typography>
+              </Box>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <TextField
+                  label="Location"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  placeholder="Bin / shelf"
+                  size="small"
+                  disabled={!canEditInventory}
+                  sx={{ ...inputSx, flex: 1 }}
+                />
+                <TextField
+                  label="On Hand"
+                  type="number"
+                  value={quantityOnHand}
+                  onChange={(e) => setQuantityOnHand(e.target.value)}
+                  size="small"
+                  disabled={!canEditInventory}
+                  error={parseInt(quantityOnHand, 10) < 0}
+                  sx={{ ...inputSx, width: 90 }}
+                />
+                <TextField
+                  label="Acquired"
+                  type="date"
+                  value={acquiredAt}
+                  onChange={(e) => setAcquiredAt(e.target.value)}
+                  size="small"
+                  disabled={!canEditInventory}
+                  InputLabelProps={{ shrink: true }}
+                  sx={{ ...inputSx, width: 150 }}
+                />
+                <TextField
+                  label="Unit Cost"
+                  type="number"
+                  value={acquisitionCost}
+                  onChange={(e) => setAcquisitionCost(e.target.value)}
+                  size="small"
+                  disabled={!canEditInventory}
+                  sx={{ ...inputSx, width: 100 }}
+                />
+              </Box>
+              {hasInventory && (
+                <Typography sx={{ fontSize: '11px', color: '#71717a', mt: 0.5 }}>
+                  On-hand drops when an order comes in and goes back up when a return is received
+                </Typography>
+              )}
+            </Box>
+
             {/* Notes */}
             <Box>
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
@@ -325,6 +441,41 @@ export const ItemProfileDialog: React.FC<ItemProfileDialogProps> = ({
                 sx={inputSx}
               />
             </Box>
+
+            {/* Shipping Parcel (saved from the last label bought) */}
+            {profile?.parcelPreset && (
+              <Box>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <Box
+                    sx={{
+                      width: 3,
+                      height: 12,
+                      backgroundColor: '#3b82f6',
+                      borderRadius: 1,
+                    }}
+                  />
+                  <Typography
+                    sx={{
+                      fontSize: '11px',
+                      fontWeight: 600,
+                      textTransform: 'uppercase',
+                      letterSpacing: '0.5px',
+                      color: '#71717a',
+                    }}
+                  >
+                    Shipping Parcel
+                  </Typography>
+                </Box>
+                <Typography sx={{ fontSize: '13px', color: '#a1a1aa' }}>
+                  {profile.parcelPreset.length} x {profile.parcelPreset.width} x {profile.parcelPreset.height} in
+                  {' - '}
+                  {profile.parcelPreset.weightLbs} lb {profile.parcelPreset.weightOz} oz
+                </Typography>
+                <Typography sx={{ fontSize: '11px', color: '#71717a', mt: 0.5 }}>
+                  Updated automatically from the last label bought for this item
+                </Typography>
+              </Box>
+            )}
           </Box>
         )}
       </DialogContent>
@@ -11,13 +11,14 @@ import {
   Collapse,
   CircularProgress,
   Tooltip,
+  Autocomplete,
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import PhoneIcon from '@mui/icons-material/Phone';
 import PersonAddIcon from '@mui/icons-material/PersonAdd';
 import EditIcon from '@mui/icons-material/Edit';
 import LocalShippingIcon from '@mui/icons-material/LocalShipping';
-import { doc, updateDoc, deleteDoc, collection, addDoc } from 'firebase/firestore';
+import { doc, updateDoc, collection, addDoc, deleteField } from 'firebase/firestore';
 import { db } from '../../services/firebase';
 import { useAuth } from '../Auth/AuthContext';
 import { CreateOrderDialog } from './CreateOrderDialog';
@@ -26,15 +27,29 @@ import { ItemProfileDialog } from './ItemProfileDialog';
 import { ClickableItemTitle } from './ClickableItemTitle';
 import { Order, OrderStatus } from '../../types';
 import { TrackingProgressBar } from './TrackingProgressBar';
+import { TrackingTimeline } from './TrackingTimeline';
+import { PurchaseOrderPanel } from './PurchaseOrderPanel';
+import { ChangeHistoryPanel } from './ChangeHistoryPanel';
+import { moveToTrash, TRASH_RETENTION_DAYS } from '../../services/trash';
+import {
+  ORDER_STATUS_RULES,
+  normalizeOrderStatus,
+  getStatusLabel,
+  getStatusOptions,
+  getTransitionError,
+} from '../../services/orderStatus';
 import { getTrackingStatus, shouldFetchTracking, type TrackingStatus } from '../../services/shippo';
 import { ShippingDialog } from '../Shipping/ShippingDialog';
+import { getSuppliers, findSupplierByName } from '../../services/suppliers';
+import { Supplier } from '../../types/supplier';
 
 interface OrderCardProps {
   order: Order;
 }
 
-const getStatusColor = (status: string, dueDate?: string): string => {
-  if (status === 'notShipped' || status === 'not shipped') {
+const getStatusColor = (storedStatus: string, dueDate?: string): string => {
+  const status = normalizeOrderStatus(storedStatus);
+  if (status === 'not shipped') {
     if (dueDate && new Date(dueDate) < new Date()) {
       return '#ef4444'; // red - overdue
     }
@@ -46,7 +61,7 @@ const getStatusColor = (status: string, dueDate?: string): string => {
   if (status === 'shipped' || status === 'completed' || status === 'delivered') {
     return '#22c55e'; // green
   }
-  if (status === 'return' || status === 'return done' || status === 'return complete') {
+  if (status === 'return' || status === 'return complete') {
     return '#a855f7'; // purple
   }
   if (status === 'return delivered') {
@@ -55,26 +70,12 @@ const getStatusColor = (status: string, dueDate?: string): string => {
   if (status === 'refunded') {
     return '#22c55e'; // green - money back
   }
+  if (status === 'cancelled') {
+    return '#52525b'; // dark grey - cancelled on eBay
+  }
   return '#71717a'; // grey
 };
 
-const getStatusLabel = (status: string): string => {
-  const labels: Record<string, string> = {
-    'not shipped': 'NOT SHIPPED',
-    'notShipped': 'NOT SHIPPED',
-    'processing': 'PROCESSING',
-    'shipped': 'SHIPPED',
-    'delivered': 'DELIVERED',
-    'completed': 'COMPLETED',
-    'return': 'RETURN',
-    'return done': 'RETURN DONE',
-    'return complete': 'RETURN COMPLETE',
-    'return delivered': 'RETURN DELIVERED',
-    'refunded': 'REFUNDED',
-  };
-  return labels[status] || status.toUpperCase();
-};
-
 const formatDate = (dateString?: string): string => {
   if (!dateString) return '—';
   try {
@@ -96,7 +97,9 @@ const isUnassigned = (employee?: string): boolean => {
 };
 
 export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
-  const { user } = useAuth();
+  const { user, hasRole } = useAuth();
+  // Stamped on every write so the audit log can credit the change
+  const userEmail = user?.email || 'unknown';
   const [notesExpanded, setNotesExpanded] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -106,6 +109,7 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
   const [itemProfileOpen, setItemProfileOpen] = useState(false);
   const [shippingDialogOpen, setShippingDialogOpen] = useState(false);
   const [isTrackingLoading, setIsTrackingLoading] = useState(false);
+  const [trackingHistoryExpanded, setTrackingHistoryExpanded] = useState(false);
   const [trackingStatus, setTrackingStatus] = useState<TrackingStatus | undefined>(order.trackingStatus);
   const [trackingStatusDetails, setTrackingStatusDetails] = useState(order.trackingStatusDetails);
   const [trackingEta, setTrackingEta] = useState(order.trackingEta);
@@ -119,8 +123,10 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
   const [supplierPhone, setSupplierPhone] = useState(order.supplierPhone || '');
   const [buyPrice, setBuyPrice] = useState(order.buyPrice || '');
   const [shipPrice, setShipPrice] = useState(order.shipPrice || '');
-  const [status, setStatus] = useState<OrderStatus>(order.status);
+  // Legacy spellings show (and save) as their canonical status
+  const [status, setStatus] = useState<string>(normalizeOrderStatus(order.status) || order.status);
   const [notes, setNotes] = useState(order.notes || '');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
 
   // Fetch tracking status from Shippo and cache in Firestore
   const fetchTrackingStatus = async (force = false) => {
@@ -132,7 +138,10 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
 
     setIsTrackingLoading(true);
     try {
-      const result = await getTrackingStatus(order.carrier, order.tracking);
+      const result = await getTrackingStatus(order.carrier, order.tracking, {
+        collection: order._collection || 'orders',
+        docId: order.id,
+      });
       const now = new Date().toISOString();
 
       // Update local state
@@ -181,6 +190,8 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
       const orderRef = doc(db, 'orders', order.id);
       await updateDoc(orderRef, {
         employee: user.displayName,
+        updatedAt: new Date().toISOString(),
+        updatedBy: userEmail,
       });
     } catch (error) {
       console.error('Error claiming ticket:', error);
@@ -206,6 +217,7 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
         status,
         notes,
         updatedAt: new Date().toISOString(),
+        updatedBy: userEmail,
       });
     } catch (error) {
       console.error('Error updating order:', error);
@@ -215,9 +227,45 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
     }
   };
 
+  // Supplier directory is only needed once someone opens the autocomplete
+  const loadSuppliers = () => {
+    if (suppliers.length > 0) return;
+    getSuppliers()
+      .then(setSuppliers)
+      .catch((error) => console.error('Error loading suppliers:', error));
+  };
+
+  // Picking a directory supplier fills in their contact and usual shipping if blank
+  const handleSupplierSelect = (name: string) => {
+    setSupplier(name);
+    const selected = findSupplierByName(suppliers, name);
+    if (!selected) return;
+
+    const contact = selected.contacts[0];
+    if (contact && !supplierContact && !supplierPhone) {
+      setSupplierContact(contact.name);
+      setSupplierPhone(contact.phone);
+    }
+    if (!shipPrice && selected.defaultTerms.defaultShipPrice !== null) {
+      setShipPrice(selected.defaultTerms.defaultShipPrice.toFixed(2));
+    }
+  };
+
   const handleUpdate = async () => {
-    // Check if status is changing TO 'return' from something else
-    if (status === 'return' && order.status !== 'return') {
+    const nextStatus = normalizeOrderStatus(status);
+    const transitionError = nextStatus && getTransitionError(order.status, nextStatus, { tracking, carrier, credited: order.credited });
+    if (transitionError) {
+      alert(transitionError);
+      return;
+    }
+
+    // Moving an order into 'return' opens a return ticket (with or without a replacement)
+    if (
+      nextStatus &&
+      nextStatus !== normalizeOrderStatus(order.status) &&
+      ORDER_STATUS_RULES[nextStatus].effects.includes('openReturnTicket') &&
+      (order._collection || 'orders') === 'orders'
+    ) {
       setReplacementDialogOpen(true);
       return;
     }
@@ -244,15 +292,17 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
           notes,
           returnedAt: new Date().toISOString(),
           originalOrderId: order.id,
+          updatedBy: userEmail,
         };
         const { id, ...returnDataWithoutId } = returnData;
         await addDoc(collection(db, 'returns'), returnDataWithoutId);
 
-        // Mark original order as 'return done' so it doesn't show in orders list
+        // Mark original order as 'return complete' so it doesn't show in orders list
         const orderRef = doc(db, 'orders', order.id);
         await updateDoc(orderRef, {
-          status: 'return done',
+          status: 'return complete',
           updatedAt: new Date().toISOString(),
+          updatedBy: userEmail,
         });
       } catch (error) {
         console.error('Error creating return ticket:', error);
@@ -280,6 +330,7 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
         notes,
         returnedAt: new Date().toISOString(),
         originalOrderId: order.id,
+        updatedBy: userEmail,
       };
       // Remove id field - Firestore will generate a new one
       const { id, ...returnDataWithoutId } = returnData;
@@ -297,12 +348,15 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
         supplierPhone: '',
         buyPrice: '',
         shipPrice: '',
+        // The replacement is sourced again - the old purchase order stays on the return ticket
+        purchaseOrder: deleteField(),
         // Keep employee assigned
         // Reset status
         status: 'not shipped',
         // Format notes
         notes: newNotes,
         updatedAt: new Date().toISOString(),
+        updatedBy: userEmail,
       });
 
       // 3. Update local state to reflect changes
@@ -325,14 +379,12 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
   };
 
   const handleDelete = async () => {
-    if (!window.confirm('Are you sure you want to delete this order?')) {
+    if (!window.confirm(`Move this order to the trash? It can be restored for ${TRASH_RETENTION_DAYS} days.`)) {
       return;
     }
     setIsDeleting(true);
     try {
-      const collectionName = order._collection || 'orders';
-      const orderRef = doc(db, collectionName, order.id);
-      await deleteDoc(orderRef);
+      await moveToTrash(order, userEmail);
     } catch (error) {
       console.error('Error deleting order:', error);
       alert('Failed to delete order. Please try again.');
@@ -353,7 +405,9 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
         tracking: trackingNumber,
         carrier: carrierName,
         shipPrice: shipPrice,
+        labelPurchasedAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
+        updatedBy: userEmail,
       });
 
       // Auto-refresh tracking status after a brief delay
@@ -551,12 +605,23 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
             </Box>
             <Box>
               <Typography sx={{ fontSize: '9px', color: '#71717a', textTransform: 'uppercase', mb: 0.5 }}>Supplier</Typography>
-              <TextField
+              <Autocomplete
+                freeSolo
                 size="small"
-                value={supplier}
-                onChange={(e) => setSupplier(e.target.value)}
-                fullWidth
-                sx={{ '& .MuiInputBase-input': { fontSize: '12px', py: 0.75 } }}
+                options={suppliers.map((s) => s.name)}
+                inputValue={supplier}
+                onInputChange={(_, value, reason) => {
+                  if (reason !== 'reset') setSupplier(value);
+                }}
+                onChange={(_, value) => handleSupplierSelect(value || '')}
+                onOpen={loadSuppliers}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    fullWidth
+                    sx={{ '& .MuiInputBase-input': { fontSize: '12px', py: '6px !important' } }}
+                  />
+                )}
               />
             </Box>
           </Box>
@@ -620,6 +685,9 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
               />
             </Box>
           </Box>
+
+          {(order._collection || 'orders') === 'orders' && <PurchaseOrderPanel order={order} />}
+          <ChangeHistoryPanel collectionName={order._collection || 'orders'} docId={order.id} />
         </Box>
       </Box>
 
@@ -674,6 +742,8 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
                 eta={trackingEta}
                 isLoading={isTrackingLoading}
                 onRefresh={() => fetchTrackingStatus(true)}
+                historyExpanded={trackingHistoryExpanded}
+                onToggleHistory={() => setTrackingHistoryExpanded(!trackingHistoryExpanded)}
               />
               <Box sx={{ width: '1px', height: 24, backgroundColor: '#52525b', mx: 1.5 }} />
             </>
@@ -684,16 +754,18 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
               Updated: {new Date(order.updatedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
             </Typography>
           )}
-          <Button
-            variant="contained"
-            color="error"
-            size="small"
-            onClick={handleDelete}
-            disabled={isDeleting}
-            sx={{ fontSize: '11px', fontWeight: 600, minWidth: 70 }}
-          >
-            {isDeleting ? <CircularProgress size={16} /> : 'DELETE'}
-          </Button>
+          {hasRole('manager') && (
+            <Button
+              variant="contained"
+              color="error"
+              size="small"
+              onClick={handleDelete}
+              disabled={isDeleting}
+              sx={{ fontSize: '11px', fontWeight: 600, minWidth: 70 }}
+            >
+              {isDeleting ? <CircularProgress size={16} /> : 'DELETE'}
+            </Button>
+          )}
           <Button
             variant="outlined"
             size="small"
@@ -746,7 +818,7 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
           </Button>
           <Select
             value={status}
-            onChange={(e) => setStatus(e.target.value as OrderStatus)}
+            onChange={(e) => setStatus(e.target.value)}
             size="small"
             sx={{
               fontSize: '11px',
@@ -758,20 +830,28 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
               '& .MuiOutlinedInput-notchedOutline': { border: 'none' },
             }}
           >
-            <MenuItem value="not shipped">NOT SHIPPED</MenuItem>
-            <MenuItem value="processing">PROCESSING</MenuItem>
-            <MenuItem value="shipped">SHIPPED</MenuItem>
-            <MenuItem value="delivered">DELIVERED</MenuItem>
-            <MenuItem value="completed">COMPLETED</MenuItem>
-            <MenuItem value="return">RETURN</MenuItem>
-            <MenuItem value="return delivered">RETURN DELIVERED</MenuItem>
-            <MenuItem value="refunded">REFUNDED</MenuItem>
-            <MenuItem value="return done">RETURN DONE</MenuItem>
-            <MenuItem value="return complete">RETURN COMPLETE</MenuItem>
+            {/* Only the statuses this order can move to from where it is */}
+            {getStatusOptions(order.status).map((option) => (
+              <MenuItem key={option} value={option}>{ORDER_STATUS_RULES[option].label}</MenuItem>
+            ))}
           </Select>
         </Box>
       </Box>
 
+      {/* Tracking checkpoint history */}
+      {order.tracking && (
+        <Collapse in={trackingHistoryExpanded} unmountOnExit>
+          <Box sx={{ px: 2, pb: 1.5, backgroundColor: '#0f0f10', borderTop: '1px solid #27272a' }}>
+            <TrackingTimeline
+              target={{ collection: order._collection || 'orders', docId: order.id }}
+              field="tracking"
+              trackingNumber={order.tracking || ''}
+              refreshKey={trackingLastChecked}
+            />
+          </Box>
+        </Collapse>
+      )}
+
       <CreateOrderDialog
         open={editDialogOpen}
         onClose={() => setEditDialogOpen(false)}
@@ -10,8 +10,13 @@ import {
   TextField,
   InputAdornment,
   IconButton,
+  Checkbox,
+  Select,
+  MenuItem,
+  Chip,
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
+import LocalShippingIcon from '@mui/icons-material/LocalShipping';
 import SearchIcon from '@mui/icons-material/Search';
 import ClearIcon from '@mui/icons-material/Clear';
 import {
@@ -20,6 +25,7 @@ import {
   where,
   onSnapshot,
   orderBy,
+  limit,
   Query,
   DocumentData,
   Timestamp,
@@ -29,9 +35,45 @@ import { Order } from '../../types';
 import { OrderCard } from './OrderCard';
 import { ReturnTicketCard } from './ReturnTicketCard';
 import { CreateOrderDialog } from './CreateOrderDialog';
+import { BatchShippingDialog } from '../Shipping/BatchShippingDialog';
 import { useAuth } from '../Auth/AuthContext';
-
-type FilterType = 'new' | 'notShipped' | 'returns' | 'all60Days' | 'all6Months' | 'all' | 'myOrders';
+import { searchOrdersAndReturns } from '../../services/search';
+import {
+  getTrackingException,
+  TRACKING_EXCEPTION_LABELS,
+  type TrackingExceptionType,
+} from '../../services/shippo';
+import { isPastExpectedArrival } from '../../services/purchaseOrders';
+import { isTrashed } from '../../services/trash';
+import { statusesInStages, getStatusStage } from '../../services/orderStatus';
+
+type FilterType = 'new' | 'notShipped' | 'returns' | 'exceptions' | 'waitingOnSupplier' | 'all60Days' | 'all6Months' | 'all' | 'myOrders';
+
+// Tracking statuses that can turn into an exception (everything but DELIVERED)
+const EXCEPTION_CANDIDATE_STATUSES = ['FAILURE', 'RETURNED', 'PRE_TRANSIT', 'TRANSIT', 'UNKNOWN'];
+
+// Cap on candidates loaded per collection for the Exceptions view
+const EXCEPTION_CANDIDATE_LIMIT = 500;
+
+// Orders in these statuses are closed out - their old tracking isn't actionable
+const CLOSED_ORDER_STATUSES = statusesInStages(['closed']);
+
+// Stored spellings (legacy included) for the status queries below
+const NOT_NEW_STATUSES = statusesInStages(['shipped', 'closed']);
+const NOT_OPEN_STATUSES = statusesInStages(['shipped', 'return', 'closed']);
+
+interface ShipmentException {
+  order: Order;
+  type: TrackingExceptionType;
+  direction: 'outbound' | 'return';
+}
+
+const EXCEPTION_COLORS: Record<TrackingExceptionType, string> = {
+  FAILURE: '#ef4444',
+  RETURNED: '#f97316',
+  STUCK_PRE_TRANSIT: '#eab308',
+  PAST_ETA: '#a855f7',
+};
 
 export const OrderList: React.FC = () => {
   const [orders, setOrders] = useState<Order[]>([]);
@@ -41,10 +83,27 @@ export const OrderList: React.FC = () => {
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  // Server-side search results (null when not searching)
+  const [searchResults, setSearchResults] = useState<Order[] | null>(null);
+  const [searchTotal, setSearchTotal] = useState(0);
+  const [searchNextOffset, setSearchNextOffset] = useState<number | null>(null);
+  const [searchTruncated, setSearchTruncated] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // Batch label selection (Not Shipped tab only)
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [batchDialogOpen, setBatchDialogOpen] = useState(false);
+  // Delivery exception candidates (only loaded while the Exceptions filter is open)
+  const [outboundCandidates, setOutboundCandidates] = useState<Order[]>([]);
+  const [returnCandidates, setReturnCandidates] = useState<Order[]>([]);
+  const [stuckDays, setStuckDays] = useState(3);
   const [counts, setCounts] = useState<Record<FilterType, number>>({
     new: 0,
     notShipped: 0,
     returns: 0,
+    exceptions: 0,
+    waitingOnSupplier: 0,
     all60Days: 0,
     all6Months: 0,
     all: 0,
@@ -55,17 +114,27 @@ export const OrderList: React.FC = () => {
   useEffect(() => {
     setLoading(true);
     setError(null);
+    setSelectMode(false);
+    setSelectedIds(new Set());
 
     const ordersRef = collection(db, 'orders');
     const returnsRef = collection(db, 'returns');
 
+    // Exceptions come from their own subscription below
+    if (filter === 'exceptions') {
+      setOrders([]);
+      setLoading(false);
+      return;
+    }
+
     // Special handling for returns filter - query both collections
     if (filter === 'returns') {
       let legacyOrders: Order[] = [];
       let returnsOrders: Order[] = [];
 
       const sortAndSetOrders = () => {
-        const combined = [...legacyOrders, ...returnsOrders];
+        // Trashed tickets live in the Trash view
+        const combined = [...legacyOrders, ...returnsOrders].filter((o) => !isTrashed(o));
         combined.sort((a, b) => {
           const dateA = new Date(a.paidDate || 0);
           const dateB = new Date(b.paidDate || 0);
@@ -120,7 +189,7 @@ export const OrderList: React.FC = () => {
           // Orders without an assigned employee
           q = query(
             ordersRef,
-            where('status', 'not-in', ['completed', 'shipped', 'return done', 'delivered', 'return complete'])
+            where('status', 'not-in', NOT_NEW_STATUSES)
           );
           break;
 
@@ -128,10 +197,15 @@ export const OrderList: React.FC = () => {
           // Orders not shipped yet
           q = query(
             ordersRef,
-            where('status', 'not-in', ['completed', 'shipped', 'return complete', 'return', 'delivered', 'return done'])
+            where('status', 'not-in', NOT_OPEN_STATUSES)
           );
           break;
 
+        case 'waitingOnSupplier':
+          // Purchase orders the supplier hasn't delivered yet - overdue ones are picked out below
+          q = query(ordersRef, where('purchaseOrder.awaitingSupplier', '==', true));
+          break;
+
         case 'all60Days':
           // Orders from last 60 days
           const sixtyDaysAgo = new Date();
@@ -174,6 +248,8 @@ export const OrderList: React.FC = () => {
           const orderData: Order[] = [];
           snapshot.forEach((doc) => {
             const data = doc.data();
+            // Trashed orders live in the Trash view
+            if (data.deletedAt) return;
             orderData.push({
               id: doc.id,
               ...data,
@@ -191,6 +267,10 @@ export const OrderList: React.FC = () => {
           let filteredData = orderData;
           if (filter === 'new') {
             filteredData = orderData.filter(order => !order.employee || order.employee.trim() === '' || order.employee.trim() === 'n/a');
+          } else if (filter === 'waitingOnSupplier') {
+            filteredData = orderData.filter(order =>
+              !CLOSED_ORDER_STATUSES.includes(order.status) && isPastExpectedArrival(order.purchaseOrder)
+            );
           }
 
           setOrders(filteredData);
@@ -211,13 +291,80 @@ export const OrderList: React.FC = () => {
     }
   }, [filter, user]);
 
+  // Subscribe to shipments that could be delivery exceptions while that filter is open
+  useEffect(() => {
+    if (filter !== 'exceptions') {
+      setOutboundCandidates([]);
+      setReturnCandidates([]);
+      return;
+    }
+
+    const outboundQuery = query(
+      collection(db, 'orders'),
+      where('trackingStatus', 'in', EXCEPTION_CANDIDATE_STATUSES),
+      limit(EXCEPTION_CANDIDATE_LIMIT)
+    );
+    const unsubscribeOutbound = onSnapshot(
+      outboundQuery,
+      (snapshot) => {
+        setOutboundCandidates(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data(), _collection: 'orders' } as Order)));
+      },
+      (err) => console.error('Error fetching outbound exceptions:', err)
+    );
+
+    const returnQuery = query(
+      collection(db, 'returns'),
+      where('returnTrackingStatus', 'in', EXCEPTION_CANDIDATE_STATUSES),
+      limit(EXCEPTION_CANDIDATE_LIMIT)
+    );
+    const unsubscribeReturns = onSnapshot(
+      returnQuery,
+      (snapshot) => {
+        setReturnCandidates(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data(), _collection: 'returns' } as Order)));
+      },
+      (err) => console.error('Error fetching return exceptions:', err)
+    );
+
+    return () => {
+      unsubscribeOutbound();
+      unsubscribeReturns();
+    };
+  }, [filter]);
+
+  const shipmentExceptions: ShipmentException[] = [];
+  for (const order of outboundCandidates) {
+    if (CLOSED_ORDER_STATUSES.includes(order.status) || isTrashed(order)) continue;
+    const type = getTrackingException(
+      order.trackingStatus,
+      order.trackingEta,
+      order.labelPurchasedAt || order.paidDate,
+      stuckDays
+    );
+    if (type) shipmentExceptions.push({ order, type, direction: 'outbound' });
+  }
+  for (const order of returnCandidates) {
+    if (CLOSED_ORDER_STATUSES.includes(order.status) || isTrashed(order)) continue;
+    const type = getTrackingException(
+      order.returnTrackingStatus,
+      order.returnTrackingEta,
+      order.returnedAt,
+      stuckDays
+    );
+    if (type) shipmentExceptions.push({ order, type, direction: 'return' });
+  }
+  const exceptionsByKey = new Map(
+    shipmentExceptions.map((e) => [`${e.order._collection}-${e.order.id}`, e])
+  );
+
   // Update counts when orders change
   useEffect(() => {
     // This is a simplified count update - in production you might want separate queries for accurate counts
     const newCounts: Record<FilterType, number> = {
       new: orders.filter(o => !o.employee || o.employee.trim() === '' || o.employee.trim() === 'n/a').length,
-      notShipped: orders.filter(o => !['completed', 'shipped', 'delivered', 'return done'].includes(o.status)).length,
-      returns: orders.filter(o => o.status === 'return').length,
+      notShipped: orders.filter(o => getStatusStage(o.status) === 'open').length,
+      returns: orders.filter(o => getStatusStage(o.status) === 'return').length,
+      exceptions: 0, // set from shipmentExceptions below
+      waitingOnSupplier: orders.filter(o => !CLOSED_ORDER_STATUSES.includes(o.status) && isPastExpectedArrival(o.purchaseOrder)).length,
       all60Days: orders.length,
       all6Months: orders.length,
       all: orders.length,
@@ -226,54 +373,109 @@ export const OrderList: React.FC = () => {
     setCounts(newCounts);
   }, [orders, user]);
 
-  // Debounce search term - only update filtered results after user stops typing
+  // Debounce search term - only query the search index after user stops typing
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedSearchTerm(searchTerm);
-    }, 200);
+    }, 300);
     return () => clearTimeout(timer);
   }, [searchTerm]);
 
+  // Search all orders and returns (all history, not just the loaded tab)
+  useEffect(() => {
+    const term = debouncedSearchTerm.trim();
+    if (!term) {
+      setSearchResults(null);
+      setSearchError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    setSearchError(null);
+
+    searchOrdersAndReturns(term)
+      .then((result) => {
+        if (cancelled) return;
+        setSearchResults(result.orders);
+        setSearchTotal(result.total);
+        setSearchNextOffset(result.nextOffset);
+        setSearchTruncated(result.truncated);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error searching orders:', err);
+        setSearchError('Search failed. Please try again.');
+        setSearchResults([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearchTerm]);
+
+  const handleLoadMoreResults = async () => {
+    if (searchNextOffset === null) return;
+    setIsSearching(true);
+    try {
+      const result = await searchOrdersAndReturns(debouncedSearchTerm.trim(), searchNextOffset);
+      setSearchResults((prev) => [...(prev || []), ...result.orders]);
+      setSearchTotal(result.total);
+      setSearchNextOffset(result.nextOffset);
+      setSearchTruncated(result.truncated);
+    } catch (err) {
+      console.error('Error loading more search results:', err);
+      setSearchError('Failed to load more results.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
   const filterButtons = [
     { key: 'new' as FilterType, label: 'New Orders' },
     { key: 'notShipped' as FilterType, label: 'Not Shipped' },
     { key: 'returns' as FilterType, label: 'Returns' },
+    { key: 'exceptions' as FilterType, label: 'Exceptions' },
+    { key: 'waitingOnSupplier' as FilterType, label: 'Waiting on Supplier' },
     { key: 'myOrders' as FilterType, label: 'My Orders' },
     { key: 'all60Days' as FilterType, label: 'All (60 Days)' },
     { key: 'all6Months' as FilterType, label: 'All (6 Months)' },
     { key: 'all' as FilterType, label: 'All Orders' },
   ];
 
-  // Filter orders by search term across all visible fields
-  const filterBySearch = (order: Order, term: string): boolean => {
-    if (!term.trim()) return true;
-    const lowerTerm = term.toLowerCase();
-    const searchableFields = [
-      order.orderNumber,
-      order.item,
-      order.buyerUsername,
-      order.shipName,
-      order.shipAddress,
-      order.shipAddress2,
-      order.shipCity,
-      order.shipState,
-      order.shipZip,
-      order.tracking,
-      order.carrier,
-      order.supplier,
-      order.supplierContact,
-      order.employee,
-      order.notes,
-      order.buyPrice,
-      order.shipPrice,
-      order.earnings,
-    ];
-    return searchableFields.some(field =>
-      field && String(field).toLowerCase().includes(lowerTerm)
-    );
+  const isSearchActive = searchResults !== null;
+  const isExceptionsView = filter === 'exceptions' && !isSearchActive;
+  const filteredOrders = isSearchActive
+    ? searchResults
+    : isExceptionsView
+      ? shipmentExceptions.map((e) => e.order)
+      : orders;
+  const filterCounts = { ...counts, exceptions: shipmentExceptions.length };
+
+  const canBatchShip = filter === 'notShipped' && !isSearchActive;
+  const selectedOrders = orders.filter((o) => selectedIds.has(o.id));
+  // Orders that still need a label
+  const unlabeledOrders = orders.filter((o) => !o.tracking);
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
   };
 
-  const filteredOrders = orders.filter(order => filterBySearch(order, debouncedSearchTerm));
+  const handleToggleSelectMode = () => {
+    setSelectMode((prev) => !prev);
+    setSelectedIds(new Set());
+  };
 
   if (loading) {
     return (
@@ -342,9 +544,9 @@ export const OrderList: React.FC = () => {
               }}
             >
               {label}
-              {counts[key] > 0 && !['all60Days', 'all6Months', 'all'].includes(key) && (
+              {filterCounts[key] > 0 && !['all60Days', 'all6Months', 'all'].includes(key) && (
                 <Badge
-                  badgeContent={counts[key]}
+                  badgeContent={filterCounts[key]}
                   color="error"
                   sx={{
                     position: 'absolute',
@@ -402,18 +604,87 @@ export const OrderList: React.FC = () => {
           }}
         />
 
-        <Typography sx={{ color: '#71717a', fontSize: '13px' }}>
-          {(() => {
-            const total = filteredOrders.reduce((sum, order) => {
-              const val = parseFloat(String(order.earnings || '0').replace(/[^0-9.-]/g, ''));
-              return sum + (isNaN(val) ? 0 : val);
-            }, 0);
-            const totalStr = `$${total.toFixed(2)}`;
-            return searchTerm
-              ? `${filteredOrders.length} of ${orders.length} orders match "${searchTerm}": Total ${totalStr}`
-              : `Showing ${filteredOrders.length} orders: Total ${totalStr}`;
-          })()}
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography sx={{ color: '#71717a', fontSize: '13px' }}>
+            {(() => {
+              const total = filteredOrders.reduce((sum, order) => {
+                const val = parseFloat(String(order.earnings || '0').replace(/[^0-9.-]/g, ''));
+                return sum + (isNaN(val) ? 0 : val);
+              }, 0);
+              const totalStr = `$${total.toFixed(2)}`;
+              return isSearchActive
+                ? `${searchTotal} orders and returns match "${debouncedSearchTerm}" (all history): Showing ${filteredOrders.length}, Total ${totalStr}`
+                : `Showing ${filteredOrders.length} orders: Total ${totalStr}`;
+            })()}
+          </Typography>
+          {isSearching && <CircularProgress size={14} />}
+          {canBatchShip && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, ml: 'auto' }}>
+              {selectMode && (
+                <>
+                  <Button
+                    size="small"
+                    onClick={() => setSelectedIds(
+                      selectedIds.size === unlabeledOrders.length && unlabeledOrders.length > 0
+                        ? new Set()
+                        : new Set(unlabeledOrders.map((o) => o.id))
+                    )}
+                    sx={{ fontSize: '12px', color: '#a1a1aa' }}
+                  >
+                    {selectedIds.size === unlabeledOrders.length && unlabeledOrders.length > 0
+                      ? 'Clear Selection'
+                      : `Select All Without Label (${unlabeledOrders.length})`}
+                  </Button>
+                  <Button
+                    size="small"
+                    variant="contained"
+                    startIcon={<LocalShippingIcon />}
+                    disabled={selectedIds.size === 0}
+                    onClick={() => setBatchDialogOpen(true)}
+                    sx={{ fontSize: '12px' }}
+                  >
+                    Buy {selectedIds.size} Label{selectedIds.size !== 1 ? 's' : ''}
+                  </Button>
+                </>
+              )}
+              <Button
+                size="small"
+                variant="outlined"
+                onClick={handleToggleSelectMode}
+                sx={{ fontSize: '12px', borderColor: '#27272a', color: '#a1a1aa' }}
+              >
+                {selectMode ? 'Cancel' : 'Batch Labels'}
+              </Button>
+            </Box>
+          )}
+        </Box>
+        {isExceptionsView && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+            <Typography sx={{ color: '#71717a', fontSize: '12px' }}>
+              Failed, returned to sender, past ETA, or in Pre Transit longer than
+            </Typography>
+            <Select
+              value={stuckDays}
+              onChange={(e) => setStuckDays(Number(e.target.value))}
+              size="small"
+              sx={{ fontSize: '12px', '& .MuiSelect-select': { py: 0.5 } }}
+            >
+              {[1, 2, 3, 5, 7].map((days) => (
+                <MenuItem key={days} value={days} sx={{ fontSize: '12px' }}>
+                  {days} day{days > 1 ? 's' : ''}
+                </MenuItem>
+              ))}
+            </Select>
+          </Box>
+        )}
+        {isSearchActive && searchTruncated && (
+          <Typography sx={{ color: '#f97316', fontSize: '12px', mt: 0.5 }}>
+            Too many matches to rank them all - add more words to narrow the search.
+          </Typography>
+        )}
+        {searchError && (
+          <Alert severity="error" sx={{ mt: 1 }}>{searchError}</Alert>
+        )}
       </Box>
 
       {filteredOrders.length === 0 ? (
@@ -425,24 +696,85 @@ export const OrderList: React.FC = () => {
             border: '1px solid #27272a',
           }}
         >
-          {searchTerm
-            ? `No orders match "${searchTerm}"`
+          {isSearchActive
+            ? `No orders or returns match "${debouncedSearchTerm}"`
             : 'No orders found for the selected filter.'}
         </Alert>
       ) : (
-        filteredOrders.map((order) =>
-          order._collection === 'returns' ? (
-            <ReturnTicketCard key={order.id} order={order} />
+        filteredOrders.map((order) => {
+          const exception = isExceptionsView
+            ? exceptionsByKey.get(`${order._collection}-${order.id}`)
+            : undefined;
+          const card = order._collection === 'returns' ? (
+            <ReturnTicketCard key={`returns-${order.id}`} order={order} />
+          ) : canBatchShip && selectMode ? (
+            <Box key={`orders-${order.id}`} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+              <Checkbox
+                checked={selectedIds.has(order.id)}
+                onChange={() => toggleSelected(order.id)}
+                size="small"
+                sx={{ mt: 1 }}
+              />
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <OrderCard order={order} />
+              </Box>
+            </Box>
           ) : (
-            <OrderCard key={order.id} order={order} />
-          )
-        )
+            <OrderCard key={`orders-${order.id}`} order={order} />
+          );
+
+          if (!exception) return card;
+          return (
+            <Box key={`exception-${order._collection}-${order.id}`}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                <Chip
+                  label={TRACKING_EXCEPTION_LABELS[exception.type]}
+                  size="small"
+                  sx={{
+                    height: '20px',
+                    fontSize: '10px',
+                    fontWeight: 600,
+                    backgroundColor: EXCEPTION_COLORS[exception.type],
+                    color: '#fff',
+                  }}
+                />
+                <Typography sx={{ fontSize: '11px', color: '#71717a' }}>
+                  {exception.direction === 'return' ? 'Return shipment' : 'Outbound shipment'}
+                </Typography>
+              </Box>
+              {card}
+            </Box>
+          );
+        })
+      )}
+
+      {isSearchActive && searchNextOffset !== null && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+          <Button
+            variant="outlined"
+            onClick={handleLoadMoreResults}
+            disabled={isSearching}
+            sx={{ fontSize: '12px', borderColor: '#27272a', color: '#a1a1aa' }}
+          >
+            {isSearching ? <CircularProgress size={16} /> : `Load more (${searchTotal - filteredOrders.length} remaining)`}
+          </Button>
+        </Box>
       )}
 
       <CreateOrderDialog
         open={createDialogOpen}
         onClose={() => setCreateDialogOpen(false)}
       />
+
+      <BatchShippingDialog
+        open={batchDialogOpen}
+        onClose={() => setBatchDialogOpen(false)}
+        orders={selectedOrders}
+        onComplete={() => {
+          setSelectMode(false);
+          setSelectedIds(new Set());
+        }}
+      />
     </Container>
   );
 };
\ No newline at end of file
@@ -0,0 +1,325 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  IconButton,
+  Collapse,
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import { useAuth } from '../Auth/AuthContext';
+import { TrackingProgressBar } from './TrackingProgressBar';
+import { TrackingTimeline } from './TrackingTimeline';
+import {
+  savePurchaseOrder,
+  refreshInboundTracking,
+  markPurchaseOrderReceived,
+  markPurchaseOrderInspected,
+  getPurchaseOrderStage,
+  isPastExpectedArrival,
+  PURCHASE_ORDER_STAGE_LABELS,
+} from '../../services/purchaseOrders';
+import { shouldFetchTracking } from '../../services/shippo';
+import { Order } from '../../types';
+import { PurchaseOrder, PurchaseOrderShipTo } from '../../types/purchaseOrder';
+
+interface PurchaseOrderPanelProps {
+  order: Order;
+}
+
+const labelSx = { fontSize: '9px', color: '#71717a', textTransform: 'uppercase', mb: 0.5 };
+const inputSx = { '& .MuiInputBase-input': { fontSize: '12px', py: 0.75 } };
+
+// Helper to show an ISO timestamp as a short date
+const formatShortDate = (iso?: string): string =>
+  iso ? new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : '';
+
+/**
+ * Purchase order for a sourced part: the supplier's order number, their
+ * shipment to us (or straight to the buyer), and receiving/inspection
+ */
+export const PurchaseOrderPanel: React.FC<PurchaseOrderPanelProps> = ({ order }) => {
+  const { user } = useAuth();
+  const [po, setPo] = useState<PurchaseOrder | undefined>(order.purchaseOrder);
+  const [expanded, setExpanded] = useState(false);
+  const [historyExpanded, setHistoryExpanded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTrackingLoading, setIsTrackingLoading] = useState(false);
+
+  // Editable fields
+  const [supplierOrderNumber, setSupplierOrderNumber] = useState(po?.supplierOrderNumber || '');
+  const [shipTo, setShipTo] = useState<PurchaseOrderShipTo>(po?.shipTo || 'us');
+  const [orderedAt, setOrderedAt] = useState(po?.orderedAt?.slice(0, 10) || '');
+  const [expectedArrival, setExpectedArrival] = useState(po?.expectedArrival || '');
+  const [inboundTracking, setInboundTracking] = useState(po?.inboundTracking || '');
+  const [inboundCarrier, setInboundCarrier] = useState(po?.inboundCarrier || '');
+  const [inspectionNotes, setInspectionNotes] = useState('');
+
+  const userEmail = user?.email || 'unknown';
+
+  // Refresh the supplier shipment if the cached status is stale
+  // (a fresh status arriving from the snapshot stops it running again)
+  useEffect(() => {
+    const current = order.purchaseOrder;
+    if (!current?.inboundCarrier || !current.awaitingSupplier) return;
+    if (!shouldFetchTracking(current.inboundTracking, current.inboundTrackingStatus, current.inboundTrackingLastChecked)) return;
+
+    refreshInboundTracking(order, current, userEmail)
+      .then(setPo)
+      .catch(() => {
+        // Silently fail - same as the outbound tracking refresh on the card
+      });
+  }, [order, userEmail]);
+
+  const runAction = async (action: () => Promise<PurchaseOrder>, failure: string) => {
+    setIsSaving(true);
+    try {
+      setPo(await action());
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(`${failure}. Please try again.`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    runAction(
+      () => savePurchaseOrder(
+        order,
+        {
+          supplierOrderNumber,
+          shipTo,
+          orderedAt: orderedAt ? new Date(`${orderedAt}T00:00:00`).toISOString() : undefined,
+          expectedArrival: expectedArrival || undefined,
+          inboundTracking,
+          inboundCarrier,
+        },
+        userEmail
+      ),
+      'Failed to save purchase order'
+    );
+
+  const handleRefreshTracking = async () => {
+    if (!po) return;
+    setIsTrackingLoading(true);
+    try {
+      setPo(await refreshInboundTracking(order, po, userEmail));
+    } catch (error) {
+      console.error('Error refreshing inbound tracking:', error);
+      alert('Failed to refresh supplier tracking. Check the tracking number and carrier.');
+    } finally {
+      setIsTrackingLoading(false);
+    }
+  };
+
+  const handleInspected = (result: 'passed' | 'failed') => {
+    if (!po) return;
+    runAction(
+      () => markPurchaseOrderInspected(order, po, { result, notes: inspectionNotes }, userEmail),
+      'Failed to record inspection'
+    );
+  };
+
+  const stage = po ? getPurchaseOrderStage(po) : null;
+  const overdue = isPastExpectedArrival(po);
+
+  return (
+    <Box sx={{ mt: 1.5, borderTop: '1px solid #27272a', pt: 1 }}>
+      <Box
+        sx={{ display: 'flex', alignItems: 'center', gap: 1, cursor: 'pointer' }}
+        onClick={() => setExpanded(!expanded)}
+      >
+        <IconButton
+          size="small"
+          sx={{
+            p: 0.25,
+            color: '#a1a1aa',
+            transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)',
+            transition: 'transform 0.2s',
+          }}
+        >
+          <ExpandMoreIcon sx={{ fontSize: 18 }} />
+        </IconButton>
+        <Typography sx={{ fontSize: '11px', color: '#a1a1aa', fontWeight: 500 }}>Purchase Order</Typography>
+        {po && stage ? (
+          <Typography sx={{ fontSize: '11px', color: overdue ? '#ef4444' : '#52525b' }}>
+            {[
+              po.supplierOrderNumber && `#${po.supplierOrderNumber}`,
+              po.shipTo === 'buyer' ? 'Drop-ship' : 'To us',
+              PURCHASE_ORDER_STAGE_LABELS[stage],
+              po.inspectionResult === 'failed' && 'Failed inspection',
+              po.expectedArrival && po.awaitingSupplier && `Expected ${po.expectedArrival}`,
+              overdue && 'Overdue',
+            ].filter(Boolean).join(' · ')}
+          </Typography>
+        ) : (
+          <Typography sx={{ fontSize: '11px', color: '#52525b' }}>None</Typography>
+        )}
+      </Box>
+
+      <Collapse in={expanded} unmountOnExit>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, mt: 1.5 }}>
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1.5fr 1fr 1fr 1fr', gap: 1.5 }}>
+            <Box>
+              <Typography sx={labelSx}>Supplier Order #</Typography>
+              <TextField
+                size="small"
+                value={supplierOrderNumber}
+                onChange={(e) => setSupplierOrderNumber(e.target.value)}
+                fullWidth
+                sx={inputSx}
+              />
+            </Box>
+            <Box>
+              <Typography sx={labelSx}>Ships To</Typography>
+              <Select
+                size="small"
+                value={shipTo}
+                onChange={(e) => setShipTo(e.target.value as PurchaseOrderShipTo)}
+                fullWidth
+                sx={{ fontSize: '12px', '& .MuiSelect-select': { py: 0.75 } }}
+              >
+                <MenuItem value="us">Us</MenuItem>
+                <MenuItem value="buyer">Buyer (drop-ship)</MenuItem>
+              </Select>
+            </Box>
+            <Box>
+              <Typography sx={labelSx}>Ordered</Typography>
+              <TextField
+                size="small"
+                type="date"
+                value={orderedAt}
+                onChange={(e) => setOrderedAt(e.target.value)}
+                fullWidth
+                sx={inputSx}
+              />
+            </Box>
+            <Box>
+              <Typography sx={labelSx}>Expected</Typography>
+              <TextField
+                size="small"
+                type="date"
+                value={expectedArrival}
+                onChange={(e) => setExpectedArrival(e.target.value)}
+                fullWidth
+                sx={inputSx}
+              />
+            </Box>
+          </Box>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: '2fr 1fr auto', gap: 1.5, alignItems: 'end' }}>
+            <Box>
+              <Typography sx={labelSx}>Inbound Tracking</Typography>
+              <TextField
+                size="small"
+                value={inboundTracking}
+                onChange={(e) => setInboundTracking(e.target.value)}
+                fullWidth
+                sx={inputSx}
+              />
+            </Box>
+            <Box>
+              <Typography sx={labelSx}>Carrier</Typography>
+              <TextField
+                size="small"
+                value={inboundCarrier}
+                onChange={(e) => setInboundCarrier(e.target.value)}
+                fullWidth
+                sx={inputSx}
+              />
+            </Box>
+            <Button
+              variant="contained"
+              size="small"
+              onClick={handleSave}
+              disabled={isSaving}
+              sx={{ fontSize: '12px', height: 32 }}
+            >
+              {po ? 'Save PO' : 'Create PO'}
+            </Button>
+          </Box>
+
+          {po?.inboundTracking && (
+            <Box>
+              <TrackingProgressBar
+                status={po.inboundTrackingStatus}
+                statusDetails={po.inboundTrackingStatusDetails}
+                eta={po.inboundTrackingEta}
+                isLoading={isTrackingLoading}
+                onRefresh={handleRefreshTracking}
+                lastChecked={po.inboundTrackingLastChecked}
+                historyExpanded={historyExpanded}
+                onToggleHistory={() => setHistoryExpanded(!historyExpanded)}
+              />
+              <Collapse in={historyExpanded} unmountOnExit>
+                <TrackingTimeline
+                  target={{ collection: 'orders', docId: order.id }}
+                  field="inboundTracking"
+                  trackingNumber={po.inboundTracking || ''}
+                  refreshKey={po.inboundTrackingLastChecked}
+                />
+              </Collapse>
+            </Box>
+          )}
+
+          {po?.shipTo === 'us' && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap' }}>
+              {po.receivedAt ? (
+                <Typography sx={{ fontSize: '11px', color: '#a1a1aa' }}>
+                  Received {formatShortDate(po.receivedAt)} by {po.receivedBy}
+                </Typography>
+              ) : (
+                <Button
+                  size="small"
+                  variant="outlined"
+                  onClick={() => runAction(() => markPurchaseOrderReceived(order, po, userEmail), 'Failed to mark received')}
+                  disabled={isSaving}
+                  sx={{ fontSize: '12px', borderColor: '#3f3f46', color: '#e4e4e7' }}
+                >
+                  Mark Received
+                </Button>
+              )}
+
+              {po.inspectedAt ? (
+                <Typography sx={{ fontSize: '11px', color: po.inspectionResult === 'failed' ? '#ef4444' : '#22c55e' }}>
+                  Inspection {po.inspectionResult} {formatShortDate(po.inspectedAt)} by {po.inspectedBy}
+                  {po.inspectionNotes && ` - ${po.inspectionNotes}`}
+                </Typography>
+              ) : (
+                <>
+                  <TextField
+                    size="small"
+                    placeholder="Inspection notes"
+                    value={inspectionNotes}
+                    onChange={(e) => setInspectionNotes(e.target.value)}
+                    sx={{ flex: 1, minWidth: 160, ...inputSx }}
+                  />
+                  <Button
+                    size="small"
+                    onClick={() => handleInspected('passed')}
+                    disabled={isSaving}
+                    sx={{ fontSize: '12px', color: '#22c55e' }}
+                  >
+                    Passed
+                  </Button>
+                  <Button
+                    size="small"
+                    onClick={() => handleInspected('failed')}
+                    disabled={isSaving}
+                    sx={{ fontSize: '12px', color: '#ef4444' }}
+                  >
+                    Failed
+                  </Button>
+                </>
+              )}
+            </Box>
+          )}
+        </Box>
+      </Collapse>
+    </Box>
+  );
+};
@@ -12,12 +12,25 @@ import {
   CircularProgress,
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
-import { doc, updateDoc, deleteDoc } from 'firebase/firestore';
+import LocalShippingIcon from '@mui/icons-material/LocalShipping';
+import { doc, updateDoc } from 'firebase/firestore';
 import { db } from '../../services/firebase';
 import { ItemProfileDialog } from './ItemProfileDialog';
 import { ClickableItemTitle } from './ClickableItemTitle';
-import { Order, OrderStatus } from '../../types';
+import { Order } from '../../types';
 import { TrackingProgressBar } from './TrackingProgressBar';
+import { TrackingTimeline } from './TrackingTimeline';
+import { ChangeHistoryPanel } from './ChangeHistoryPanel';
+import { moveToTrash, TRASH_RETENTION_DAYS } from '../../services/trash';
+import {
+  ORDER_STATUS_RULES,
+  normalizeOrderStatus,
+  getStatusLabel,
+  getStatusOptions,
+  getTransitionError,
+} from '../../services/orderStatus';
+import { ShippingDialog } from '../Shipping/ShippingDialog';
+import { useAuth } from '../Auth/AuthContext';
 import { getTrackingStatus, shouldFetchTracking, type TrackingStatus } from '../../services/shippo';
 
 interface ReturnTicketCardProps {
@@ -31,15 +44,6 @@ const getReturnStatusColor = (status: string): string => {
   return '#71717a'; // grey
 };
 
-const getReturnStatusLabel = (status: string): string => {
-  const labels: Record<string, string> = {
-    'return': 'RETURN',
-    'return delivered': 'RETURN DELIVERED',
-    'refunded': 'REFUNDED',
-  };
-  return labels[status] || status.toUpperCase();
-};
-
 const formatDate = (dateString?: string): string => {
   if (!dateString) return '—';
   try {
@@ -56,11 +60,16 @@ const formatCurrency = (value?: string): string => {
 };
 
 export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) => {
+  const { user, hasRole } = useAuth();
+  // Credited amounts and deletes are for managers
+  const isManager = hasRole('manager');
   const [notesExpanded, setNotesExpanded] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [itemProfileOpen, setItemProfileOpen] = useState(false);
   const [isTrackingLoading, setIsTrackingLoading] = useState(false);
+  const [trackingHistoryExpanded, setTrackingHistoryExpanded] = useState(false);
+  const [returnLabelDialogOpen, setReturnLabelDialogOpen] = useState(false);
   const [returnTrackingStatus, setReturnTrackingStatus] = useState<TrackingStatus | undefined>(order.returnTrackingStatus);
   const [returnTrackingStatusDetails, setReturnTrackingStatusDetails] = useState(order.returnTrackingStatusDetails);
   const [returnTrackingEta, setReturnTrackingEta] = useState(order.returnTrackingEta);
@@ -70,7 +79,7 @@ export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) =>
   const [returnTracking, setReturnTracking] = useState(order.returnTracking || '');
   const [returnCarrier, setReturnCarrier] = useState(order.returnCarrier || '');
   const [credited, setCredited] = useState(order.credited || '');
-  const [status, setStatus] = useState<OrderStatus>(order.status);
+  const [status, setStatus] = useState<string>(normalizeOrderStatus(order.status) || order.status);
   const [notes, setNotes] = useState(order.notes || '');
 
   // Fetch return tracking status from Shippo and cache in Firestore
@@ -83,7 +92,10 @@ export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) =>
 
     setIsTrackingLoading(true);
     try {
-      const result = await getTrackingStatus(order.returnCarrier, order.returnTracking);
+      const result = await getTrackingStatus(order.returnCarrier, order.returnTracking, {
+        collection: 'returns',
+        docId: order.id,
+      });
       const now = new Date().toISOString();
 
       // Update local state
@@ -119,16 +131,29 @@ export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) =>
   const employeeDisplay = order.employee?.replace('@pardical.com', '') || 'n/a';
 
   const handleUpdate = async () => {
+    const nextStatus = normalizeOrderStatus(status);
+    // Return tracking is what counts for a return ticket
+    const transitionError = nextStatus && getTransitionError(order.status, nextStatus, {
+      tracking: returnTracking,
+      carrier: returnCarrier,
+      credited,
+    });
+    if (transitionError) {
+      alert(transitionError);
+      return;
+    }
+
     setIsUpdating(true);
     try {
       const orderRef = doc(db, 'returns', order.id);
       await updateDoc(orderRef, {
         returnTracking,
         returnCarrier,
-        credited,
+        ...(isManager && { credited }),
         status,
         notes,
         updatedAt: new Date().toISOString(),
+        updatedBy: user?.email || 'unknown',
       });
     } catch (error) {
       console.error('Error updating return:', error);
@@ -138,14 +163,40 @@ export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) =>
     }
   };
 
+  const handleReturnLabelPurchased = async (
+    trackingNumber: string,
+    carrierName: string,
+    shipPrice: string,
+    labelUrl: string
+  ) => {
+    // Update local state
+    setReturnTracking(trackingNumber);
+    setReturnCarrier(carrierName);
+
+    // Save to Firestore
+    try {
+      const orderRef = doc(db, 'returns', order.id);
+      await updateDoc(orderRef, {
+        returnTracking: trackingNumber,
+        returnCarrier: carrierName,
+        returnLabelUrl: labelUrl,
+        returnShipPrice: shipPrice,
+        updatedAt: new Date().toISOString(),
+        updatedBy: user?.email || 'unknown',
+      });
+    } catch (error) {
+      console.error('Error saving return label to ticket:', error);
+      alert('Return label purchased but failed to save tracking to ticket. Please update manually.');
+    }
+  };
+
   const handleDelete = async () => {
-    if (!window.confirm('Are you sure you want to delete this return ticket?')) {
+    if (!window.confirm(`Move this return ticket to the trash? It can be restored for ${TRASH_RETENTION_DAYS} days.`)) {
       return;
     }
     setIsDeleting(true);
     try {
-      const orderRef = doc(db, 'returns', order.id);
-      await deleteDoc(orderRef);
+      await moveToTrash({ ...order, _collection: 'returns' }, user?.email || 'unknown');
     } catch (error) {
       console.error('Error deleting return:', error);
       alert('Failed to delete return. Please try again.');
@@ -183,7 +234,7 @@ export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) =>
               whiteSpace: 'nowrap',
             }}
           >
-            {getReturnStatusLabel(order.status)}
+            {getStatusLabel(order.status)}
           </Box>
           <Typography
             sx={{
@@ -326,19 +377,27 @@ export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) =>
             </Box>
           </Box>
 
-          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr', gap: 1.5 }}>
-            <Box>
-              <Typography sx={{ fontSize: '9px', color: '#71717a', textTransform: 'uppercase', mb: 0.5 }}>Credited Amount</Typography>
-              <TextField
-                size="small"
-                value={credited}
-                onChange={(e) => setCredited(e.target.value)}
-                placeholder="$ amount refunded by supplier"
-                fullWidth
-                sx={{ '& .MuiInputBase-input': { fontSize: '12px', py: 0.75 } }}
-              />
+          {isManager && (
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr', gap: 1.5 }}>
+              <Box>
+                <Typography sx={{ fontSize: '9px', color: '#71717a', textTransform: 'uppercase', mb: 0.5 }}>Credited Amount</Typography>
+                <TextField
+                  size="small"
+                  value={credited}
+                  onChange={(e) => setCredited(e.target.value)}
+                  placeholder="$ amount refunded by supplier"
+                  fullWidth
+                  sx={{ '& .MuiInputBase-input': { fontSize: '12px', py: 0.75 } }}
+                />
+              </Box>
             </Box>
-          </Box>
+          )}
+
+          <ChangeHistoryPanel
+            collectionName="returns"
+            docId={order.id}
+            hiddenFields={isManager ? undefined : ['credited']}
+          />
         </Box>
       </Box>
 
@@ -393,6 +452,8 @@ export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) =>
                 eta={returnTrackingEta}
                 isLoading={isTrackingLoading}
                 onRefresh={() => fetchReturnTrackingStatus(true)}
+                historyExpanded={trackingHistoryExpanded}
+                onToggleHistory={() => setTrackingHistoryExpanded(!trackingHistoryExpanded)}
               />
               <Box sx={{ width: '1px', height: 24, backgroundColor: '#52525b', mx: 1.5 }} />
             </>
@@ -403,16 +464,49 @@ export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) =>
               Updated: {new Date(order.updatedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
             </Typography>
           )}
-          <Button
-            variant="contained"
-            color="error"
-            size="small"
-            onClick={handleDelete}
-            disabled={isDeleting}
-            sx={{ fontSize: '11px', fontWeight: 600, minWidth: 70 }}
-          >
-            {isDeleting ? <CircularProgress size={16} /> : 'DELETE'}
-          </Button>
+          {isManager && (
+            <Button
+              variant="contained"
+              color="error"
+              size="small"
+              onClick={handleDelete}
+              disabled={isDeleting}
+              sx={{ fontSize: '11px', fontWeight: 600, minWidth: 70 }}
+            >
+              {isDeleting ? <CircularProgress size={16} /> : 'DELETE'}
+            </Button>
+          )}
+          {order.returnLabelUrl && (
+            <Button
+              variant="outlined"
+              size="small"
+              onClick={() => window.open(order.returnLabelUrl, '_blank')}
+              sx={{ fontSize: '11px', fontWeight: 600, minWidth: 70, borderColor: '#52525b', color: '#a1a1aa' }}
+            >
+              LABEL
+            </Button>
+          )}
+          {!order.returnTracking && (
+            <Button
+              variant="outlined"
+              size="small"
+              onClick={() => setReturnLabelDialogOpen(true)}
+              startIcon={<LocalShippingIcon sx={{ fontSize: 14 }} />}
+              sx={{
+                fontSize: '11px',
+                fontWeight: 600,
+                minWidth: 70,
+                borderColor: '#f97316',
+                color: '#f97316',
+                '&:hover': {
+                  borderColor: '#ea580c',
+                  backgroundColor: 'rgba(249, 115, 22, 0.1)',
+                },
+              }}
+            >
+              RETURN LABEL
+            </Button>
+          )}
           <Button
             variant="contained"
             color="primary"
@@ -425,7 +519,7 @@ export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) =>
           </Button>
           <Select
             value={status}
-            onChange={(e) => setStatus(e.target.value as OrderStatus)}
+            onChange={(e) => setStatus(e.target.value)}
             size="small"
             sx={{
               fontSize: '11px',
@@ -437,13 +531,35 @@ export const ReturnTicketCard: React.FC<ReturnTicketCardProps> = ({ order }) =>
               '& .MuiOutlinedInput-notchedOutline': { border: 'none' },
             }}
           >
-            <MenuItem value="return">RETURN</MenuItem>
-            <MenuItem value="return delivered">RETURN DELIVERED</MenuItem>
-            <MenuItem value="refunded">REFUNDED</MenuItem>
+            {getStatusOptions(order.status).map((option) => (
+              <MenuItem key={option} value={option}>{ORDER_STATUS_RULES[option].label}</MenuItem>
+            ))}
           </Select>
         </Box>
       </Box>
 
+      {/* Return tracking checkpoint history */}
+      {order.returnTracking && (
+        <Collapse in={trackingHistoryExpanded} unmountOnExit>
+          <Box sx={{ px: 2, pb: 1.5, backgroundColor: '#0f0f10', borderTop: '1px solid #27272a' }}>
+            <TrackingTimeline
+              target={{ collection: 'returns', docId: order.id }}
+              field="returnTracking"
+              trackingNumber={order.returnTracking || ''}
+              refreshKey={returnTrackingLastChecked}
+            />
+          </Box>
+        </Collapse>
+      )}
+
+      <ShippingDialog
+        open={returnLabelDialogOpen}
+        onClose={() => setReturnLabelDialogOpen(false)}
+        order={order}
+        mode="return"
+        onLabelPurchased={handleReturnLabelPurchased}
+      />
+
       <ItemProfileDialog
         open={itemProfileOpen}
         onClose={() => setItemProfileOpen(false)}
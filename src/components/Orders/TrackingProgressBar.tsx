@@ -2,6 +2,7 @@ import React from 'react';
 import { Box, Typography, IconButton, CircularProgress, Tooltip } from '@mui/material';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import TimelineIcon from '@mui/icons-material/Timeline';
 import type { TrackingStatus } from '../../services/shippo';
 
 interface TrackingProgressBarProps {
@@ -11,6 +12,8 @@ interface TrackingProgressBarProps {
   isLoading?: boolean;
   onRefresh?: () => void;
   lastChecked?: string;
+  historyExpanded?: boolean;
+  onToggleHistory?: () => void;
 }
 
 const STEPS = [
@@ -56,6 +59,8 @@ export const TrackingProgressBar: React.FC<TrackingProgressBarProps> = ({
   eta,
   isLoading,
   onRefresh,
+  historyExpanded,
+  onToggleHistory,
 }) => {
   const currentStep = getStepFromStatus(status);
   const isDelivered = status === 'DELIVERED';
@@ -150,6 +155,23 @@ export const TrackingProgressBar: React.FC<TrackingProgressBarProps> = ({
           )}
         </IconButton>
       )}
+
+      {/* Checkpoint history toggle */}
+      {onToggleHistory && (
+        <Tooltip title={historyExpanded ? 'Hide tracking history' : 'Show tracking history'}>
+          <IconButton
+            size="small"
+            onClick={onToggleHistory}
+            sx={{
+              color: historyExpanded ? '#60a5fa' : '#52525b',
+              p: 0.25,
+              '&:hover': { color: historyExpanded ? '#93c5fd' : '#71717a' },
+            }}
+          >
+            <TimelineIcon sx={{ fontSize: 14 }} />
+          </IconButton>
+        </Tooltip>
+      )}
     </Box>
   );
 };
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Typography, CircularProgress } from '@mui/material';
+import { getTrackingEvents, type TrackingTarget } from '../../services/shippo';
+import { TrackingEvent } from '../../types';
+
+interface TrackingTimelineProps {
+  target: TrackingTarget;
+  field: TrackingEvent['field'];
+  trackingNumber: string;
+  refreshKey?: string; // reload when this changes (e.g. trackingLastChecked)
+}
+
+const STATUS_COLORS: Record<TrackingEvent['status'], string> = {
+  PRE_TRANSIT: '#71717a',
+  TRANSIT: '#3b82f6',
+  DELIVERED: '#22c55e',
+  RETURNED: '#f97316',
+  FAILURE: '#ef4444',
+  UNKNOWN: '#52525b',
+};
+
+const STATUS_LABELS: Record<TrackingEvent['status'], string> = {
+  PRE_TRANSIT: 'Pre Transit',
+  TRANSIT: 'In Transit',
+  DELIVERED: 'Delivered',
+  RETURNED: 'Returned',
+  FAILURE: 'Failure',
+  UNKNOWN: 'Unknown',
+};
+
+function formatEventDate(date: string | null): string {
+  if (!date) return '';
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return '';
+  return parsed.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function formatLocation(location: TrackingEvent['location']): string {
+  if (!location) return '';
+  return [location.city, location.state, location.zip].filter(Boolean).join(', ');
+}
+
+/**
+ * Vertical checkpoint timeline for one shipment, newest at the top
+ * Shows where a package stalled when a buyer says it never arrived
+ */
+export const TrackingTimeline: React.FC<TrackingTimelineProps> = ({ target, field, trackingNumber, refreshKey }) => {
+  const [events, setEvents] = useState<TrackingEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { collection: targetCollection, docId } = target;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getTrackingEvents({ collection: targetCollection, docId }, field, trackingNumber)
+      .then((result) => {
+        if (!cancelled) setEvents(result);
+      })
+      .catch((err) => {
+        console.error('Error loading tracking history:', err);
+        if (!cancelled) setError('Failed to load tracking history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [targetCollection, docId, field, trackingNumber, refreshKey]);
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 1.5 }}>
+        <CircularProgress size={16} />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Typography sx={{ fontSize: '11px', color: '#ef4444', py: 1 }}>{error}</Typography>;
+  }
+
+  if (events.length === 0) {
+    return (
+      <Typography sx={{ fontSize: '11px', color: '#52525b', py: 1 }}>
+        No tracking checkpoints yet. Refresh tracking to load the carrier history.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ py: 1 }}>
+      {events.map((event, index) => {
+        const color = STATUS_COLORS[event.status] || STATUS_COLORS.UNKNOWN;
+        const isLast = index === events.length - 1;
+        const location = formatLocation(event.location);
+
+        return (
+          <Box key={event.id} sx={{ display: 'flex', gap: 1.5 }}>
+            {/* Dot + connector */}
+            <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', pt: 0.5 }}>
+              <Box
+                sx={{
+                  width: 8,
+                  height: 8,
+                  borderRadius: '50%',
+                  backgroundColor: index === 0 ? color : 'transparent',
+                  border: `2px solid ${color}`,
+                  flexShrink: 0,
+                }}
+              />
+              {!isLast && <Box sx={{ width: '1px', flex: 1, backgroundColor: '#3f3f46', my: 0.25 }} />}
+            </Box>
+
+            <Box sx={{ pb: isLast ? 0 : 1.25, minWidth: 0 }}>
+              <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1, flexWrap: 'wrap' }}>
+                <Typography sx={{ fontSize: '11px', fontWeight: 600, color }}>
+                  {STATUS_LABELS[event.status] || event.status}
+                  {event.substatus && ` - ${event.substatus}`}
+                </Typography>
+                <Typography sx={{ fontSize: '10px', color: '#71717a' }}>
+                  {formatEventDate(event.statusDate)}
+                </Typography>
+              </Box>
+              {event.statusDetails && (
+                <Typography sx={{ fontSize: '11px', color: '#a1a1aa' }}>{event.statusDetails}</Typography>
+              )}
+              {location && (
+                <Typography sx={{ fontSize: '10px', color: '#52525b' }}>{location}</Typography>
+              )}
+            </Box>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Button,
+  Chip,
+} from '@mui/material';
+import { useAuth } from '../Auth/AuthContext';
+import {
+  subscribeToTrash,
+  restoreFromTrash,
+  getPurgeDate,
+  TRASH_RETENTION_DAYS,
+} from '../../services/trash';
+import { Order } from '../../types';
+
+/**
+ * Orders and return tickets deleted from their cards
+ * Restoring puts them back in the lists (and the sale back in item stats);
+ * anything left here is purged after the retention period
+ */
+export const TrashList: React.FC = () => {
+  const { user } = useAuth();
+  const [trashed, setTrashed] = useState<Order[] | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToTrash(setTrashed);
+    return () => unsubscribe();
+  }, []);
+
+  const handleRestore = async (order: Order) => {
+    setRestoringId(order.id);
+    try {
+      await restoreFromTrash(order, user?.email || 'unknown');
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      alert('Failed to restore. Please try again.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Box mb={2}>
+        <Typography variant="h4" gutterBottom>
+          Trash
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Deleted orders and returns are kept for {TRASH_RETENTION_DAYS} days, then removed for good
+        </Typography>
+      </Box>
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Order</TableCell>
+              <TableCell>Item</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Deleted</TableCell>
+              <TableCell>Purged</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {trashed === null ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                    Loading...
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : trashed.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                    The trash is empty
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              trashed.map((order) => (
+                <TableRow key={`${order._collection}-${order.id}`} hover>
+                  <TableCell>
+                    <Typography variant="body2">{order.orderNumber}</Typography>
+                    {order._collection === 'returns' && (
+                      <Chip label="Return" size="small" sx={{ mt: 0.5, height: 18, fontSize: '10px' }} />
+                    )}
+                  </TableCell>
+                  <TableCell sx={{ maxWidth: 320 }}>
+                    <Typography variant="body2" noWrap>{order.item}</Typography>
+                    <Typography variant="caption" color="text.secondary">{order.buyerUsername}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{order.status}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">
+                      {order.deletedAt && new Date(order.deletedAt).toLocaleDateString()}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">{order.deletedBy}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2" color="text.secondary">
+                      {getPurgeDate(order)?.toLocaleDateString()}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      onClick={() => handleRestore(order)}
+                      disabled={restoringId === order.id}
+                    >
+                      Restore
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Container>
+  );
+};
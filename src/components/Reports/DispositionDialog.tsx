@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  TextField,
+  MenuItem,
+  Typography,
+} from '@mui/material';
+import { useAuth } from '../Auth/AuthContext';
+import { createDisposition, DISPOSITION_ACTION_LABELS } from '../../services/dispositions';
+import { markItemReviewed, formatCurrency } from '../../services/staleItems';
+import { ActiveDisposition, DispositionAction } from '../../types/disposition';
+import { ItemStats } from '../../types/staleItems';
+
+interface DispositionDialogProps {
+  open: boolean;
+  item: ItemStats | null;
+  onClose: () => void;
+  onSaved: (activeDisposition?: ActiveDisposition) => void;
+}
+
+const DEFAULT_DEADLINE_DAYS = 30;
+
+// Helper to get a YYYY-MM-DD date N days from today
+const getDateInDays = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().substring(0, 10);
+};
+
+/**
+ * Decide what to do with a dead-stock item when reviewing it
+ * Reviewing without a disposition is still allowed
+ */
+export const DispositionDialog: React.FC<DispositionDialogProps> = ({ open, item, onClose, onSaved }) => {
+  const { user } = useAuth();
+  const [action, setAction] = useState<DispositionAction>('markdown');
+  const [targetPrice, setTargetPrice] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setAction('markdown');
+      setTargetPrice(item?.targetListingPrice ? item.targetListingPrice.toFixed(2) : '');
+      setDeadline(getDateInDays(DEFAULT_DEADLINE_DAYS));
+      setNotes('');
+    }
+  }, [open, item]);
+
+  if (!item) return null;
+
+  const parsedPrice = targetPrice.trim() ? parseFloat(targetPrice) : null;
+  const priceValid = parsedPrice === null || (!isNaN(parsedPrice) && parsedPrice >= 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const id = await createDisposition(
+        item,
+        { action, targetPrice: parsedPrice, deadline, notes },
+        user?.email || 'unknown'
+      );
+      onSaved({ id, action, targetPrice: parsedPrice, deadline });
+      onClose();
+    } catch (error) {
+      console.error('Error saving disposition:', error);
+      alert('Failed to save disposition. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReviewOnly = async () => {
+    setSaving(true);
+    try {
+      await markItemReviewed(item.id);
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error marking item reviewed:', error);
+      alert('Failed to update review status. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Review Dead Stock</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" sx={{ mb: 0.5 }}>
+          {item.itemName}
+        </Typography>
+        <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 2 }}>
+          {item.daysSinceLastSale} days since last sale
+          {item.pricingData && ` · market avg ${formatCurrency(item.pricingData.avgPrice)}`}
+        </Typography>
+        <Box display="flex" flexDirection="column" gap={2}>
+          <TextField
+            select
+            label="Action"
+            size="small"
+            value={action}
+            onChange={(e) => setAction(e.target.value as DispositionAction)}
+          >
+            {(Object.keys(DISPOSITION_ACTION_LABELS) as DispositionAction[]).map((key) => (
+              <MenuItem key={key} value={key}>
+                {DISPOSITION_ACTION_LABELS[key]}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Box display="flex" gap={2}>
+            <TextField
+              label="Target price"
+              size="small"
+              value={targetPrice}
+              onChange={(e) => setTargetPrice(e.target.value)}
+              error={!priceValid}
+              helperText={action === 'scrap' ? 'Optional for scrap' : undefined}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              label="Deadline"
+              type="date"
+              size="small"
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              sx={{ flex: 1 }}
+            />
+          </Box>
+          <TextField
+            label="Notes"
+            size="small"
+            multiline
+            minRows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleReviewOnly} disabled={saving} sx={{ mr: 'auto' }}>
+          Just Mark Reviewed
+        </Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving || !priceValid || !deadline}>
+          {saving ? 'Saving...' : 'Save Disposition'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,283 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Chip,
+  Button,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+} from '@mui/material';
+import { useAuth } from '../Auth/AuthContext';
+import {
+  subscribeToDispositions,
+  closeDisposition,
+  getDaysUntilDeadline,
+  getDispositionStatusColor,
+  DISPOSITION_ACTION_LABELS,
+} from '../../services/dispositions';
+import { formatCurrency } from '../../services/staleItems';
+import { Disposition, DispositionAction, DispositionStatus } from '../../types/disposition';
+
+type StatusFilter = DispositionStatus | 'all';
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'open', label: 'Open' },
+  { value: 'sold', label: 'Sold' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'closed', label: 'Closed' },
+];
+
+// Describe what happened after the disposition date
+const describeOutcome = (disposition: Disposition): string => {
+  const { outcome } = disposition;
+  switch (disposition.status) {
+    case 'sold':
+      return `Sold for ${formatCurrency(outcome?.salePrice || 0)} after ${outcome?.daysToSale ?? 0} days` +
+        (outcome?.soldAfterDeadline ? ' (past deadline)' : '');
+    case 'expired':
+      return 'No sale by deadline';
+    case 'closed':
+      return outcome?.recoveredAmount !== null && outcome?.recoveredAmount !== undefined
+        ? `Closed - recovered ${formatCurrency(outcome.recoveredAmount)}`
+        : 'Closed';
+    default: {
+      const daysLeft = getDaysUntilDeadline(disposition.deadline);
+      return daysLeft === 0 ? 'Due today' : `${daysLeft} days left`;
+    }
+  }
+};
+
+/**
+ * Follow-up on dead-stock dispositions: did the item sell after we decided
+ * what to do with it? Sales resolve dispositions automatically; scrap and yard
+ * outcomes are closed here by hand.
+ */
+export const DispositionFollowUp: React.FC = () => {
+  const { user } = useAuth();
+  const [dispositions, setDispositions] = useState<Disposition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [closing, setClosing] = useState<Disposition | null>(null);
+  const [recoveredAmount, setRecoveredAmount] = useState('');
+  const [closeNote, setCloseNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToDispositions((updated) => {
+      setDispositions(updated);
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const filtered = useMemo(
+    () => statusFilter === 'all'
+      ? dispositions
+      : dispositions.filter((disposition) => disposition.status === statusFilter),
+    [dispositions, statusFilter]
+  );
+
+  // Sell-through per action, counting only dispositions that have finished
+  const actionSummary = useMemo(() => {
+    const summary = new Map<DispositionAction, { sold: number; finished: number }>();
+    dispositions.forEach((disposition) => {
+      if (disposition.status === 'open') return;
+      const entry = summary.get(disposition.action) || { sold: 0, finished: 0 };
+      entry.finished++;
+      if (disposition.status === 'sold') entry.sold++;
+      summary.set(disposition.action, entry);
+    });
+    return summary;
+  }, [dispositions]);
+
+  const openCloseDialog = (disposition: Disposition) => {
+    setClosing(disposition);
+    setRecoveredAmount('');
+    setCloseNote('');
+  };
+
+  const parsedAmount = recoveredAmount.trim() ? parseFloat(recoveredAmount) : null;
+  const amountValid = parsedAmount === null || (!isNaN(parsedAmount) && parsedAmount >= 0);
+
+  const handleClose = async () => {
+    if (!closing) return;
+    setSaving(true);
+    try {
+      await closeDisposition(
+        closing,
+        { recoveredAmount: parsedAmount, note: closeNote },
+        user?.email || 'unknown'
+      );
+      setClosing(null);
+    } catch (error) {
+      console.error('Error closing disposition:', error);
+      alert('Failed to close disposition. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Box mb={2}>
+        <Typography variant="h4" gutterBottom>
+          Dead Stock Dispositions
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          What was decided for each stale item and whether it sold afterwards
+        </Typography>
+      </Box>
+
+      <Box display="flex" gap={1} mb={2} flexWrap="wrap" alignItems="center">
+        {STATUS_FILTERS.map((filter) => (
+          <Chip
+            key={filter.value}
+            label={filter.label}
+            size="small"
+            onClick={() => setStatusFilter(filter.value)}
+            color={statusFilter === filter.value ? 'primary' : 'default'}
+            variant={statusFilter === filter.value ? 'filled' : 'outlined'}
+          />
+        ))}
+        <Box sx={{ ml: 'auto', display: 'flex', gap: 1 }}>
+          {Array.from(actionSummary.entries()).map(([action, entry]) => (
+            <Chip
+              key={action}
+              label={`${DISPOSITION_ACTION_LABELS[action]}: ${entry.sold}/${entry.finished} sold`}
+              size="small"
+              variant="outlined"
+            />
+          ))}
+        </Box>
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Item</TableCell>
+                <TableCell>Action</TableCell>
+                <TableCell align="right">Target</TableCell>
+                <TableCell>Decided</TableCell>
+                <TableCell>Deadline</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Outcome</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center">
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                      No dispositions yet. Check Reviewed on a stale item to record one.
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filtered.map((disposition) => (
+                  <TableRow key={disposition.id} hover>
+                    <TableCell sx={{ maxWidth: 280 }}>
+                      <Typography variant="body2" noWrap title={disposition.itemName}>
+                        {disposition.itemName}
+                      </Typography>
+                      {disposition.notes && (
+                        <Typography variant="caption" color="text.secondary" noWrap display="block">
+                          {disposition.notes}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{DISPOSITION_ACTION_LABELS[disposition.action]}</TableCell>
+                    <TableCell align="right">
+                      {disposition.targetPrice !== null ? formatCurrency(disposition.targetPrice) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{disposition.decidedAt.toLocaleDateString()}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {disposition.decidedBy}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{disposition.deadline}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={disposition.status}
+                        size="small"
+                        color={getDispositionStatusColor(disposition.status)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{describeOutcome(disposition)}</Typography>
+                      {disposition.outcome?.note && (
+                        <Typography variant="caption" color="text.secondary">
+                          {disposition.outcome.note}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      {(disposition.status === 'open' || disposition.status === 'expired') && (
+                        <Button size="small" onClick={() => openCloseDialog(disposition)}>
+                          Close
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={!!closing} onClose={() => setClosing(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Close Disposition</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {closing?.itemName}
+          </Typography>
+          <Box display="flex" flexDirection="column" gap={2}>
+            <TextField
+              label="Amount recovered"
+              size="small"
+              value={recoveredAmount}
+              onChange={(e) => setRecoveredAmount(e.target.value)}
+              error={!amountValid}
+              helperText="Scrap or yard value, if any"
+            />
+            <TextField
+              label="Note"
+              size="small"
+              multiline
+              minRows={2}
+              value={closeNote}
+              onChange={(e) => setCloseNote(e.target.value)}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setClosing(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleClose} disabled={saving || !amountValid}>
+            {saving ? 'Saving...' : 'Close Disposition'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+};
@@ -45,8 +45,8 @@ export const EmployeeReport: React.FC = () => {
           const data = doc.data();
           const employee = data.employee;
           
-          // Only count if employee exists and is not 'n/a'
-          if (employee && employee.trim() !== '' && employee.trim() !== 'n/a') {
+          // Only count if employee exists and is not 'n/a' (and the order isn't trashed)
+          if (employee && employee.trim() !== '' && employee.trim() !== 'n/a' && !data.deletedAt) {
             const currentCount = employeeMap.get(employee) || 0;
             employeeMap.set(employee, currentCount + 1);
           }
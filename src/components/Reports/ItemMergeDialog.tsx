@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  TextField,
+  Typography,
+  Autocomplete,
+  Chip,
+  Alert,
+  Divider,
+} from '@mui/material';
+import {
+  subscribeToItemAliases,
+  mergeItems,
+  addItemAlias,
+  removeItemAlias,
+} from '../../services/itemAliases';
+import { getItemStats } from '../../services/staleItems';
+import { ItemAlias } from '../../types/itemAlias';
+import { ItemStats } from '../../types/staleItems';
+
+interface ItemMergeDialogProps {
+  open: boolean;
+  item: ItemStats | null;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+// Callable errors carry the server message - show it instead of a generic failure
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+/**
+ * Merge duplicate listings of the same part into one item and manage the
+ * titles (aliases) that resolve to it
+ */
+export const ItemMergeDialog: React.FC<ItemMergeDialogProps> = ({
+  open,
+  item,
+  onClose,
+  onMerged,
+}) => {
+  const [aliases, setAliases] = useState<ItemAlias[]>([]);
+  const [candidates, setCandidates] = useState<ItemStats[]>([]);
+  const [loadingCandidates, setLoadingCandidates] = useState(false);
+  const [selected, setSelected] = useState<ItemStats[]>([]);
+  const [aliasName, setAliasName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !item) return;
+    setSelected([]);
+    setAliasName('');
+    setError(null);
+    const unsubscribe = subscribeToItemAliases(item.id, setAliases);
+    return () => unsubscribe();
+  }, [open, item]);
+
+  // Duplicates are often low-volume listings the report filters out, so search every item
+  useEffect(() => {
+    if (!open) return;
+    setLoadingCandidates(true);
+    getItemStats()
+      .then(setCandidates)
+      .catch((err) => console.error('Error loading items for merge:', err))
+      .finally(() => setLoadingCandidates(false));
+  }, [open]);
+
+  if (!item) return null;
+
+  const mergedSales = selected.reduce((sum, source) => sum + source.totalSold, 0);
+
+  const handleMerge = async () => {
+    const titles = selected.map((source) => `- ${source.itemName}`).join('\n');
+    if (!confirm(`Merge into "${item.itemName}"?\n\n${titles}\n\nThe merged items are removed and their titles become aliases.`)) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await mergeItems(item.id, selected.map((source) => source.id));
+      alert(`Merged ${result.merged} item(s).\n\nSales moved: ${result.salesMoved}`);
+      setSelected([]);
+      onMerged();
+    } catch (err) {
+      console.error('Error merging items:', err);
+      setError(getErrorMessage(err, 'Failed to merge items'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddAlias = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await addItemAlias(item.id, aliasName);
+      setAliasName('');
+    } catch (err) {
+      console.error('Error adding alias:', err);
+      setError(getErrorMessage(err, 'Failed to add alias'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveAlias = async (alias: ItemAlias) => {
+    if (!confirm(`Stop matching "${alias.aliasName}" to this item?\n\nAlready merged sales stay here.`)) return;
+    try {
+      await removeItemAlias(alias.aliasId);
+    } catch (err) {
+      console.error('Error removing alias:', err);
+      setError(getErrorMessage(err, 'Failed to remove alias'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Merge & Aliases</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" sx={{ mb: 0.5 }}>
+          {item.itemName}
+        </Typography>
+        <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 2 }}>
+          {item.totalSold} sold · ID {item.id}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" gutterBottom>
+          Merge duplicates into this item
+        </Typography>
+        <Autocomplete
+          multiple
+          size="small"
+          options={candidates.filter((candidate) => candidate.id !== item.id)}
+          loading={loadingCandidates}
+          value={selected}
+          onChange={(_, value) => setSelected(value)}
+          getOptionLabel={(option) => option.itemName}
+          isOptionEqualToValue={(option, value) => option.id === value.id}
+          renderOption={(props, option) => (
+            <li {...props} key={option.id}>
+              <Box>
+                <Typography variant="body2">{option.itemName}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {option.totalSold} sold
+                </Typography>
+              </Box>
+            </li>
+          )}
+          renderInput={(params) => <TextField {...params} placeholder="Search items..." />}
+        />
+        <Box display="flex" justifyContent="space-between" alignItems="center" mt={1}>
+          <Typography variant="caption" color="text.secondary">
+            {selected.length > 0
+              ? `${mergedSales} sales from ${selected.length} item(s) will move here`
+              : 'Sales, price history, eBay metrics and item profiles are combined'}
+          </Typography>
+          <Button
+            variant="contained"
+            size="small"
+            onClick={handleMerge}
+            disabled={saving || selected.length === 0}
+          >
+            {saving ? 'Working...' : 'Merge'}
+          </Button>
+        </Box>
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="subtitle2" gutterBottom>
+          Titles that resolve to this item
+        </Typography>
+        <Box display="flex" gap={1} flexWrap="wrap" mb={1.5}>
+          {aliases.length === 0 ? (
+            <Typography variant="caption" color="text.secondary">
+              No aliases yet
+            </Typography>
+          ) : (
+            aliases.map((alias) => (
+              <Chip
+                key={alias.id}
+                label={alias.aliasName}
+                size="small"
+                variant={alias.source === 'merge' ? 'filled' : 'outlined'}
+                title={`${alias.source === 'merge' ? 'Merged' : 'Added'} by ${alias.createdBy} on ${alias.createdAt.toLocaleDateString()}`}
+                onDelete={() => handleRemoveAlias(alias)}
+              />
+            ))
+          )}
+        </Box>
+        <Box display="flex" gap={1}>
+          <TextField
+            size="small"
+            label="Add title"
+            value={aliasName}
+            onChange={(e) => setAliasName(e.target.value)}
+            helperText="For a new listing title that hasn't sold yet"
+            sx={{ flex: 1 }}
+          />
+          <Button onClick={handleAddAlias} disabled={saving || !aliasName.trim()} sx={{ alignSelf: 'flex-start' }}>
+            Add
+          </Button>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -39,7 +39,8 @@ export const ItemReport: React.FC = () => {
           const data = doc.data();
           const item = data.item;
           
-          if (item) {
+          // Trashed orders don't count as sales
+          if (item && !data.deletedAt) {
             const currentCount = itemMap.get(item) || 0;
             itemMap.set(item, currentCount + 1);
           }
@@ -14,6 +14,8 @@ import {
   Card,
   CardContent,
   Grid,
+  IconButton,
+  Tooltip as MuiTooltip,
 } from '@mui/material';
 import {
   LineChart,
@@ -30,10 +32,20 @@ import {
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import TrendingDownIcon from '@mui/icons-material/TrendingDown';
 import SyncIcon from '@mui/icons-material/Sync';
-import { ItemStats, SaleRecord, PriceHistoryEntry, EbayMetricsEntry } from '../../types/staleItems';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { ItemStats, SaleRecord, PriceHistoryEntry, EbayMetricsEntry, DemandForecast } from '../../types/staleItems';
 import { ItemProfileDialog } from '../Orders/ItemProfileDialog';
 import { ClickableItemTitle } from '../Orders/ClickableItemTitle';
-import { getSalesForItem, formatCurrency, backfillSalesForItem, getPriceHistory, getEbayMetricsHistory } from '../../services/staleItems';
+import {
+  getSalesForItem,
+  formatCurrency,
+  backfillSalesForItem,
+  getPriceHistory,
+  getEbayMetricsHistory,
+  refreshItemForecast,
+  formatExpectedNextSale,
+  formatPeakMonths,
+} from '../../services/staleItems';
 
 interface ItemSalesDetailProps {
   item: ItemStats;
@@ -47,8 +59,25 @@ const ItemSalesDetail: React.FC<ItemSalesDetailProps> = ({ item, latestPricingFr
   const [loading, setLoading] = useState(true);
   const [backfilling, setBackfilling] = useState(false);
   const [itemProfileOpen, setItemProfileOpen] = useState(false);
+  const [forecast, setForecast] = useState<DemandForecast | undefined>(item.forecast);
+  const [refreshingForecast, setRefreshingForecast] = useState(false);
   const backfillAttemptedRef = useRef(false);
 
+  useEffect(() => {
+    setForecast(item.forecast);
+  }, [item.forecast]);
+
+  const handleRefreshForecast = async () => {
+    setRefreshingForecast(true);
+    try {
+      setForecast(await refreshItemForecast(item.id));
+    } catch (error) {
+      console.error('Error refreshing forecast:', error);
+    } finally {
+      setRefreshingForecast(false);
+    }
+  };
+
   useEffect(() => {
     const fetchData = async () => {
       setLoading(true);
@@ -256,6 +285,66 @@ const ItemSalesDetail: React.FC<ItemSalesDetailProps> = ({ item, latestPricingFr
         </Grid>
       </Grid>
 
+      {/* Demand Forecast */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+          <Typography variant="subtitle2">Demand Forecast</Typography>
+          {forecast?.isSeasonal && (
+            <Chip
+              label={`Seasonal - peaks ${formatPeakMonths(forecast.peakMonths)}`}
+              size="small"
+              color="info"
+              variant="outlined"
+            />
+          )}
+          {forecast && forecast.expectedDaysToNextSale === null && (
+            <Chip label="Likely dead stock" size="small" color="error" variant="outlined" />
+          )}
+          <Box sx={{ ml: 'auto', display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            {forecast && (
+              <Typography variant="caption" color="text.secondary">
+                Updated {forecast.calculatedAt.toLocaleDateString()}
+              </Typography>
+            )}
+            <MuiTooltip title="Recalculate forecast">
+              <span>
+                <IconButton size="small" onClick={handleRefreshForecast} disabled={refreshingForecast}>
+                  {refreshingForecast ? <CircularProgress size={16} /> : <RefreshIcon fontSize="small" />}
+                </IconButton>
+              </span>
+            </MuiTooltip>
+          </Box>
+        </Box>
+        {forecast ? (
+          <>
+            <Typography variant="body2" sx={{ mb: 1.5 }}>
+              {forecast.expectedDaysToNextSale === null
+                ? 'Not expected to sell again within a year.'
+                : `Expected to sell again in ${formatExpectedNextSale(forecast)}.`}
+            </Typography>
+            <Grid container spacing={2}>
+              {([
+                ['Next 30 Days', forecast.next30],
+                ['Next 60 Days', forecast.next60],
+                ['Next 90 Days', forecast.next90],
+              ] as const).map(([label, band]) => (
+                <Grid size={{ xs: 4 }} key={label}>
+                  <SummaryCard
+                    title={label}
+                    value={`${band.expected.toFixed(1)} units`}
+                    subtitle={`80% range: ${band.low.toFixed(1)} - ${band.high.toFixed(1)}`}
+                  />
+                </Grid>
+              ))}
+            </Grid>
+          </>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            No forecast yet. Forecasts are recalculated nightly, or refresh to calculate now.
+          </Typography>
+        )}
+      </Paper>
+
       {/* Main Timeline Chart - Cumulative Profit */}
       <Paper sx={{ p: 2, mb: 3 }}>
         <Typography variant="subtitle2" gutterBottom>Cumulative Profit Over Time</Typography>
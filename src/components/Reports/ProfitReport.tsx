@@ -0,0 +1,372 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Chip,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Alert,
+  CircularProgress,
+  Card,
+  CardContent,
+  Grid,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+} from '@mui/material';
+import ItemSalesDetail from './ItemSalesDetail';
+import {
+  getProfitSales,
+  summarizeProfit,
+  getSaleMonthKey,
+  formatMonthKey,
+} from '../../services/profitReport';
+import { getItemStatsById, formatCurrency } from '../../services/staleItems';
+import { ProfitSale, ProfitGroup } from '../../types/profit';
+import { ItemStats } from '../../types/staleItems';
+
+type ProfitView = 'items' | 'suppliers' | 'months' | 'losses';
+type RankBy = 'profit' | 'margin';
+
+const VIEWS: { value: ProfitView; label: string }[] = [
+  { value: 'items', label: 'Items' },
+  { value: 'suppliers', label: 'Suppliers' },
+  { value: 'months', label: 'Months' },
+  { value: 'losses', label: 'Negative Margin Sales' },
+];
+
+const DEFAULT_RANGE_DAYS = 90;
+
+// Helper to get a YYYY-MM-DD date N days before today
+const getDateDaysAgo = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().substring(0, 10);
+};
+
+const formatMargin = (margin: number): string => `${margin.toFixed(1)}%`;
+
+const getProfitColor = (value: number): string => (value < 0 ? '#ef4444' : '#22c55e');
+
+/**
+ * Profitability across every item, supplier and month, with a list of the
+ * individual sales that lost money. Rows with an item drill into ItemSalesDetail.
+ */
+export const ProfitReport: React.FC = () => {
+  const [startDate, setStartDate] = useState(getDateDaysAgo(DEFAULT_RANGE_DAYS));
+  const [endDate, setEndDate] = useState(getDateDaysAgo(0));
+  const [employee, setEmployee] = useState('all');
+  const [view, setView] = useState<ProfitView>('items');
+  const [rankBy, setRankBy] = useState<RankBy>('profit');
+  const [sales, setSales] = useState<ProfitSale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [drilldownItem, setDrilldownItem] = useState<ItemStats | null>(null);
+
+  useEffect(() => {
+    if (!startDate || !endDate || startDate > endDate) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getProfitSales(startDate, endDate)
+      .then((result) => {
+        if (!cancelled) setSales(result);
+      })
+      .catch((err) => {
+        console.error('Error loading profit report:', err);
+        if (!cancelled) setError('Failed to load sales for this date range.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate]);
+
+  const employees = useMemo(
+    () => Array.from(new Set(sales.map((sale) => sale.employee))).sort(),
+    [sales]
+  );
+
+  const filteredSales = useMemo(
+    () => (employee === 'all' ? sales : sales.filter((sale) => sale.employee === employee)),
+    [sales, employee]
+  );
+
+  const totals = useMemo(() => summarizeProfit(filteredSales, () => 'all')[0], [filteredSales]);
+
+  const groups = useMemo(() => {
+    let result: ProfitGroup[];
+    if (view === 'suppliers') {
+      result = summarizeProfit(filteredSales, (sale) => sale.supplier);
+    } else if (view === 'months') {
+      result = summarizeProfit(filteredSales, getSaleMonthKey, (sale) => formatMonthKey(getSaleMonthKey(sale)));
+    } else {
+      result = summarizeProfit(filteredSales, (sale) => sale.itemStatsId, (sale) => sale.itemName);
+    }
+    return rankBy === 'margin' ? [...result].sort((a, b) => b.margin - a.margin) : result;
+  }, [filteredSales, view, rankBy]);
+
+  const lossSales = useMemo(
+    () => filteredSales.filter((sale) => sale.profit < 0).sort((a, b) => a.profit - b.profit),
+    [filteredSales]
+  );
+
+  const openDrilldown = async (itemStatsId: string) => {
+    try {
+      const item = await getItemStatsById(itemStatsId);
+      if (item) {
+        setDrilldownItem(item);
+      } else {
+        alert('This item no longer has stats (it may have been merged).');
+      }
+    } catch (err) {
+      console.error('Error loading item stats:', err);
+    }
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Box mb={2}>
+        <Typography variant="h4" gutterBottom>
+          Profitability Report
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Profit and margin by item, supplier and month
+        </Typography>
+      </Box>
+
+      {/* Filters */}
+      <Box display="flex" gap={2} mb={2} flexWrap="wrap" alignItems="center">
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={endDate}
+          onChange={(e) => setEndDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel>Employee</InputLabel>
+          <Select value={employee} label="Employee" onChange={(e) => setEmployee(e.target.value)}>
+            <MenuItem value="all">All Employees</MenuItem>
+            {employees.map((name) => (
+              <MenuItem key={name} value={name}>
+                {name.replace('@pardical.com', '')}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Rank By</InputLabel>
+          <Select value={rankBy} label="Rank By" onChange={(e) => setRankBy(e.target.value as RankBy)}>
+            <MenuItem value="profit">Profit</MenuItem>
+            <MenuItem value="margin">Margin</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+
+      {startDate > endDate && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          The start date is after the end date.
+        </Alert>
+      )}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Totals */}
+      <Grid container spacing={2} sx={{ mb: 2 }}>
+        {[
+          { label: 'Revenue', value: formatCurrency(totals?.revenue || 0) },
+          { label: 'Cost', value: formatCurrency(totals?.cost || 0) },
+          { label: 'Profit', value: formatCurrency(totals?.profit || 0), color: getProfitColor(totals?.profit || 0) },
+          { label: 'Margin', value: formatMargin(totals?.margin || 0) },
+          { label: 'Negative Margin Sales', value: String(lossSales.length), color: lossSales.length > 0 ? '#ef4444' : undefined },
+        ].map((card) => (
+          <Grid size={{ xs: 6, md: 2.4 }} key={card.label}>
+            <Card>
+              <CardContent>
+                <Typography variant="caption" color="text.secondary">
+                  {card.label}
+                </Typography>
+                <Typography variant="h6" sx={{ color: card.color }}>
+                  {card.value}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      <Box display="flex" gap={1} mb={2}>
+        {VIEWS.map((option) => (
+          <Chip
+            key={option.value}
+            label={option.value === 'losses' ? `${option.label} (${lossSales.length})` : option.label}
+            size="small"
+            onClick={() => setView(option.value)}
+            color={view === option.value ? 'primary' : 'default'}
+            variant={view === option.value ? 'filled' : 'outlined'}
+          />
+        ))}
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : view === 'losses' ? (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell>Order</TableCell>
+                <TableCell>Item</TableCell>
+                <TableCell>Supplier</TableCell>
+                <TableCell>Employee</TableCell>
+                <TableCell align="right">Sale</TableCell>
+                <TableCell align="right">Cost</TableCell>
+                <TableCell align="right">Profit</TableCell>
+                <TableCell align="right">Margin</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {lossSales.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} align="center">
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                      No negative-margin sales in this range.
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                lossSales.map((sale) => (
+                  <TableRow
+                    key={`${sale.itemStatsId}-${sale.orderId}`}
+                    hover
+                    sx={{ cursor: 'pointer' }}
+                    onClick={() => openDrilldown(sale.itemStatsId)}
+                  >
+                    <TableCell>{sale.saleDate.toLocaleDateString(undefined, { timeZone: 'UTC' })}</TableCell>
+                    <TableCell>{sale.orderNumber || sale.orderId}</TableCell>
+                    <TableCell sx={{ maxWidth: 260 }}>
+                      <Typography variant="body2" noWrap title={sale.itemName}>
+                        {sale.itemName}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{sale.supplier}</TableCell>
+                    <TableCell>{sale.employee.replace('@pardical.com', '')}</TableCell>
+                    <TableCell align="right">{formatCurrency(sale.salePrice)}</TableCell>
+                    <TableCell align="right">{formatCurrency(sale.cost)}</TableCell>
+                    <TableCell align="right" sx={{ color: '#ef4444' }}>
+                      {formatCurrency(sale.profit)}
+                    </TableCell>
+                    <TableCell align="right" sx={{ color: '#ef4444' }}>
+                      {formatMargin(sale.profitMargin)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ width: 40 }}>#</TableCell>
+                <TableCell>{VIEWS.find((option) => option.value === view)?.label.replace(/s$/, '')}</TableCell>
+                <TableCell align="right">Sales</TableCell>
+                <TableCell align="right">Revenue</TableCell>
+                <TableCell align="right">Cost</TableCell>
+                <TableCell align="right">Profit</TableCell>
+                <TableCell align="right">Margin</TableCell>
+                <TableCell align="center">Losses</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {groups.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center">
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                      No sales in this range.
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                groups.map((group, index) => (
+                  <TableRow
+                    key={group.key}
+                    hover
+                    sx={view === 'items' ? { cursor: 'pointer' } : undefined}
+                    onClick={view === 'items' ? () => openDrilldown(group.key) : undefined}
+                  >
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell sx={{ maxWidth: 320 }}>
+                      <Typography variant="body2" noWrap title={group.label}>
+                        {group.label}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{group.saleCount}</TableCell>
+                    <TableCell align="right">{formatCurrency(group.revenue)}</TableCell>
+                    <TableCell align="right">{formatCurrency(group.cost)}</TableCell>
+                    <TableCell align="right" sx={{ color: getProfitColor(group.profit) }}>
+                      {formatCurrency(group.profit)}
+                    </TableCell>
+                    <TableCell align="right" sx={{ color: getProfitColor(group.margin) }}>
+                      {formatMargin(group.margin)}
+                    </TableCell>
+                    <TableCell align="center">
+                      {group.negativeSales > 0 && (
+                        <Chip label={group.negativeSales} size="small" color="error" />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={!!drilldownItem} onClose={() => setDrilldownItem(null)} maxWidth="lg" fullWidth>
+        <DialogTitle>{drilldownItem?.itemName}</DialogTitle>
+        <DialogContent>
+          {drilldownItem && <ItemSalesDetail item={drilldownItem} />}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDrilldownItem(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+};
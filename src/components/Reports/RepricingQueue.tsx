@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  Chip,
+  Collapse,
+  IconButton,
+  TextField,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  ExpandMore as ExpandMoreIcon,
+  ExpandLess as ExpandLessIcon,
+} from '@mui/icons-material';
+import { useAuth } from '../Auth/AuthContext';
+import {
+  subscribeToPendingRecommendations,
+  decideRecommendation,
+  refreshRecommendations,
+} from '../../services/repricing';
+import { formatCurrency } from '../../services/staleItems';
+import { RepricingRecommendation } from '../../types/repricing';
+
+interface RecommendationRowProps {
+  recommendation: RepricingRecommendation;
+  decidedBy: string;
+}
+
+const RecommendationRow: React.FC<RecommendationRowProps> = ({ recommendation, decidedBy }) => {
+  const [finalPrice, setFinalPrice] = useState(recommendation.suggestedPrice.toFixed(2));
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { marketPosition, engagement, marginFloor } = recommendation;
+  const parsedPrice = parseFloat(finalPrice);
+  const priceValid = !isNaN(parsedPrice) && parsedPrice > 0;
+
+  const handleDecision = async (decision: 'accepted' | 'rejected') => {
+    setSaving(true);
+    try {
+      await decideRecommendation(recommendation, decision, decidedBy, {
+        finalPrice: decision === 'accepted' ? parsedPrice : undefined,
+        note,
+      });
+    } catch (error) {
+      console.error('Error saving repricing decision:', error);
+      alert('Failed to save decision. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box sx={{ p: 2, borderBottom: '1px solid #27272a', '&:last-child': { borderBottom: 0 } }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <Typography
+          variant="body2"
+          sx={{ flex: 1, minWidth: 200, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+        >
+          {recommendation.itemName}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {formatCurrency(recommendation.currentPrice)} →
+        </Typography>
+        <Chip
+          label={`${formatCurrency(recommendation.suggestedPrice)} (${recommendation.changePercent}%)`}
+          size="small"
+          color="warning"
+        />
+        <TextField
+          size="small"
+          label="Final price"
+          value={finalPrice}
+          onChange={(e) => setFinalPrice(e.target.value)}
+          error={!priceValid}
+          sx={{ width: 110 }}
+        />
+        <TextField
+          size="small"
+          label="Note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          sx={{ width: 180 }}
+        />
+        <Button
+          variant="contained"
+          color="success"
+          size="small"
+          disabled={saving || !priceValid}
+          onClick={() => handleDecision('accepted')}
+        >
+          Accept
+        </Button>
+        <Button
+          variant="outlined"
+          color="error"
+          size="small"
+          disabled={saving}
+          onClick={() => handleDecision('rejected')}
+        >
+          Reject
+        </Button>
+      </Box>
+
+      {/* Reasoning */}
+      <Box component="ul" sx={{ m: 0, mt: 1, pl: 2.5 }}>
+        {recommendation.reasons.map((reason) => (
+          <Typography component="li" variant="caption" color="text.secondary" key={reason}>
+            {reason}
+          </Typography>
+        ))}
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1, mt: 1, flexWrap: 'wrap' }}>
+        {marketPosition && (
+          <Chip
+            label={`Market: ${marketPosition.percentile}th pct of ${marketPosition.totalListings}`}
+            size="small"
+            variant="outlined"
+          />
+        )}
+        {engagement && (
+          <Chip
+            label={
+              engagement.conversionRate === null
+                ? 'No views in 30 days'
+                : `${engagement.views30Day} views → ${engagement.salesLast30Days} sales (${(engagement.conversionRate * 100).toFixed(1)}%)`
+            }
+            size="small"
+            variant="outlined"
+          />
+        )}
+        {marginFloor && (
+          <Chip label={`Floor: ${formatCurrency(marginFloor.floorPrice)}`} size="small" variant="outlined" />
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+/**
+ * Queue of suggested listing prices for stale items
+ * Each suggestion is accepted (optionally at an edited price) or rejected,
+ * and every decision is written to the repricingDecisions log
+ */
+export const RepricingQueue: React.FC = () => {
+  const { user } = useAuth();
+  const [recommendations, setRecommendations] = useState<RepricingRecommendation[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToPendingRecommendations(setRecommendations);
+    return () => unsubscribe();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const result = await refreshRecommendations();
+      alert(`Repricing queue refreshed.\n\nQueued: ${result.queued}\nSkipped: ${result.skipped}`);
+    } catch (error) {
+      console.error('Error refreshing repricing queue:', error);
+      alert('Failed to refresh repricing queue.');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1.5 }}>
+        <IconButton size="small" onClick={() => setExpanded((prev) => !prev)}>
+          {expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+        </IconButton>
+        <Typography variant="subtitle1">Repricing Queue</Typography>
+        <Chip label={recommendations.length} size="small" color={recommendations.length > 0 ? 'warning' : 'default'} />
+        <Tooltip title="Recalculate suggestions now">
+          <span style={{ marginLeft: 'auto' }}>
+            <IconButton size="small" onClick={handleRefresh} disabled={refreshing}>
+              {refreshing ? <CircularProgress size={18} /> : <RefreshIcon />}
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+      <Collapse in={expanded} timeout="auto" unmountOnExit>
+        {recommendations.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ px: 2, pb: 2 }}>
+            No pending suggestions. The queue refreshes every Sunday after the weekly price check.
+          </Typography>
+        ) : (
+          recommendations.map((recommendation) => (
+            <RecommendationRow
+              key={recommendation.id}
+              recommendation={recommendation}
+              decidedBy={user?.email || 'unknown'}
+            />
+          ))
+        )}
+      </Collapse>
+    </Paper>
+  );
+};
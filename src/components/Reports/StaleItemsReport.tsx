@@ -37,7 +37,11 @@ import {
   ExpandLess as ExpandLessIcon,
   Upload as UploadIcon,
   AttachMoney as PriceIcon,
+  Rule as RuleIcon,
+  Assignment as DispositionIcon,
+  CallMerge as MergeIcon,
 } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
 import {
   getYears,
   getMakes,
@@ -49,6 +53,8 @@ import {
   getItemStats,
   getStaleStatusColor,
   formatDaysSinceLastSale,
+  formatExpectedNextSale,
+  formatPeakMonths,
   checkCarPartPricing,
   checkCarPartVariants,
   savePriceCheck,
@@ -69,8 +75,22 @@ import {
   EbayMetricsEntry,
 } from '../../types/staleItems';
 import ItemSalesDetail from './ItemSalesDetail';
+import { RepricingQueue } from './RepricingQueue';
+import { StaleRulesDialog } from './StaleRulesDialog';
+import { getSeverityColor } from '../../services/staleRules';
+import { DispositionDialog } from './DispositionDialog';
+import { ItemMergeDialog } from './ItemMergeDialog';
+import { runRegistryBackfill } from '../../services/itemRegistry';
+import { DISPOSITION_ACTION_LABELS } from '../../services/dispositions';
+import { ActiveDisposition } from '../../types/disposition';
+import { useAuth } from '../Auth/AuthContext';
 
 export const StaleItemsReport: React.FC = () => {
+  const navigate = useNavigate();
+  const { hasRole } = useAuth();
+  // Migrations and backfills are admin tools; imports and merges are for managers
+  const isAdmin = hasRole('admin');
+  const isManager = hasRole('manager');
   const [items, setItems] = useState<ItemStats[]>([]);
   const [filteredItems, setFilteredItems] = useState<ItemStats[]>([]);
   const [loading, setLoading] = useState(false);
@@ -78,6 +98,9 @@ export const StaleItemsReport: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [thresholdFilter, setThresholdFilter] = useState<StaleThreshold | 'all'>('all');
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
+  const [rulesDialogOpen, setRulesDialogOpen] = useState(false);
+  const [dispositionItem, setDispositionItem] = useState<ItemStats | null>(null);
+  const [mergeItem, setMergeItem] = useState<ItemStats | null>(null);
   const [sortBy, setSortBy] = useState<'daysSinceLastSale' | 'lastSaleDate' | 'reviewedAt'>('daysSinceLastSale');
   const [minSoldFilter, setMinSoldFilter] = useState<number | null>(5);
   const [showReviewed, setShowReviewed] = useState(false);
@@ -122,6 +145,7 @@ export const StaleItemsReport: React.FC = () => {
   // Migration state
   const [migrationLoading, setMigrationLoading] = useState(false);
   const [fullMigrationLoading, setFullMigrationLoading] = useState(false);
+  const [registryLoading, setRegistryLoading] = useState(false);
 
   // Subcollection data (fetched separately from main items)
   const [pricingData, setPricingData] = useState<Map<string, PriceHistoryEntry>>(new Map());
@@ -244,24 +268,38 @@ export const StaleItemsReport: React.FC = () => {
     setThresholdFilter(event.target.value as StaleThreshold | 'all');
   };
 
-  const handleToggleReviewed = async (itemId: string, isCurrentlyReviewed: boolean) => {
-    if (isCurrentlyReviewed) {
-      await unmarkItemReviewed(itemId);
+  // Reviewing an item asks what to do with it (markdown, bundle, scrap, yard)
+  const handleToggleReviewed = async (item: ItemStats) => {
+    if (item.reviewedAt) {
+      await unmarkItemReviewed(item.id);
       setItems((prev) =>
-        prev.map((item) =>
-          item.id === itemId ? { ...item, reviewedAt: undefined } : item
+        prev.map((existing) =>
+          existing.id === item.id ? { ...existing, reviewedAt: undefined } : existing
         )
       );
+    } else if (isManager) {
+      setDispositionItem(item);
     } else {
-      await markItemReviewed(itemId);
+      // Deciding what happens to the part is a manager call - employees just flag it
+      await markItemReviewed(item.id);
       setItems((prev) =>
-        prev.map((item) =>
-          item.id === itemId ? { ...item, reviewedAt: new Date() } : item
+        prev.map((existing) =>
+          existing.id === item.id ? { ...existing, reviewedAt: new Date() } : existing
         )
       );
     }
   };
 
+  const handleDispositionSaved = (itemId: string, activeDisposition?: ActiveDisposition) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.id === itemId
+          ? { ...item, reviewedAt: new Date(), activeDisposition: activeDisposition || item.activeDisposition }
+          : item
+      )
+    );
+  };
+
   const handlePriceCheck = (item: ItemStats) => {
     setPriceCheckItem(item);
     if (item.vehicleInfo) {
@@ -462,6 +500,26 @@ export const StaleItemsReport: React.FC = () => {
     }
   };
 
+  const handleRegistryBackfill = async () => {
+    setRegistryLoading(true);
+    try {
+      const result = await runRegistryBackfill();
+      const split = result.splitSkuSamples
+        .map((entry) => `${entry.sku}: ${entry.statsIds.join(', ')}`)
+        .join('\n');
+      alert(
+        `SKU backfill complete!\n\nSKUs registered: ${result.skusRegistered}\nOrders with SKU: ${result.ordersWithSku}\nItems given a SKU: ${result.itemStatsUpdated}\nProfiles given a SKU: ${result.profilesUpdated}` +
+        (result.splitSkus > 0 ? `\n\n${result.splitSkus} SKUs are split across items (merge them):\n${split}` : '')
+      );
+      await fetchItems();
+    } catch (err) {
+      console.error('SKU backfill error:', err);
+      setError('Failed to backfill SKUs');
+    } finally {
+      setRegistryLoading(false);
+    }
+  };
+
   const getRowColor = (daysSinceLastSale: number): string => {
     if (daysSinceLastSale < 30) return 'transparent';
     if (daysSinceLastSale < 60) return 'rgba(249, 115, 22, 0.1)';
@@ -489,7 +547,7 @@ export const StaleItemsReport: React.FC = () => {
           </Typography>
         </Box>
         <Box display="flex" gap={1}>
-          {items.length === 0 && (
+          {isAdmin && items.length === 0 && (
             <Button
               variant="contained"
               color="primary"
@@ -499,21 +557,52 @@ export const StaleItemsReport: React.FC = () => {
               {migrationLoading ? 'Migrating...' : 'Run Migration'}
             </Button>
           )}
-          <Button
-            variant="contained"
-            color="secondary"
-            onClick={handleRunFullMigration}
-            disabled={fullMigrationLoading}
-          >
-            {fullMigrationLoading ? 'Migrating All...' : 'Sync All Items'}
-          </Button>
-          <Button
-            variant="outlined"
-            startIcon={<UploadIcon />}
-            onClick={() => setImportDialogOpen(true)}
-          >
-            Import eBay Data
-          </Button>
+          {isAdmin && (
+            <>
+              <Button
+                variant="contained"
+                color="secondary"
+                onClick={handleRunFullMigration}
+                disabled={fullMigrationLoading}
+              >
+                {fullMigrationLoading ? 'Migrating All...' : 'Sync All Items'}
+              </Button>
+              <Button
+                variant="outlined"
+                onClick={handleRegistryBackfill}
+                disabled={registryLoading}
+              >
+                {registryLoading ? 'Backfilling...' : 'Backfill SKUs'}
+              </Button>
+            </>
+          )}
+          {isManager && (
+            <Button
+              variant="outlined"
+              startIcon={<UploadIcon />}
+              onClick={() => setImportDialogOpen(true)}
+            >
+              Import eBay Data
+            </Button>
+          )}
+          {isManager && (
+            <>
+              <Button
+                variant="outlined"
+                startIcon={<RuleIcon />}
+                onClick={() => setRulesDialogOpen(true)}
+              >
+                Stale Rules
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<DispositionIcon />}
+                onClick={() => navigate('/reports/dispositions')}
+              >
+                Dispositions
+              </Button>
+            </>
+          )}
           <IconButton onClick={fetchItems} title="Refresh">
             <RefreshIcon />
           </IconButton>
@@ -526,6 +615,8 @@ export const StaleItemsReport: React.FC = () => {
         </Alert>
       )}
 
+      {isManager && <RepricingQueue />}
+
       <Box display="flex" gap={2} mb={3} flexWrap="wrap" alignItems="center">
         <TextField
           variant="outlined"
@@ -613,7 +704,9 @@ export const StaleItemsReport: React.FC = () => {
                   <TableCell>Item Name</TableCell>
                   <TableCell align="center">Total Sold</TableCell>
                   <TableCell align="center">Last Sale</TableCell>
+                  <TableCell align="center">Flagged By</TableCell>
                   <TableCell align="center">Velocity</TableCell>
+                  <TableCell align="center">Next Sale</TableCell>
                   <TableCell align="center">Car-Part Price</TableCell>
                   <TableCell align="center">eBay Views</TableCell>
                   <TableCell align="center">Actions</TableCell>
@@ -666,9 +759,52 @@ export const StaleItemsReport: React.FC = () => {
                           color={getStaleStatusColor(item.daysSinceLastSale)}
                         />
                       </TableCell>
+                      <TableCell align="center">
+                        {item.staleRule ? (
+                          <Tooltip title={`Rule set: ${item.staleRule.ruleSetName} (${item.staleRule.severity})`}>
+                            <Chip
+                              label={item.staleRule.ruleName}
+                              size="small"
+                              variant="outlined"
+                              color={getSeverityColor(item.staleRule.severity)}
+                              sx={{ maxWidth: 180 }}
+                            />
+                          </Tooltip>
+                        ) : (
+                          <Typography variant="body2" color="text.secondary">
+                            -
+                          </Typography>
+                        )}
+                      </TableCell>
                       <TableCell align="center">
                         {item.salesVelocity.toFixed(1)}/week
                       </TableCell>
+                      <TableCell align="center">
+                        {item.forecast ? (
+                          <Tooltip
+                            title={`Next 90 days: ${item.forecast.next90.expected.toFixed(1)} units (${item.forecast.next90.low.toFixed(1)}-${item.forecast.next90.high.toFixed(1)})${
+                              item.forecast.isSeasonal ? ` | Seasonal, peaks ${formatPeakMonths(item.forecast.peakMonths)}` : ''
+                            }`}
+                          >
+                            <Chip
+                              label={formatExpectedNextSale(item.forecast)}
+                              size="small"
+                              variant="outlined"
+                              color={
+                                item.forecast.expectedDaysToNextSale === null
+                                  ? 'error'
+                                  : item.forecast.isSeasonal
+                                  ? 'info'
+                                  : 'default'
+                              }
+                            />
+                          </Tooltip>
+                        ) : (
+                          <Typography variant="body2" color="text.secondary">
+                            -
+                          </Typography>
+                        )}
+                      </TableCell>
                       <TableCell align="center">
                         {pricingData.get(item.id) ? (
                           <Tooltip
@@ -712,6 +848,13 @@ export const StaleItemsReport: React.FC = () => {
                               <PriceIcon />
                             </IconButton>
                           </Tooltip>
+                          {isManager && (
+                            <Tooltip title="Merge duplicates / aliases">
+                              <IconButton size="small" onClick={() => setMergeItem(item)}>
+                                <MergeIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          )}
                           {pricingData.get(item.id)?.checkedAt && (
                             <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.65rem' }}>
                               {formatRelativeDate(pricingData.get(item.id)!.checkedAt)}
@@ -723,15 +866,22 @@ export const StaleItemsReport: React.FC = () => {
                         <Tooltip title={item.reviewedAt ? `Reviewed: ${formatRelativeDate(item.reviewedAt)} (click to unmark)` : 'Mark reviewed'}>
                           <Checkbox
                             checked={!!item.reviewedAt}
-                            onChange={() => handleToggleReviewed(item.id, !!item.reviewedAt)}
+                            onChange={() => handleToggleReviewed(item)}
                             size="small"
                             color={item.reviewedAt ? 'success' : 'default'}
                           />
                         </Tooltip>
+                        {item.activeDisposition && (
+                          <Tooltip title={`Deadline ${item.activeDisposition.deadline}`}>
+                            <Typography variant="caption" color="warning.main" display="block">
+                              {DISPOSITION_ACTION_LABELS[item.activeDisposition.action]}
+                            </Typography>
+                          </Tooltip>
+                        )}
                       </TableCell>
                     </TableRow>
                     <TableRow>
-                      <TableCell colSpan={9} sx={{ py: 0, border: 0 }}>
+                      <TableCell colSpan={11} sx={{ py: 0, border: 0 }}>
                         <Collapse
                           in={expandedRow === item.id}
                           timeout="auto"
@@ -1016,6 +1166,25 @@ export const StaleItemsReport: React.FC = () => {
           )}
         </DialogActions>
       </Dialog>
+
+      <StaleRulesDialog open={rulesDialogOpen} onClose={() => setRulesDialogOpen(false)} />
+
+      <ItemMergeDialog
+        open={!!mergeItem}
+        item={mergeItem}
+        onClose={() => setMergeItem(null)}
+        onMerged={() => {
+          setMergeItem(null);
+          fetchItems(minSoldFilter ?? undefined, showReviewed);
+        }}
+      />
+
+      <DispositionDialog
+        open={!!dispositionItem}
+        item={dispositionItem}
+        onClose={() => setDispositionItem(null)}
+        onSaved={(activeDisposition) => dispositionItem && handleDispositionSaved(dispositionItem.id, activeDisposition)}
+      />
     </Container>
   );
 };
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  List,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Checkbox,
+  FormControlLabel,
+  Chip,
+  Alert,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import {
+  getStaleRuleSets,
+  saveStaleRuleSet,
+  deleteStaleRuleSet,
+  createEmptyRuleSet,
+} from '../../services/staleRules';
+import { StaleRule, StaleRuleSet } from '../../types/staleItems';
+
+interface StaleRulesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SEVERITIES = ['watch', 'stale', 'dead'];
+
+const splitList = (value: string): string[] =>
+  value.split(',').map((entry) => entry.trim()).filter(Boolean);
+
+// Rules are edited as JSON - check the shape before saving
+const parseRules = (value: string): StaleRule[] => {
+  const parsed = JSON.parse(value);
+  if (!Array.isArray(parsed)) throw new Error('Rules must be a JSON array');
+  parsed.forEach((rule, index) => {
+    if (!rule.id || !rule.name) throw new Error(`Rule ${index + 1} needs an id and name`);
+    if (!SEVERITIES.includes(rule.severity)) {
+      throw new Error(`Rule ${index + 1} severity must be one of ${SEVERITIES.join(', ')}`);
+    }
+    if (!rule.conditions || typeof rule.conditions !== 'object') {
+      throw new Error(`Rule ${index + 1} needs a conditions object`);
+    }
+  });
+  return parsed;
+};
+
+/**
+ * Edit the stale rule sets the nightly stale metrics job evaluates
+ * Changes apply on the next nightly run
+ */
+export const StaleRulesDialog: React.FC<StaleRulesDialogProps> = ({ open, onClose }) => {
+  const [ruleSets, setRuleSets] = useState<StaleRuleSet[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<StaleRuleSet | null>(null);
+  const [partTypes, setPartTypes] = useState('');
+  const [categories, setCategories] = useState('');
+  const [rulesJson, setRulesJson] = useState('');
+
+  const selectRuleSet = (ruleSet: StaleRuleSet) => {
+    setSelected(ruleSet);
+    setPartTypes((ruleSet.appliesTo?.partTypes || []).join(', '));
+    setCategories((ruleSet.appliesTo?.categories || []).join(', '));
+    setRulesJson(JSON.stringify(ruleSet.rules || [], null, 2));
+    setError(null);
+  };
+
+  const loadRuleSets = async () => {
+    setLoading(true);
+    try {
+      setRuleSets(await getStaleRuleSets());
+    } catch (err) {
+      console.error('Error loading stale rule sets:', err);
+      setError('Failed to load rule sets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      setSelected(null);
+      loadRuleSets();
+    }
+  }, [open]);
+
+  const handleSave = async () => {
+    if (!selected) return;
+    let rules: StaleRule[];
+    try {
+      rules = parseRules(rulesJson);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid rules JSON');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const ruleSet: StaleRuleSet = {
+        ...selected,
+        appliesTo: { partTypes: splitList(partTypes), categories: splitList(categories) },
+        rules,
+      };
+      await saveStaleRuleSet(ruleSet);
+      await loadRuleSets();
+      selectRuleSet(ruleSet);
+    } catch (err) {
+      console.error('Error saving stale rule set:', err);
+      setError('Failed to save rule set');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete rule set "${selected.name}"?`)) return;
+    setSaving(true);
+    try {
+      await deleteStaleRuleSet(selected.id);
+      setSelected(null);
+      await loadRuleSets();
+    } catch (err) {
+      console.error('Error deleting stale rule set:', err);
+      setError('Failed to delete rule set');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Stale Rules</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Each item is checked against the highest-priority rule set matching its part type or category,
+          otherwise the default set. The most severe matching rule flags the item; watch items are not marked stale.
+        </Typography>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box display="flex" gap={2}>
+            <Box sx={{ width: 220, flexShrink: 0 }}>
+              <List dense>
+                {ruleSets.map((ruleSet) => (
+                  <ListItemButton
+                    key={ruleSet.id}
+                    selected={selected?.id === ruleSet.id}
+                    onClick={() => selectRuleSet(ruleSet)}
+                  >
+                    <ListItemText
+                      primary={ruleSet.name}
+                      secondary={`Priority ${ruleSet.priority}${ruleSet.enabled ? '' : ' - disabled'}`}
+                    />
+                    {ruleSet.isDefault && <Chip label="Default" size="small" />}
+                  </ListItemButton>
+                ))}
+              </List>
+              {ruleSets.length === 0 && (
+                <Typography variant="caption" color="text.secondary">
+                  No rule sets yet - items use the built-in threshold rule.
+                </Typography>
+              )}
+              <Button fullWidth size="small" sx={{ mt: 1 }} onClick={() => selectRuleSet(createEmptyRuleSet())}>
+                New Rule Set
+              </Button>
+            </Box>
+
+            {selected && (
+              <Box display="flex" flexDirection="column" gap={1.5} flex={1}>
+                <Box display="flex" gap={1}>
+                  <TextField
+                    label="Name"
+                    size="small"
+                    value={selected.name}
+                    onChange={(e) => setSelected({ ...selected, name: e.target.value })}
+                    sx={{ flex: 1 }}
+                  />
+                  <TextField
+                    label="Priority"
+                    size="small"
+                    type="number"
+                    value={selected.priority}
+                    onChange={(e) => setSelected({ ...selected, priority: Number(e.target.value) || 0 })}
+                    sx={{ width: 100 }}
+                  />
+                  <TextField
+                    label="Unreview After (days)"
+                    size="small"
+                    type="number"
+                    value={selected.unreviewAfterDays}
+                    onChange={(e) => setSelected({ ...selected, unreviewAfterDays: Number(e.target.value) || 60 })}
+                    sx={{ width: 170 }}
+                  />
+                </Box>
+                <Box display="flex" gap={2}>
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={selected.enabled}
+                        onChange={(e) => setSelected({ ...selected, enabled: e.target.checked })}
+                      />
+                    }
+                    label="Enabled"
+                  />
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={selected.isDefault}
+                        onChange={(e) => setSelected({ ...selected, isDefault: e.target.checked })}
+                      />
+                    }
+                    label="Default (items with no matching set)"
+                  />
+                </Box>
+                <TextField
+                  label="Part types (comma separated)"
+                  size="small"
+                  value={partTypes}
+                  onChange={(e) => setPartTypes(e.target.value)}
+                />
+                <TextField
+                  label="Categories (comma separated)"
+                  size="small"
+                  value={categories}
+                  onChange={(e) => setCategories(e.target.value)}
+                />
+                <TextField
+                  label="Rules (JSON)"
+                  multiline
+                  minRows={10}
+                  value={rulesJson}
+                  onChange={(e) => setRulesJson(e.target.value)}
+                  helperText="Conditions: minDaysSinceLastSale (number or &quot;itemThreshold&quot;), maxViews30Day, maxWatchers, minMarketListings, maxMarginPercent. Severity: watch, stale, dead."
+                  sx={{ '& textarea': { fontFamily: 'monospace', fontSize: '12px' } }}
+                />
+              </Box>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {selected && ruleSets.some((ruleSet) => ruleSet.id === selected.id) && (
+          <Button color="error" onClick={handleDelete} disabled={saving} sx={{ mr: 'auto' }}>
+            Delete
+          </Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+        {selected && (
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Rule Set'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -6,6 +6,7 @@ import {
   CircularProgress,
   IconButton,
   Tooltip,
+  Chip,
 } from '@mui/material';
 import PrintIcon from '@mui/icons-material/Print';
 import RefreshIcon from '@mui/icons-material/Refresh';
@@ -14,12 +15,27 @@ import BlockIcon from '@mui/icons-material/Block';
 import { collection, query, orderBy, limit, onSnapshot, doc, updateDoc } from 'firebase/firestore';
 import { db } from '../../services/firebase';
 import { getShipmentLabel, voidShippingLabel, Shipment } from '../../services/shippoShipping';
+import { useAuth } from '../Auth/AuthContext';
+
+type ShipmentTypeFilter = 'all' | 'outbound' | 'return';
+
+const TYPE_FILTERS: { value: ShipmentTypeFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'outbound', label: 'Outbound' },
+  { value: 'return', label: 'Returns' },
+];
+
+// Labels bought before return labels existed have no type - they're outbound
+const getShipmentType = (shipment: Shipment) => shipment.type || 'outbound';
 
 export const ShipmentList: React.FC = () => {
+  const { hasRole } = useAuth();
+  const canVoid = hasRole('manager');
   const [shipments, setShipments] = useState<(Shipment & { id: string })[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [printingId, setPrintingId] = useState<string | null>(null);
   const [voidingId, setVoidingId] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<ShipmentTypeFilter>('all');
 
   useEffect(() => {
     const shipmentsRef = collection(db, 'shipments');
@@ -70,7 +86,8 @@ export const ShipmentList: React.FC = () => {
         refundedAt: new Date().toISOString(),
       });
 
-      alert(`Refund ${result.status === 'SUCCESS' ? 'approved' : 'requested'}!\n\nStatus: ${result.status}\nRefund ID: ${result.refundId}`);
+      const orderNote = result.resetOrderId ? `\n\nOrder ${shipment.orderNumber || ''} is back to not shipped.` : '';
+      alert(`Refund ${result.status === 'SUCCESS' ? 'approved' : 'requested'}!\n\nStatus: ${result.status}\nRefund ID: ${result.refundId}${orderNote}`);
     } catch (error) {
       console.error('Error voiding label:', error);
       alert('Failed to void label. It may have already been used or the refund window has passed.');
@@ -79,6 +96,10 @@ export const ShipmentList: React.FC = () => {
     }
   };
 
+  const visibleShipments = typeFilter === 'all'
+    ? shipments
+    : shipments.filter((shipment) => getShipmentType(shipment) === typeFilter);
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -107,17 +128,38 @@ export const ShipmentList: React.FC = () => {
         <Typography sx={{ color: '#71717a', fontSize: '14px' }}>
           Last 20 labels purchased
         </Typography>
+        <Box sx={{ display: 'flex', gap: 0.75, ml: 'auto' }}>
+          {TYPE_FILTERS.map((filter) => (
+            <Chip
+              key={filter.value}
+              label={filter.label}
+              size="small"
+              onClick={() => setTypeFilter(filter.value)}
+              sx={{
+                fontSize: '12px',
+                fontWeight: 500,
+                backgroundColor: typeFilter === filter.value ? '#3b82f6' : '#27272a',
+                color: typeFilter === filter.value ? '#fff' : '#a1a1aa',
+                '&:hover': {
+                  backgroundColor: typeFilter === filter.value ? '#2563eb' : '#3f3f46',
+                },
+              }}
+            />
+          ))}
+        </Box>
       </Box>
 
-      {shipments.length === 0 ? (
+      {visibleShipments.length === 0 ? (
         <Card sx={{ p: 4, textAlign: 'center', border: '1px solid #27272a' }}>
           <Typography sx={{ color: '#71717a' }}>
-            No shipments yet. Purchase a label to see it here.
+            {shipments.length === 0
+              ? 'No shipments yet. Purchase a label to see it here.'
+              : 'No shipments of this type in the last 20 labels.'}
           </Typography>
         </Card>
       ) : (
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
-          {shipments.map((shipment) => (
+          {visibleShipments.map((shipment) => (
             <Card
               key={shipment.id}
               sx={{
@@ -135,6 +177,19 @@ export const ShipmentList: React.FC = () => {
                 {/* Route: From > To */}
                 <Box sx={{ minWidth: 280 }}>
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    {getShipmentType(shipment) === 'return' && (
+                      <Chip
+                        label="RETURN"
+                        size="small"
+                        sx={{
+                          height: 20,
+                          fontSize: '10px',
+                          fontWeight: 600,
+                          backgroundColor: 'rgba(249, 115, 22, 0.15)',
+                          color: '#f97316',
+                        }}
+                      />
+                    )}
                     <Typography sx={{ color: '#fff', fontWeight: 500, fontSize: '14px' }}>
                       {shipment.fromName}
                     </Typography>
@@ -278,30 +333,32 @@ export const ShipmentList: React.FC = () => {
                     <RefreshIcon />
                   </IconButton>
                 </Tooltip>
-                <Tooltip title={shipment.refundStatus ? `Refund ${shipment.refundStatus}` : 'Void label'}>
-                  <span>
-                    <IconButton
-                      onClick={() => handleVoidLabel(shipment)}
-                      disabled={voidingId === shipment.id || !!shipment.refundStatus}
-                      sx={{
-                        color: shipment.refundStatus ? '#71717a' : '#ef4444',
-                        backgroundColor: shipment.refundStatus ? 'transparent' : 'rgba(239, 68, 68, 0.1)',
-                        '&:hover': {
-                          backgroundColor: shipment.refundStatus ? 'transparent' : 'rgba(239, 68, 68, 0.2)',
-                        },
-                        '&.Mui-disabled': {
-                          color: '#52525b',
-                        },
-                      }}
-                    >
-                      {voidingId === shipment.id ? (
-                        <CircularProgress size={20} sx={{ color: '#ef4444' }} />
-                      ) : (
-                        <BlockIcon />
-                      )}
-                    </IconButton>
-                  </span>
-                </Tooltip>
+                {canVoid && (
+                  <Tooltip title={shipment.refundStatus ? `Refund ${shipment.refundStatus}` : 'Void label'}>
+                    <span>
+                      <IconButton
+                        onClick={() => handleVoidLabel(shipment)}
+                        disabled={voidingId === shipment.id || !!shipment.refundStatus}
+                        sx={{
+                          color: shipment.refundStatus ? '#71717a' : '#ef4444',
+                          backgroundColor: shipment.refundStatus ? 'transparent' : 'rgba(239, 68, 68, 0.1)',
+                          '&:hover': {
+                            backgroundColor: shipment.refundStatus ? 'transparent' : 'rgba(239, 68, 68, 0.2)',
+                          },
+                          '&.Mui-disabled': {
+                            color: '#52525b',
+                          },
+                        }}
+                      >
+                        {voidingId === shipment.id ? (
+                          <CircularProgress size={20} sx={{ color: '#ef4444' }} />
+                        ) : (
+                          <BlockIcon />
+                        )}
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                )}
               </Box>
             </Card>
           ))}
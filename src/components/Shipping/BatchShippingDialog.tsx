@@ -0,0 +1,553 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  CircularProgress,
+  Grid,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  LinearProgress,
+} from '@mui/material';
+import LocalShippingIcon from '@mui/icons-material/LocalShipping';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import ErrorIcon from '@mui/icons-material/Error';
+import {
+  getShippingRates,
+  purchaseShippingLabel,
+  mergeShippingLabels,
+  Address,
+  Parcel,
+  ShippingRate,
+  Shipment,
+  MergedLabels,
+  WAREHOUSE_ADDRESS,
+} from '../../services/shippoShipping';
+import { Order } from '../../types';
+import { collection, addDoc, doc, updateDoc } from 'firebase/firestore';
+import { db } from '../../services/firebase';
+import { useAuth } from '../Auth/AuthContext';
+
+interface BatchShippingDialogProps {
+  open: boolean;
+  onClose: () => void;
+  orders: Order[];
+  onComplete?: () => void;
+}
+
+type Step = 'form' | 'rates' | 'purchasing' | 'success';
+type CarrierPreference = 'cheapest' | 'USPS' | 'UPS' | 'FedEx';
+
+// One row per selected order, carried through every step
+interface BatchRow {
+  order: Order;
+  rates: ShippingRate[];
+  selectedRate: string | null;
+  error: string | null;
+  trackingNumber?: string;
+  carrier?: string;
+  labelUrl?: string;
+}
+
+const hasShippingAddress = (order: Order): boolean =>
+  Boolean(order.shipAddress && order.shipCity && order.shipState && order.shipZip);
+
+// Pick the cheapest rate, preferring the chosen carrier when it has one
+const chooseRate = (rates: ShippingRate[], preference: CarrierPreference): string | null => {
+  if (rates.length === 0) return null;
+  const sorted = [...rates].sort((a, b) => parseFloat(a.amount) - parseFloat(b.amount));
+  if (preference !== 'cheapest') {
+    const preferred = sorted.find((r) => r.provider.toLowerCase() === preference.toLowerCase());
+    if (preferred) return preferred.objectId;
+  }
+  return sorted[0].objectId;
+};
+
+const selectedRateOf = (row: BatchRow): ShippingRate | undefined =>
+  row.rates.find((r) => r.objectId === row.selectedRate);
+
+export const BatchShippingDialog: React.FC<BatchShippingDialogProps> = ({ open, onClose, orders, onComplete }) => {
+  const { user } = useAuth();
+  const [step, setStep] = useState<Step>('form');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  // Package dimensions - applied to every order in the batch
+  const [weightLbs, setWeightLbs] = useState('');
+  const [weightOz, setWeightOz] = useState('');
+  const [length, setLength] = useState('');
+  const [width, setWidth] = useState('');
+  const [height, setHeight] = useState('');
+  const [carrierPreference, setCarrierPreference] = useState<CarrierPreference>('cheapest');
+
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [mergedLabels, setMergedLabels] = useState<MergedLabels | null>(null);
+
+  const shippableOrders = orders.filter(hasShippingAddress);
+  const skippedOrders = orders.filter((o) => !hasShippingAddress(o));
+
+  const handleGetRates = async () => {
+    setIsLoading(true);
+    setError(null);
+    setProgress(0);
+
+    // Convert weight to ounces
+    const totalOunces = (parseFloat(weightLbs) || 0) * 16 + (parseFloat(weightOz) || 0);
+
+    const parcel: Parcel = {
+      length: parseFloat(length) || 1,
+      width: parseFloat(width) || 1,
+      height: parseFloat(height) || 1,
+      weight: totalOunces || 16, // Default 1 lb if not specified
+    };
+
+    // One at a time so a large batch doesn't trip Shippo's rate limit
+    const fetched: BatchRow[] = [];
+    for (const order of shippableOrders) {
+      const toAddress: Address = {
+        name: order.shipName || order.buyerUsername || '',
+        street1: order.shipAddress || '',
+        street2: order.shipAddress2 || '',
+        city: order.shipCity || '',
+        state: order.shipState || '',
+        zip: order.shipZip || '',
+        country: order.shipCountry || 'US',
+      };
+
+      try {
+        const rates = await getShippingRates(WAREHOUSE_ADDRESS, toAddress, parcel);
+        const sortedRates = rates.sort((a, b) => parseFloat(a.amount) - parseFloat(b.amount));
+        fetched.push({
+          order,
+          rates: sortedRates,
+          selectedRate: chooseRate(sortedRates, carrierPreference),
+          error: sortedRates.length === 0 ? 'No rates available' : null,
+        });
+      } catch (err) {
+        console.error(`Error getting rates for order ${order.orderNumber}:`, err);
+        fetched.push({
+          order,
+          rates: [],
+          selectedRate: null,
+          error: err instanceof Error ? err.message : 'Failed to get shipping rates',
+        });
+      }
+      setProgress(Math.round((fetched.length / shippableOrders.length) * 100));
+    }
+
+    setRows(fetched);
+    setStep('rates');
+    setIsLoading(false);
+  };
+
+  const handleRateChange = (orderId: string, rateId: string) => {
+    setRows((prev) => prev.map((row) => (
+      row.order.id === orderId ? { ...row, selectedRate: rateId } : row
+    )));
+  };
+
+  const handlePurchaseAll = async () => {
+    setStep('purchasing');
+    setError(null);
+    setProgress(0);
+
+    const toBuy = rows.filter((row) => row.selectedRate);
+    const results = [...rows];
+    let done = 0;
+
+    for (const row of toBuy) {
+      const index = results.indexOf(row);
+      const rate = selectedRateOf(row);
+
+      try {
+        const result = await purchaseShippingLabel(row.selectedRate as string);
+        // Get carrier from our rates since Shippo transaction doesn't return it reliably
+        const carrier = rate?.provider || result.carrier;
+
+        // Save shipment to Firestore for label recovery
+        const shipmentData: Omit<Shipment, 'id'> = {
+          transactionId: result.transactionId,
+          trackingNumber: result.trackingNumber,
+          carrier,
+          labelUrl: result.labelUrl,
+          fromName: WAREHOUSE_ADDRESS.name,
+          fromCity: WAREHOUSE_ADDRESS.city,
+          fromState: WAREHOUSE_ADDRESS.state,
+          toName: row.order.shipName || row.order.buyerUsername || '',
+          toCity: row.order.shipCity || '',
+          toState: row.order.shipState || '',
+          orderId: row.order.id,
+          orderNumber: row.order.orderNumber,
+          createdAt: new Date().toISOString(),
+          createdBy: user?.displayName || user?.email || 'unknown',
+          price: rate?.amount,
+        };
+        await addDoc(collection(db, 'shipments'), shipmentData);
+
+        // Write tracking back to the order (same fields OrderCard saves)
+        await updateDoc(doc(db, row.order._collection || 'orders', row.order.id), {
+          tracking: result.trackingNumber,
+          carrier,
+          shipPrice: rate?.amount || '0',
+          labelPurchasedAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          updatedBy: user?.email || 'unknown',
+        });
+
+        results[index] = {
+          ...row,
+          error: null,
+          trackingNumber: result.trackingNumber,
+          carrier,
+          labelUrl: result.labelUrl,
+        };
+      } catch (err) {
+        console.error(`Error purchasing label for order ${row.order.orderNumber}:`, err);
+        results[index] = {
+          ...row,
+          error: err instanceof Error ? err.message : 'Failed to purchase label',
+        };
+      }
+
+      done++;
+      setProgress(Math.round((done / toBuy.length) * 100));
+      setRows([...results]);
+    }
+
+    // Merge every label we bought into one printable PDF
+    const labelUrls = results
+      .map((row) => row.labelUrl)
+      .filter((url): url is string => Boolean(url));
+
+    if (labelUrls.length > 0) {
+      try {
+        setMergedLabels(await mergeShippingLabels(labelUrls));
+      } catch (err) {
+        console.error('Error merging labels:', err);
+        setError('Labels purchased, but the merged PDF could not be created. Download them individually below.');
+      }
+    }
+
+    setStep('success');
+    onComplete?.();
+  };
+
+  const handleClose = () => {
+    if (step === 'purchasing') return;
+    if (mergedLabels) {
+      URL.revokeObjectURL(mergedLabels.pdfUrl);
+    }
+    // Reset state
+    setStep('form');
+    setError(null);
+    setProgress(0);
+    setRows([]);
+    setMergedLabels(null);
+    setWeightLbs('');
+    setWeightOz('');
+    setLength('');
+    setWidth('');
+    setHeight('');
+    setCarrierPreference('cheapest');
+    onClose();
+  };
+
+  const inputSx = {
+    '& .MuiInputBase-input': { fontSize: '13px' },
+    '& .MuiInputLabel-root': { fontSize: '13px' },
+  };
+
+  const sectionHeader = (title: string) => (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+      <Box sx={{ width: 3, height: 12, backgroundColor: '#3b82f6', borderRadius: 1 }} />
+      <Typography sx={{ fontSize: '11px', fontWeight: 600, textTransform: 'uppercase', letterSpacing: '0.5px', color: '#71717a' }}>
+        {title}
+      </Typography>
+    </Box>
+  );
+
+  const cancelButtonSx = {
+    borderColor: '#27272a',
+    color: '#a1a1aa',
+    '&:hover': { borderColor: '#52525b' },
+  };
+
+  const purchasable = rows.filter((row) => row.selectedRate);
+  const totalCost = purchasable.reduce((sum, row) => sum + parseFloat(selectedRateOf(row)?.amount || '0'), 0);
+
+  const renderFormStep = () => (
+    <>
+      <DialogContent sx={{ mt: 2 }}>
+        {skippedOrders.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {skippedOrders.length} order{skippedOrders.length > 1 ? 's have' : ' has'} no complete shipping address and will be skipped:{' '}
+            {skippedOrders.map((o) => o.orderNumber).join(', ')}
+          </Alert>
+        )}
+
+        <Typography sx={{ fontSize: '13px', color: '#a1a1aa', mb: 2 }}>
+          Shipping {shippableOrders.length} order{shippableOrders.length !== 1 ? 's' : ''} from {WAREHOUSE_ADDRESS.name}, {WAREHOUSE_ADDRESS.city}.
+        </Typography>
+
+        <Box sx={{ mb: 3 }}>
+          {sectionHeader('Package Details (all orders)')}
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 6, sm: 3 }}>
+              <TextField label="Weight (lbs)" type="number" value={weightLbs} onChange={(e) => setWeightLbs(e.target.value)} fullWidth size="small" sx={inputSx} />
+            </Grid>
+            <Grid size={{ xs: 6, sm: 3 }}>
+              <TextField label="Weight (oz)" type="number" value={weightOz} onChange={(e) => setWeightOz(e.target.value)} fullWidth size="small" sx={inputSx} />
+            </Grid>
+            <Grid size={{ xs: 4, sm: 2 }}>
+              <TextField label="Length (in)" type="number" value={length} onChange={(e) => setLength(e.target.value)} fullWidth size="small" sx={inputSx} />
+            </Grid>
+            <Grid size={{ xs: 4, sm: 2 }}>
+              <TextField label="Width (in)" type="number" value={width} onChange={(e) => setWidth(e.target.value)} fullWidth size="small" sx={inputSx} />
+            </Grid>
+            <Grid size={{ xs: 4, sm: 2 }}>
+              <TextField label="Height (in)" type="number" value={height} onChange={(e) => setHeight(e.target.value)} fullWidth size="small" sx={inputSx} />
+            </Grid>
+          </Grid>
+        </Box>
+
+        <Box>
+          {sectionHeader('Rate Selection')}
+          <FormControl size="small" sx={{ minWidth: 240 }}>
+            <InputLabel sx={{ fontSize: '13px' }}>Carrier</InputLabel>
+            <Select
+              value={carrierPreference}
+              label="Carrier"
+              onChange={(e) => setCarrierPreference(e.target.value as CarrierPreference)}
+              sx={{ fontSize: '13px' }}
+            >
+              <MenuItem value="cheapest">Cheapest available</MenuItem>
+              <MenuItem value="USPS">Prefer USPS</MenuItem>
+              <MenuItem value="UPS">Prefer UPS</MenuItem>
+              <MenuItem value="FedEx">Prefer FedEx</MenuItem>
+            </Select>
+          </FormControl>
+          <Typography sx={{ fontSize: '11px', color: '#71717a', mt: 1 }}>
+            Preferred carrier falls back to the cheapest rate when it has no service for an order.
+          </Typography>
+        </Box>
+
+        {isLoading && (
+          <Box sx={{ mt: 3 }}>
+            <Typography sx={{ fontSize: '12px', color: '#a1a1aa', mb: 1 }}>Fetching rates...</Typography>
+            <LinearProgress variant="determinate" value={progress} />
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ borderTop: '1px solid #27272a', p: 2 }}>
+        <Button onClick={handleClose} variant="outlined" sx={cancelButtonSx}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleGetRates}
+          variant="contained"
+          disabled={isLoading || shippableOrders.length === 0}
+          sx={{ minWidth: 120 }}
+        >
+          {isLoading ? <CircularProgress size={20} /> : 'Get Rates'}
+        </Button>
+      </DialogActions>
+    </>
+  );
+
+  const renderRatesStep = () => (
+    <>
+      <DialogContent sx={{ mt: 2 }}>
+        {sectionHeader(`Labels to Purchase (${purchasable.length} of ${rows.length})`)}
+
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          {rows.map((row) => (
+            <Box
+              key={row.order.id}
+              sx={{
+                p: 1.5,
+                borderRadius: 1,
+                border: '1px solid',
+                borderColor: row.error ? '#ef4444' : '#27272a',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: 2,
+              }}
+            >
+              <Box sx={{ minWidth: 0 }}>
+                <Typography sx={{ fontSize: '13px', fontWeight: 600, color: '#fff' }}>
+                  #{row.order.orderNumber}
+                </Typography>
+                <Typography sx={{ fontSize: '12px', color: '#a1a1aa' }} noWrap>
+                  {row.order.shipName || row.order.buyerUsername} - {row.order.shipCity}, {row.order.shipState}
+                </Typography>
+                {row.error && (
+                  <Typography sx={{ fontSize: '11px', color: '#ef4444' }}>{row.error}</Typography>
+                )}
+              </Box>
+              {row.rates.length > 0 && (
+                <Select
+                  value={row.selectedRate || ''}
+                  onChange={(e) => handleRateChange(row.order.id, e.target.value)}
+                  size="small"
+                  sx={{ fontSize: '12px', minWidth: 280 }}
+                >
+                  {row.rates.map((rate) => (
+                    <MenuItem key={rate.objectId} value={rate.objectId} sx={{ fontSize: '12px' }}>
+                      ${parseFloat(rate.amount).toFixed(2)} - {rate.provider} {rate.servicelevelName}
+                      {rate.estimatedDays ? ` (${rate.estimatedDays}d)` : ''}
+                    </MenuItem>
+                  ))}
+                </Select>
+              )}
+            </Box>
+          ))}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ borderTop: '1px solid #27272a', p: 2, justifyContent: 'space-between' }}>
+        <Typography sx={{ fontSize: '13px', color: '#a1a1aa', pl: 1 }}>
+          Total: <Box component="span" sx={{ color: '#3b82f6', fontWeight: 700 }}>${totalCost.toFixed(2)}</Box>
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button onClick={() => setStep('form')} variant="outlined" sx={cancelButtonSx}>
+            Back
+          </Button>
+          <Button
+            onClick={handlePurchaseAll}
+            variant="contained"
+            disabled={purchasable.length === 0}
+            sx={{ minWidth: 140 }}
+          >
+            Buy {purchasable.length} Label{purchasable.length !== 1 ? 's' : ''}
+          </Button>
+        </Box>
+      </DialogActions>
+    </>
+  );
+
+  const renderPurchasingStep = () => (
+    <DialogContent sx={{ mt: 2, py: 4 }}>
+      <Typography sx={{ fontSize: '13px', color: '#a1a1aa', mb: 1, textAlign: 'center' }}>
+        Purchasing labels... do not close this window.
+      </Typography>
+      <LinearProgress variant="determinate" value={progress} />
+    </DialogContent>
+  );
+
+  const renderSuccessStep = () => {
+    const purchased = rows.filter((row) => row.labelUrl);
+    const failed = rows.filter((row) => !row.labelUrl);
+
+    return (
+      <>
+        <DialogContent sx={{ mt: 2 }}>
+          {error && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          {mergedLabels && mergedLabels.failedUrls.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {mergedLabels.failedUrls.length} label{mergedLabels.failedUrls.length > 1 ? 's' : ''} could not be added to the merged PDF. Download them individually below.
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            <CheckCircleIcon sx={{ color: '#22c55e' }} />
+            <Typography sx={{ fontSize: '14px', color: '#fff', fontWeight: 600 }}>
+              {purchased.length} label{purchased.length !== 1 ? 's' : ''} purchased
+              {failed.length > 0 && `, ${failed.length} failed`}
+            </Typography>
+          </Box>
+
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.75 }}>
+            {rows.map((row) => (
+              <Box
+                key={row.order.id}
+                sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, py: 0.5, borderBottom: '1px solid #27272a' }}
+              >
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, minWidth: 0 }}>
+                  {row.labelUrl ? (
+                    <CheckCircleIcon sx={{ color: '#22c55e', fontSize: 16 }} />
+                  ) : (
+                    <ErrorIcon sx={{ color: '#ef4444', fontSize: 16 }} />
+                  )}
+                  <Typography sx={{ fontSize: '12px', color: '#fff' }}>#{row.order.orderNumber}</Typography>
+                  <Typography sx={{ fontSize: '12px', color: row.labelUrl ? '#a1a1aa' : '#ef4444' }} noWrap>
+                    {row.labelUrl ? `${row.carrier} ${row.trackingNumber}` : row.error || 'Not purchased'}
+                  </Typography>
+                </Box>
+                {row.labelUrl && (
+                  <Button
+                    size="small"
+                    onClick={() => window.open(row.labelUrl, '_blank')}
+                    sx={{ fontSize: '11px', minWidth: 0 }}
+                  >
+                    Label
+                  </Button>
+                )}
+              </Box>
+            ))}
+          </Box>
+        </DialogContent>
+
+        <DialogActions sx={{ borderTop: '1px solid #27272a', p: 2 }}>
+          <Button onClick={handleClose} variant="outlined" sx={cancelButtonSx}>
+            Close
+          </Button>
+          <Button
+            onClick={() => window.open(mergedLabels?.pdfUrl, '_blank')}
+            variant="contained"
+            disabled={!mergedLabels}
+            sx={{ minWidth: 160 }}
+          >
+            Print All ({mergedLabels?.pageCount || 0} pages)
+          </Button>
+        </DialogActions>
+      </>
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{
+        sx: {
+          backgroundColor: '#18181b',
+          border: '1px solid #27272a',
+        },
+      }}
+    >
+      <DialogTitle sx={{ borderBottom: '1px solid #27272a', pb: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+          <LocalShippingIcon sx={{ color: '#3b82f6' }} />
+          <Typography sx={{ fontWeight: 600, fontSize: '18px', color: '#fff' }}>
+            {step === 'form' && `Batch Labels (${orders.length} orders)`}
+            {step === 'rates' && 'Review Rates'}
+            {step === 'purchasing' && 'Purchasing Labels'}
+            {step === 'success' && 'Batch Complete'}
+          </Typography>
+        </Box>
+      </DialogTitle>
+
+      {step === 'form' && renderFormStep()}
+      {step === 'rates' && renderRatesStep()}
+      {step === 'purchasing' && renderPurchasingStep()}
+      {step === 'success' && renderSuccessStep()}
+    </Dialog>
+  );
+};
@@ -30,7 +30,10 @@ import {
   LabelResult,
   Shipment,
   PickupResult,
+  WAREHOUSE_ADDRESS,
+  BOX_PRESETS,
 } from '../../services/shippoShipping';
+import { getItemProfile, saveParcelPreset } from '../../services/itemProfiles';
 import { Order } from '../../types';
 import { collection, addDoc } from 'firebase/firestore';
 import { db } from '../../services/firebase';
@@ -40,20 +43,11 @@ interface ShippingDialogProps {
   open: boolean;
   onClose: () => void;
   order?: Order;
-  onLabelPurchased?: (trackingNumber: string, carrier: string, shipPrice: string) => void;
+  // 'return' ships from the buyer back to the warehouse (prepaid return label)
+  mode?: 'outbound' | 'return';
+  onLabelPurchased?: (trackingNumber: string, carrier: string, shipPrice: string, labelUrl: string) => void;
 }
 
-// Warehouse address for quick-fill
-const WAREHOUSE_ADDRESS: Address = {
-  name: 'Pardical LLC',
-  street1: '348 S Lyman Ave',
-  street2: '',
-  city: 'Des Plaines',
-  state: 'IL',
-  zip: '60016',
-  country: 'US',
-};
-
 type Step = 'form' | 'rates' | 'pickup' | 'success';
 type ToAddressSource = 'manual' | 'customer' | 'warehouse';
 
@@ -81,7 +75,8 @@ const isPickupEligible = (rate: ShippingRate): boolean => {
          service.includes('ground advantage');
 };
 
-export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, order, onLabelPurchased }) => {
+export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, order, mode = 'outbound', onLabelPurchased }) => {
+  const isReturn = mode === 'return';
   const { user } = useAuth();
   const [step, setStep] = useState<Step>('form');
   const [isLoading, setIsLoading] = useState(false);
@@ -114,6 +109,8 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
   const [length, setLength] = useState('');
   const [width, setWidth] = useState('');
   const [height, setHeight] = useState('');
+  const [boxPreset, setBoxPreset] = useState('');
+  const [prefilledFromItem, setPrefilledFromItem] = useState(false);
 
   // Rates step
   const [rates, setRates] = useState<ShippingRate[]>([]);
@@ -130,7 +127,17 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
 
   // Initialize addresses when opened with an order
   useEffect(() => {
-    if (open && order) {
+    if (open && order && isReturn) {
+      // Return label: buyer ships back to the warehouse
+      setFromName(order.shipName || order.buyerUsername || '');
+      setFromStreet1(order.shipAddress || '');
+      setFromStreet2(order.shipAddress2 || '');
+      setFromCity(order.shipCity || '');
+      setFromState(order.shipState || '');
+      setFromZip(order.shipZip || '');
+      setFromCountry(order.shipCountry || 'US');
+      handleToAddressSourceChange('warehouse');
+    } else if (open && order) {
       // Pre-fill FROM as warehouse when opened from a ticket
       handleUseWarehouseFrom(true);
       // If customer has address, pre-select customer as TO
@@ -138,7 +145,43 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
         handleToAddressSourceChange('customer');
       }
     }
-  }, [open, order?.id]);
+  }, [open, order?.id, isReturn]);
+
+  // Prefill package details from the last label bought for this item
+  const orderItem = order?.item;
+  const orderItemId = order?.itemId;
+  useEffect(() => {
+    if (!open || !orderItem) return;
+
+    let cancelled = false;
+    getItemProfile(orderItem, orderItemId)
+      .then((profile) => {
+        const preset = profile?.parcelPreset;
+        if (cancelled || !preset) return;
+        setWeightLbs(preset.weightLbs ? String(preset.weightLbs) : '');
+        setWeightOz(preset.weightOz ? String(preset.weightOz) : '');
+        setLength(String(preset.length));
+        setWidth(String(preset.width));
+        setHeight(String(preset.height));
+        setBoxPreset(preset.boxPreset || '');
+        setPrefilledFromItem(true);
+      })
+      .catch((err) => console.error('Error loading parcel preset:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, orderItem, orderItemId]);
+
+  const handleBoxPresetChange = (presetId: string) => {
+    setBoxPreset(presetId);
+    const preset = BOX_PRESETS.find((b) => b.id === presetId);
+    if (preset) {
+      setLength(String(preset.length));
+      setWidth(String(preset.width));
+      setHeight(String(preset.height));
+    }
+  };
 
   const handleToAddressSourceChange = (source: ToAddressSource) => {
     setToAddressSource(source);
@@ -255,7 +298,8 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
       setSelectedRateIsPickupEligible(eligible);
 
       // Route to pickup step if eligible, otherwise go to success
-      if (eligible) {
+      // (no pickup for return labels - the buyer drops those off)
+      if (eligible && !isReturn) {
         setStep('pickup');
       } else {
         setStep('success');
@@ -278,13 +322,31 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
         createdAt: new Date().toISOString(),
         createdBy: user?.displayName || user?.email || 'unknown',
         price: selectedRateData?.amount,
+        type: mode,
       };
       await addDoc(collection(db, 'shipments'), shipmentData);
 
+      // Remember this parcel for the next order of the same item
+      if (order?.item && !isReturn) {
+        saveParcelPreset(
+          order.item,
+          order.itemId,
+          {
+            weightLbs: parseFloat(weightLbs) || 0,
+            weightOz: parseFloat(weightOz) || 0,
+            length: parseFloat(length) || 1,
+            width: parseFloat(width) || 1,
+            height: parseFloat(height) || 1,
+            ...(boxPreset ? { boxPreset } : {}),
+          },
+          user?.email || ''
+        ).catch((err) => console.error('Error saving parcel preset:', err));
+      }
+
       // Call callback to update ticket with tracking info and shipping price
       if (onLabelPurchased && finalResult.trackingNumber && finalResult.carrier) {
         const shipPrice = selectedRateData?.amount || '0';
-        onLabelPurchased(finalResult.trackingNumber, finalResult.carrier, shipPrice);
+        onLabelPurchased(finalResult.trackingNumber, finalResult.carrier, shipPrice, finalResult.labelUrl);
       }
     } catch (err) {
       console.error('Error purchasing label:', err);
@@ -323,6 +385,8 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
     setLength('');
     setWidth('');
     setHeight('');
+    setBoxPreset('');
+    setPrefilledFromItem(false);
     // Reset pickup state
     setPickupLocation('Front Door');
     setPickupInstructions('');
@@ -562,11 +626,45 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
 
         {/* Package Dimensions Section */}
         <Box>
-          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
-            <Box sx={{ width: 3, height: 12, backgroundColor: '#3b82f6', borderRadius: 1 }} />
-            <Typography sx={{ fontSize: '11px', fontWeight: 600, textTransform: 'uppercase', letterSpacing: '0.5px', color: '#71717a' }}>
-              Package Details
-            </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Box sx={{ width: 3, height: 12, backgroundColor: '#3b82f6', borderRadius: 1 }} />
+              <Typography sx={{ fontSize: '11px', fontWeight: 600, textTransform: 'uppercase', letterSpacing: '0.5px', color: '#71717a' }}>
+                Package Details
+              </Typography>
+              {prefilledFromItem && (
+                <Chip
+                  label="From last label"
+                  size="small"
+                  sx={{
+                    height: '20px',
+                    fontSize: '10px',
+                    fontWeight: 600,
+                    backgroundColor: 'rgba(59, 130, 246, 0.15)',
+                    color: '#3b82f6',
+                    '& .MuiChip-label': { px: 1 },
+                  }}
+                />
+              )}
+            </Box>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel sx={{ fontSize: '13px' }}>Box Preset</InputLabel>
+              <Select
+                value={boxPreset}
+                label="Box Preset"
+                onChange={(e) => handleBoxPresetChange(e.target.value)}
+                sx={{ fontSize: '13px' }}
+              >
+                <MenuItem value="" sx={{ fontSize: '13px' }}>
+                  <em>Custom</em>
+                </MenuItem>
+                {BOX_PRESETS.map((preset) => (
+                  <MenuItem key={preset.id} value={preset.id} sx={{ fontSize: '13px' }}>
+                    {preset.name} ({preset.length}x{preset.width}x{preset.height})
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
           </Box>
 
           <Grid container spacing={2}>
@@ -597,7 +695,10 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
                 label="Length (in)"
                 type="number"
                 value={length}
-                onChange={(e) => setLength(e.target.value)}
+                onChange={(e) => {
+                  setLength(e.target.value);
+                  setBoxPreset('');
+                }}
                 fullWidth
                 size="small"
                 sx={inputSx}
@@ -608,7 +709,10 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
                 label="Width (in)"
                 type="number"
                 value={width}
-                onChange={(e) => setWidth(e.target.value)}
+                onChange={(e) => {
+                  setWidth(e.target.value);
+                  setBoxPreset('');
+                }}
                 fullWidth
                 size="small"
                 sx={inputSx}
@@ -619,7 +723,10 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
                 label="Height (in)"
                 type="number"
                 value={height}
-                onChange={(e) => setHeight(e.target.value)}
+                onChange={(e) => {
+                  setHeight(e.target.value);
+                  setBoxPreset('');
+                }}
                 fullWidth
                 size="small"
                 sx={inputSx}
@@ -1002,7 +1109,7 @@ export const ShippingDialog: React.FC<ShippingDialogProps> = ({ open, onClose, o
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
           <LocalShippingIcon sx={{ color: '#3b82f6' }} />
           <Typography sx={{ fontWeight: 600, fontSize: '18px', color: '#fff' }}>
-            {step === 'form' && 'Create Shipping Label'}
+            {step === 'form' && (isReturn ? 'Create Return Label' : 'Create Shipping Label')}
             {step === 'rates' && 'Select Shipping Rate'}
             {step === 'pickup' && 'Schedule Pickup'}
             {step === 'success' && (pickupResult ? 'Label & Pickup Confirmed' : 'Label Purchased')}
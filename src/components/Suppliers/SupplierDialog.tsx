@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  TextField,
+  Typography,
+  IconButton,
+  Divider,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+import { useAuth } from '../Auth/AuthContext';
+import { saveSupplier, EMPTY_SUPPLIER_TERMS } from '../../services/suppliers';
+import { Supplier, SupplierContact } from '../../types/supplier';
+
+interface SupplierDialogProps {
+  open: boolean;
+  supplier: Supplier | null;   // null adds a new supplier
+  initialName?: string;        // prefill when adding a name seen on orders
+  onClose: () => void;
+}
+
+const EMPTY_CONTACT: SupplierContact = { name: '', phone: '', email: '' };
+
+// Helper to parse an optional number field (blank -> null)
+const parseOptional = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const num = parseFloat(value);
+  return isNaN(num) ? NaN : num;
+};
+
+/**
+ * Add or edit a supplier in the directory
+ */
+export const SupplierDialog: React.FC<SupplierDialogProps> = ({
+  open,
+  supplier,
+  initialName,
+  onClose,
+}) => {
+  const { user } = useAuth();
+  const [name, setName] = useState('');
+  const [contacts, setContacts] = useState<SupplierContact[]>([EMPTY_CONTACT]);
+  const [paymentTerms, setPaymentTerms] = useState('');
+  const [defaultShipPrice, setDefaultShipPrice] = useState('');
+  const [leadTimeDays, setLeadTimeDays] = useState('');
+  const [returnPolicy, setReturnPolicy] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const terms = supplier?.defaultTerms || EMPTY_SUPPLIER_TERMS;
+    setName(supplier?.name || initialName || '');
+    setContacts(supplier?.contacts.length ? supplier.contacts : [EMPTY_CONTACT]);
+    setPaymentTerms(terms.paymentTerms);
+    setDefaultShipPrice(terms.defaultShipPrice !== null ? String(terms.defaultShipPrice) : '');
+    setLeadTimeDays(terms.leadTimeDays !== null ? String(terms.leadTimeDays) : '');
+    setReturnPolicy(terms.returnPolicy);
+    setNotes(supplier?.notes || '');
+  }, [open, supplier, initialName]);
+
+  const parsedShipPrice = parseOptional(defaultShipPrice);
+  const parsedLeadTime = parseOptional(leadTimeDays);
+  const shipPriceValid = parsedShipPrice === null || (!isNaN(parsedShipPrice) && parsedShipPrice >= 0);
+  const leadTimeValid = parsedLeadTime === null || (!isNaN(parsedLeadTime) && parsedLeadTime >= 0);
+
+  const updateContact = (index: number, field: keyof SupplierContact, value: string) => {
+    setContacts((prev) => prev.map((contact, i) => (i === index ? { ...contact, [field]: value } : contact)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveSupplier(
+        supplier?.id || null,
+        {
+          name,
+          contacts,
+          defaultTerms: {
+            paymentTerms,
+            defaultShipPrice: parsedShipPrice,
+            leadTimeDays: parsedLeadTime,
+            returnPolicy,
+          },
+          notes,
+        },
+        user?.email || 'unknown'
+      );
+      onClose();
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      alert('Failed to save supplier. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{supplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+      <DialogContent>
+        <Box display="flex" flexDirection="column" gap={2} mt={1}>
+          <TextField
+            label="Name"
+            size="small"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            helperText="Matched to the supplier typed on orders (not case-sensitive)"
+            autoFocus
+          />
+
+          <Divider />
+          <Box display="flex" justifyContent="space-between" alignItems="center">
+            <Typography variant="subtitle2">Contacts</Typography>
+            <Button size="small" startIcon={<AddIcon />} onClick={() => setContacts([...contacts, EMPTY_CONTACT])}>
+              Add Contact
+            </Button>
+          </Box>
+          {contacts.map((contact, index) => (
+            <Box key={index} display="flex" gap={1} alignItems="center">
+              <TextField
+                label="Name"
+                size="small"
+                value={contact.name}
+                onChange={(e) => updateContact(index, 'name', e.target.value)}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Phone"
+                size="small"
+                value={contact.phone}
+                onChange={(e) => updateContact(index, 'phone', e.target.value)}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Email"
+                size="small"
+                value={contact.email || ''}
+                onChange={(e) => updateContact(index, 'email', e.target.value)}
+                sx={{ flex: 1.5 }}
+              />
+              <IconButton
+                size="small"
+                onClick={() => setContacts(contacts.filter((_, i) => i !== index))}
+                disabled={contacts.length === 1}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Typography variant="caption" color="text.secondary">
+            The first contact is filled in on orders when this supplier is picked
+          </Typography>
+
+          <Divider />
+          <Typography variant="subtitle2">Default Terms</Typography>
+          <Box display="flex" gap={1}>
+            <TextField
+              label="Payment terms"
+              size="small"
+              value={paymentTerms}
+              onChange={(e) => setPaymentTerms(e.target.value)}
+              placeholder="e.g., Net 30"
+              sx={{ flex: 2 }}
+            />
+            <TextField
+              label="Usual shipping"
+              size="small"
+              value={defaultShipPrice}
+              onChange={(e) => setDefaultShipPrice(e.target.value)}
+              error={!shipPriceValid}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              label="Lead time (days)"
+              size="small"
+              value={leadTimeDays}
+              onChange={(e) => setLeadTimeDays(e.target.value)}
+              error={!leadTimeValid}
+              sx={{ flex: 1 }}
+            />
+          </Box>
+          <TextField
+            label="Return policy"
+            size="small"
+            value={returnPolicy}
+            onChange={(e) => setReturnPolicy(e.target.value)}
+          />
+          <TextField
+            label="Notes"
+            size="small"
+            multiline
+            minRows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={saving || !name.trim() || !shipPriceValid || !leadTimeValid}
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,327 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Chip,
+  Button,
+  TextField,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import {
+  subscribeToSuppliers,
+  getSupplierScorecards,
+  applySupplierDirectory,
+  deleteSupplier,
+} from '../../services/suppliers';
+import { formatCurrency } from '../../services/staleItems';
+import { formatMonthKey } from '../../services/profitReport';
+import { Supplier, SupplierScorecard } from '../../types/supplier';
+import { SupplierDialog } from './SupplierDialog';
+import { useAuth } from '../Auth/AuthContext';
+
+// Default window: the last 12 months
+const getDefaultStartDate = (): string => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - 1);
+  return date.toLocaleDateString('en-CA');
+};
+
+// Month keys from the start date through this month (e.g., "2025-03")
+const getMonthKeys = (startDate: string): string[] => {
+  const keys: string[] = [];
+  const cursor = new Date(`${startDate}T00:00:00`);
+  cursor.setDate(1);
+  const now = new Date();
+  while (cursor <= now) {
+    keys.push(`${cursor.getFullYear()}-${String(cursor.getMonth() + 1).padStart(2, '0')}`);
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return keys;
+};
+
+// Color for return rate - over 10% is worth a conversation
+const getReturnRateColor = (rate: number): string =>
+  rate >= 10 ? '#ef4444' : rate >= 5 ? '#f97316' : '#22c55e';
+
+// Monthly order volume as a row of small bars
+const VolumeBars: React.FC<{ volume: Record<string, number>; months: string[] }> = ({ volume, months }) => {
+  const max = Math.max(1, ...months.map((month) => volume[month] || 0));
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: 24 }}>
+      {months.map((month) => (
+        <Tooltip key={month} title={`${formatMonthKey(month)}: ${volume[month] || 0} orders`}>
+          <Box
+            sx={{
+              width: 6,
+              height: `${Math.max(2, ((volume[month] || 0) / max) * 24)}px`,
+              backgroundColor: volume[month] ? '#3b82f6' : '#27272a',
+              borderRadius: '1px',
+            }}
+          />
+        </Tooltip>
+      ))}
+    </Box>
+  );
+};
+
+/**
+ * Supplier directory with a scorecard for each supplier, computed from the
+ * orders and returns they fulfilled
+ */
+export const SupplierList: React.FC = () => {
+  const { hasRole } = useAuth();
+  const showMargin = hasRole('manager');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [scorecards, setScorecards] = useState<SupplierScorecard[]>([]);
+  const [startDate, setStartDate] = useState(getDefaultStartDate);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnlisted, setShowUnlisted] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Supplier | null>(null);
+  const [newName, setNewName] = useState<string | undefined>();
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSuppliers(setSuppliers);
+    return () => unsubscribe();
+  }, []);
+
+  const loadScorecards = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setScorecards(await getSupplierScorecards(startDate));
+    } catch (err) {
+      console.error('Error loading supplier scorecards:', err);
+      setError('Failed to load supplier scorecards');
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate]);
+
+  useEffect(() => {
+    loadScorecards();
+  }, [loadScorecards]);
+
+  const months = useMemo(() => getMonthKeys(startDate), [startDate]);
+  const suppliersById = useMemo(() => new Map(suppliers.map((s) => [s.id, s])), [suppliers]);
+  const directoryCards = useMemo(() => applySupplierDirectory(scorecards, suppliers), [scorecards, suppliers]);
+  const visible = showUnlisted ? directoryCards : directoryCards.filter((card) => card.supplierId);
+  const unlistedCount = directoryCards.filter((card) => !card.supplierId).length;
+
+  const openDialog = (supplier: Supplier | null, name?: string) => {
+    setEditing(supplier);
+    setNewName(name);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!confirm(`Remove "${supplier.name}" from the directory?\n\nOrders keep the supplier name.`)) return;
+    try {
+      await deleteSupplier(supplier.id);
+    } catch (err) {
+      console.error('Error deleting supplier:', err);
+      alert('Failed to delete supplier. Please try again.');
+    }
+  };
+
+  return (
+    <Container maxWidth="xl" sx={{ mt: 4, mb: 4 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
+        <Box>
+          <Typography variant="h4" gutterBottom>
+            Suppliers
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Contacts, default terms and how each supplier has performed on our orders
+          </Typography>
+        </Box>
+        <Button variant="contained" onClick={() => openDialog(null)}>
+          Add Supplier
+        </Button>
+      </Box>
+
+      <Box display="flex" gap={2} mb={2} alignItems="center" flexWrap="wrap">
+        <TextField
+          label="Orders paid since"
+          type="date"
+          size="small"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <IconButton onClick={loadScorecards} disabled={loading} size="small">
+          <RefreshIcon />
+        </IconButton>
+        <Chip
+          label={`Not in directory (${unlistedCount})`}
+          size="small"
+          onClick={() => setShowUnlisted(!showUnlisted)}
+          color={showUnlisted ? 'primary' : 'default'}
+          variant={showUnlisted ? 'filled' : 'outlined'}
+        />
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Supplier</TableCell>
+                <TableCell>Contact</TableCell>
+                <TableCell>Terms</TableCell>
+                <TableCell align="right">Orders</TableCell>
+                <TableCell align="right">Returns</TableCell>
+                <TableCell align="right">Avg Buy</TableCell>
+                {showMargin && <TableCell align="right">Margin</TableCell>}
+                <TableCell align="right">Days to Ship</TableCell>
+                <TableCell>Volume</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visible.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={showMargin ? 10 : 9} align="center">
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                      No suppliers yet. Add one, or pick a date range with orders.
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visible.map((card) => {
+                  const supplier = card.supplierId ? suppliersById.get(card.supplierId) : undefined;
+                  const contact = supplier?.contacts[0];
+                  return (
+                    <TableRow key={card.key} hover>
+                      <TableCell>
+                        <Typography variant="body2">{card.name}</Typography>
+                        {!supplier && (
+                          <Chip
+                            label="Add to directory"
+                            size="small"
+                            variant="outlined"
+                            onClick={() => openDialog(null, card.name)}
+                            sx={{ mt: 0.5, height: 20, fontSize: '11px' }}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {contact ? (
+                          <>
+                            <Typography variant="body2">{contact.name}</Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {contact.phone}
+                              {supplier && supplier.contacts.length > 1 && ` · +${supplier.contacts.length - 1} more`}
+                            </Typography>
+                          </>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {supplier ? (
+                          <>
+                            <Typography variant="body2">{supplier.defaultTerms.paymentTerms || '-'}</Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {[
+                                supplier.defaultTerms.defaultShipPrice !== null &&
+                                  `Ship ${formatCurrency(supplier.defaultTerms.defaultShipPrice)}`,
+                                supplier.defaultTerms.leadTimeDays !== null &&
+                                  `${supplier.defaultTerms.leadTimeDays}d lead`,
+                              ].filter(Boolean).join(' · ')}
+                            </Typography>
+                          </>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{card.orderCount}</TableCell>
+                      <TableCell align="right">
+                        {card.orderCount > 0 ? (
+                          <Typography variant="body2" sx={{ color: getReturnRateColor(card.returnRate) }}>
+                            {card.returnCount} ({card.returnRate.toFixed(1)}%)
+                          </Typography>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell align="right">
+                        {card.avgBuyPrice !== null ? formatCurrency(card.avgBuyPrice) : '-'}
+                      </TableCell>
+                      {showMargin && (
+                        <TableCell align="right">
+                          {card.margin !== null ? (
+                            <Typography variant="body2" sx={{ color: card.margin < 0 ? '#ef4444' : 'inherit' }}>
+                              {card.margin.toFixed(1)}%
+                            </Typography>
+                          ) : (
+                            '-'
+                          )}
+                        </TableCell>
+                      )}
+                      <TableCell align="right">
+                        {card.avgDaysToShip !== null ? card.avgDaysToShip.toFixed(1) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <VolumeBars volume={card.volumeByMonth} months={months} />
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        {supplier && (
+                          <>
+                            <IconButton size="small" onClick={() => openDialog(supplier)}>
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton size="small" onClick={() => handleDelete(supplier)}>
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+        {showMargin && 'Margin counts orders with a buy price that weren\'t returned. '}
+        Days to ship runs from paid date to label purchase.
+      </Typography>
+
+      <SupplierDialog
+        open={dialogOpen}
+        supplier={editing}
+        initialName={newName}
+        onClose={() => setDialogOpen(false)}
+      />
+    </Container>
+  );
+};
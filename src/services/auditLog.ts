@@ -0,0 +1,104 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { AuditCollection, AuditEntry, AuditEntryFirestore } from '../types/audit';
+
+// Written only by the audit triggers in functions/src/auditLog.ts
+const AUDIT_LOG_COLLECTION = 'auditLog';
+
+export const AUDIT_FEED_PAGE_SIZE = 100;
+
+// Convert Firestore timestamps to JS Dates
+const convertToEntry = (id: string, data: AuditEntryFirestore): AuditEntry => ({
+  ...data,
+  id,
+  changedAt: data.changedAt?.toDate?.() || new Date(),
+});
+
+// Show a recorded value in a single line
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Whether an entry matches the feed filters (actor, field, and text in the order/item/values)
+export const matchesAuditFilter = (
+  entry: AuditEntry,
+  filter: { changedBy?: string; field?: string; text?: string }
+): boolean => {
+  if (filter.changedBy && entry.changedBy !== filter.changedBy) return false;
+  if (filter.field && !entry.fields.includes(filter.field)) return false;
+
+  const text = filter.text?.trim().toLowerCase();
+  if (!text) return true;
+  const changes = filter.field
+    ? entry.changes.filter((change) => change.field === filter.field)
+    : entry.changes;
+  return [
+    entry.orderNumber,
+    entry.item,
+    ...changes.map((change) => formatAuditValue(change.newValue)),
+  ].some((value) => value.toLowerCase().includes(text));
+};
+
+// Subscribe to the history of one order or return, newest first
+// Sorted here so the two equality filters don't need a composite index
+export const subscribeToDocumentHistory = (
+  collectionName: AuditCollection,
+  docId: string,
+  onUpdate: (entries: AuditEntry[]) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, AUDIT_LOG_COLLECTION),
+    where('collection', '==', collectionName),
+    where('docId', '==', docId)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const entries = snapshot.docs.map((docSnap) =>
+        convertToEntry(docSnap.id, docSnap.data() as AuditEntryFirestore)
+      );
+      entries.sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime());
+      onUpdate(entries);
+    },
+    (error) => {
+      console.error('Error subscribing to change history:', error);
+      onUpdate([]);
+    }
+  );
+};
+
+// Subscribe to the latest changes across all orders and returns (admin activity feed)
+export const subscribeToActivityFeed = (
+  limitCount: number,
+  onUpdate: (entries: AuditEntry[]) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, AUDIT_LOG_COLLECTION),
+    orderBy('changedAt', 'desc'),
+    limit(limitCount)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      onUpdate(
+        snapshot.docs.map((docSnap) => convertToEntry(docSnap.id, docSnap.data() as AuditEntryFirestore))
+      );
+    },
+    (error) => {
+      console.error('Error subscribing to activity feed:', error);
+      onUpdate([]);
+    }
+  );
+};
@@ -0,0 +1,162 @@
+import {
+  collection,
+  query,
+  orderBy,
+  onSnapshot,
+  doc,
+  writeBatch,
+  deleteField,
+  Timestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  Disposition,
+  DispositionAction,
+  DispositionFirestore,
+  DispositionStatus,
+} from '../types/disposition';
+import { ItemStats } from '../types/staleItems';
+
+const DISPOSITIONS_COLLECTION = 'dispositions';
+const ITEM_STATS_COLLECTION = 'itemStats';
+
+export const DISPOSITION_ACTION_LABELS: Record<DispositionAction, string> = {
+  markdown: 'Markdown',
+  bundle: 'Bundle',
+  scrap: 'Scrap',
+  yard: 'Sell to Yard',
+};
+
+// Convert Firestore timestamps to JS Dates
+const convertToDisposition = (id: string, data: DispositionFirestore): Disposition => ({
+  ...data,
+  id,
+  decidedAt: data.decidedAt?.toDate?.() || new Date(),
+  lastSaleDateAtDecision: data.lastSaleDateAtDecision?.toDate?.() || null,
+  updatedAt: data.updatedAt?.toDate?.() || new Date(),
+  outcome: data.outcome
+    ? {
+        ...data.outcome,
+        soldAt: data.outcome.soldAt?.toDate?.(),
+        closedAt: data.outcome.closedAt?.toDate?.(),
+      }
+    : undefined,
+});
+
+// Subscribe to all dispositions, newest decisions first
+export const subscribeToDispositions = (
+  onUpdate: (dispositions: Disposition[]) => void
+): Unsubscribe => {
+  const q = query(collection(db, DISPOSITIONS_COLLECTION), orderBy('decidedAt', 'desc'));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      onUpdate(
+        snapshot.docs.map((docSnap) =>
+          convertToDisposition(docSnap.id, docSnap.data() as DispositionFirestore)
+        )
+      );
+    },
+    (error) => {
+      console.error('Error subscribing to dispositions:', error);
+      onUpdate([]);
+    }
+  );
+};
+
+// Record a disposition for a stale item and mark it reviewed
+// A later sale of the item resolves it automatically (see functions/src/dispositions.ts)
+export const createDisposition = async (
+  item: ItemStats,
+  input: {
+    action: DispositionAction;
+    targetPrice: number | null;
+    deadline: string;
+    notes: string;
+  },
+  decidedBy: string
+): Promise<string> => {
+  const now = Timestamp.now();
+  const dispositionRef = doc(collection(db, DISPOSITIONS_COLLECTION));
+
+  const disposition: DispositionFirestore = {
+    itemId: item.id,
+    itemName: item.itemName,
+    action: input.action,
+    targetPrice: input.targetPrice,
+    deadline: input.deadline,
+    notes: input.notes.trim(),
+    decidedBy,
+    decidedAt: now,
+    lastSaleDateAtDecision: item.lastSaleDate ? Timestamp.fromDate(item.lastSaleDate) : null,
+    status: 'open',
+    updatedAt: now,
+  };
+
+  const batch = writeBatch(db);
+  batch.set(dispositionRef, disposition);
+  batch.update(doc(db, ITEM_STATS_COLLECTION, item.id), {
+    activeDisposition: {
+      id: dispositionRef.id,
+      action: input.action,
+      targetPrice: input.targetPrice,
+      deadline: input.deadline,
+    },
+    reviewedAt: now,
+    updatedAt: now,
+  });
+  await batch.commit();
+
+  return dispositionRef.id;
+};
+
+// Close a disposition by hand - e.g. the part was scrapped or picked up by the yard
+export const closeDisposition = async (
+  disposition: Disposition,
+  outcome: { recoveredAmount: number | null; note: string },
+  closedBy: string
+): Promise<void> => {
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+
+  batch.update(doc(db, DISPOSITIONS_COLLECTION, disposition.id), {
+    status: 'closed',
+    outcome: {
+      recoveredAmount: outcome.recoveredAmount,
+      note: outcome.note.trim(),
+      closedBy,
+      closedAt: now,
+    },
+    updatedAt: now,
+  });
+  batch.update(doc(db, ITEM_STATS_COLLECTION, disposition.itemId), {
+    activeDisposition: deleteField(),
+    updatedAt: now,
+  });
+
+  await batch.commit();
+};
+
+// Days left before the deadline (negative once it has passed)
+export const getDaysUntilDeadline = (deadline: string): number => {
+  const end = new Date(`${deadline}T23:59:59`);
+  return Math.ceil((end.getTime() - Date.now()) / (1000 * 60 * 60 * 24)) - 1;
+};
+
+// Color for disposition status chips
+export const getDispositionStatusColor = (
+  status: DispositionStatus
+): 'success' | 'error' | 'warning' | 'default' => {
+  switch (status) {
+    case 'sold':
+      return 'success';
+    case 'expired':
+      return 'error';
+    case 'open':
+      return 'warning';
+    default:
+      return 'default';
+  }
+};
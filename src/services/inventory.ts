@@ -0,0 +1,92 @@
+import {
+  doc,
+  getDoc,
+  collection,
+  runTransaction,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { normalizeItemName } from './itemProfiles';
+import { InventoryRecord } from '../types/inventory';
+
+const INVENTORY_COLLECTION = 'inventory';
+
+// Locations are shown on every order card - cache lookups for the session
+const locationCache = new Map<string, Promise<string | null>>();
+
+// Get the inventory record for an item (null if it isn't tracked yet)
+export const getInventory = async (itemName: string): Promise<InventoryRecord | null> => {
+  const docSnap = await getDoc(doc(db, INVENTORY_COLLECTION, normalizeItemName(itemName)));
+  if (!docSnap.exists()) return null;
+  return { id: docSnap.id, ...docSnap.data() } as InventoryRecord;
+};
+
+// Get just the bin/shelf location for an item (cached)
+export const getInventoryLocation = (itemName: string): Promise<string | null> => {
+  const inventoryId = normalizeItemName(itemName);
+  let cached = locationCache.get(inventoryId);
+  if (!cached) {
+    cached = getInventory(itemName)
+      .then((record) => record?.location || null)
+      .catch((error) => {
+        console.error('Error loading inventory location:', error);
+        locationCache.delete(inventoryId);
+        return null;
+      });
+    locationCache.set(inventoryId, cached);
+  }
+  return cached;
+};
+
+// Create or update an item's inventory
+// Changing the on-hand quantity records an adjustment movement
+export const saveInventory = async (
+  itemName: string,
+  itemId: string | undefined,
+  updates: {
+    quantityOnHand: number;
+    location: string;
+    acquiredAt?: string;
+    acquisitionCost?: number;
+  },
+  userEmail: string
+): Promise<void> => {
+  const inventoryId = normalizeItemName(itemName);
+  const inventoryRef = doc(db, INVENTORY_COLLECTION, inventoryId);
+  const now = new Date().toISOString();
+
+  await runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(inventoryRef);
+    const previousQuantity = existing.exists() ? existing.data().quantityOnHand || 0 : 0;
+    const delta = updates.quantityOnHand - previousQuantity;
+
+    const record: Omit<InventoryRecord, 'id' | 'createdAt'> = {
+      itemName,
+      ...(itemId && { itemId }),
+      quantityOnHand: updates.quantityOnHand,
+      location: updates.location.trim(),
+      ...(updates.acquiredAt && { acquiredAt: updates.acquiredAt }),
+      ...(updates.acquisitionCost !== undefined && { acquisitionCost: updates.acquisitionCost }),
+      updatedAt: now,
+      updatedBy: userEmail,
+    };
+
+    if (existing.exists()) {
+      transaction.update(inventoryRef, record);
+    } else {
+      transaction.set(inventoryRef, { ...record, createdAt: now });
+    }
+
+    if (delta !== 0) {
+      transaction.set(doc(collection(inventoryRef, 'movements')), {
+        type: 'adjustment',
+        delta,
+        quantityAfter: updates.quantityOnHand,
+        sourceRef: null,
+        createdBy: userEmail,
+        createdAt: now,
+      });
+    }
+  });
+
+  locationCache.set(inventoryId, Promise.resolve(updates.location.trim() || null));
+};
@@ -0,0 +1,71 @@
+import {
+  collection,
+  query,
+  where,
+  onSnapshot,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { db } from './firebase';
+import { ItemAlias, ItemAliasFirestore } from '../types/itemAlias';
+
+const ITEM_ALIASES_COLLECTION = 'itemAliases';
+
+// Subscribe to the titles that resolve to an item
+export const subscribeToItemAliases = (
+  itemId: string,
+  onUpdate: (aliases: ItemAlias[]) => void
+): Unsubscribe => {
+  const q = query(collection(db, ITEM_ALIASES_COLLECTION), where('targetId', '==', itemId));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      onUpdate(
+        snapshot.docs.map((docSnap) => {
+          const data = docSnap.data() as ItemAliasFirestore;
+          return {
+            ...data,
+            id: docSnap.id,
+            createdAt: data.createdAt?.toDate?.() || new Date(),
+          };
+        })
+      );
+    },
+    (error) => {
+      console.error('Error subscribing to item aliases:', error);
+      onUpdate([]);
+    }
+  );
+};
+
+// Merge duplicate items into the target (sales, price history, eBay metrics, profile)
+export const mergeItems = async (
+  targetId: string,
+  sourceIds: string[]
+): Promise<{ merged: number; salesMoved: number }> => {
+  const functions = getFunctions();
+  const merge = httpsCallable<
+    { targetId: string; sourceIds: string[] },
+    { success: boolean; merged: number; salesMoved: number }
+  >(functions, 'mergeItems');
+  const result = await merge({ targetId, sourceIds });
+  return { merged: result.data.merged, salesMoved: result.data.salesMoved };
+};
+
+// Point a title that hasn't sold yet at an existing item
+export const addItemAlias = async (itemId: string, aliasName: string): Promise<void> => {
+  const functions = getFunctions();
+  const add = httpsCallable<{ itemId: string; aliasName: string }, { success: boolean }>(
+    functions,
+    'addItemAlias'
+  );
+  await add({ itemId, aliasName });
+};
+
+// Stop resolving a title to another item
+export const removeItemAlias = async (aliasId: string): Promise<void> => {
+  const functions = getFunctions();
+  const remove = httpsCallable<{ aliasId: string }, { success: boolean }>(functions, 'removeItemAlias');
+  await remove({ aliasId });
+};
@@ -6,7 +6,8 @@ import {
   Timestamp,
 } from 'firebase/firestore';
 import { db } from './firebase';
-import { ItemProfile, ItemProfileFirestore } from '../types/itemProfile';
+import { ItemProfile, ItemProfileFirestore, ParcelPreset } from '../types/itemProfile';
+import { getRegistryEntry } from './itemRegistry';
 
 const ITEM_PROFILES_COLLECTION = 'itemProfiles';
 const ITEM_STATS_COLLECTION = 'itemStats';
@@ -40,9 +41,15 @@ const fetchEbayItemIdFromStats = async (itemName: string): Promise<string | unde
   return undefined;
 };
 
+// Resolve the profile doc ID - a registered SKU shares one profile across all its titles
+const resolveProfileId = async (itemName: string, itemId?: string): Promise<string> => {
+  const registryEntry = await getRegistryEntry(itemId);
+  return registryEntry?.profileId || normalizeItemName(itemName);
+};
+
 // Get item profile by item name (returns null if not exists)
-export const getItemProfile = async (itemName: string): Promise<ItemProfile | null> => {
-  const profileId = normalizeItemName(itemName);
+export const getItemProfile = async (itemName: string, itemId?: string): Promise<ItemProfile | null> => {
+  const profileId = await resolveProfileId(itemName, itemId);
   const docRef = doc(db, ITEM_PROFILES_COLLECTION, profileId);
   const docSnap = await getDoc(docRef);
 
@@ -59,7 +66,9 @@ export const getOrCreateItemProfile = async (
   itemId?: string,
   userEmail?: string
 ): Promise<ItemProfile> => {
-  const profileId = normalizeItemName(itemName);
+  // SKU first, then the title
+  const registryEntry = await getRegistryEntry(itemId);
+  const profileId = registryEntry?.profileId || normalizeItemName(itemName);
   const docRef = doc(db, ITEM_PROFILES_COLLECTION, profileId);
   const docSnap = await getDoc(docRef);
 
@@ -72,7 +81,7 @@ export const getOrCreateItemProfile = async (
     const now = Timestamp.now();
     const newProfile: ItemProfileFirestore = {
       id: profileId,
-      itemName: itemName,
+      itemName: registryEntry?.currentTitle || itemName,
       itemId: itemId || '',
       notes: '',
       ebayListingUrl: '',
@@ -88,8 +97,8 @@ export const getOrCreateItemProfile = async (
     profile = convertToItemProfile(newProfile);
   }
 
-  // Fetch ebayItemId from itemStats (if available)
-  const ebayItemId = await fetchEbayItemIdFromStats(itemName);
+  // Fetch ebayItemId from the registry or itemStats (if available)
+  const ebayItemId = registryEntry?.ebayItemId || await fetchEbayItemIdFromStats(itemName);
   if (ebayItemId) {
     profile.ebayItemId = ebayItemId;
   }
@@ -111,3 +120,14 @@ export const updateItemProfile = async (
     updatedBy: userEmail,
   });
 };
+
+// Remember the parcel from the last label bought for an item
+export const saveParcelPreset = async (
+  itemName: string,
+  itemId: string | undefined,
+  parcelPreset: ParcelPreset,
+  userEmail: string
+): Promise<void> => {
+  const profile = await getOrCreateItemProfile(itemName, itemId, userEmail);
+  await updateItemProfile(profile.id, { parcelPreset }, userEmail);
+};
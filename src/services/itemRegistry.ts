@@ -0,0 +1,59 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { db } from './firebase';
+import { ItemRegistryEntry, ItemRegistryEntryFirestore } from '../types/itemRegistry';
+
+const ITEM_REGISTRY_COLLECTION = 'itemRegistry';
+
+// Registry doc ID for a SKU - matches getSkuKey in functions/src/itemRegistry.ts
+export const getSkuKey = (sku: string): string => {
+  return sku.trim().toUpperCase().replace(/\//g, '_').slice(0, 100);
+};
+
+// Look up the canonical item for a SKU (null if blank or unregistered)
+export const getRegistryEntry = async (sku: string | undefined): Promise<ItemRegistryEntry | null> => {
+  if (!sku || !getSkuKey(sku)) return null;
+
+  const docSnap = await getDoc(doc(db, ITEM_REGISTRY_COLLECTION, getSkuKey(sku)));
+  if (!docSnap.exists()) return null;
+
+  const data = docSnap.data() as ItemRegistryEntryFirestore;
+  return {
+    ...data,
+    id: docSnap.id,
+    titles: (data.titles || []).map((title) => ({
+      ...title,
+      firstSeenAt: title.firstSeenAt?.toDate?.() || new Date(),
+      lastSeenAt: title.lastSeenAt?.toDate?.() || new Date(),
+    })),
+    createdAt: data.createdAt?.toDate?.() || new Date(),
+    updatedAt: data.updatedAt?.toDate?.() || new Date(),
+  };
+};
+
+// Build the SKU registry from historical orders
+export const runRegistryBackfill = async (): Promise<{
+  success: boolean;
+  skusRegistered: number;
+  ordersWithSku: number;
+  itemStatsUpdated: number;
+  profilesUpdated: number;
+  splitSkus: number;
+  splitSkuSamples: { sku: string; statsIds: string[] }[];
+}> => {
+  const functions = getFunctions();
+  const backfill = httpsCallable<
+    object,
+    {
+      success: boolean;
+      skusRegistered: number;
+      ordersWithSku: number;
+      itemStatsUpdated: number;
+      profilesUpdated: number;
+      splitSkus: number;
+      splitSkuSamples: { sku: string; statsIds: string[] }[];
+    }
+  >(functions, 'backfillItemRegistry');
+  const result = await backfill({});
+  return result.data;
+};
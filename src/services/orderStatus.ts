@@ -0,0 +1,186 @@
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { Order } from '../types';
+import {
+  OrderStatus,
+  OrderStatusRule,
+  OrderStatusStage,
+  StatusRequirement,
+} from '../types/orderStatus';
+
+// Matches ORDER_STATUS_RULES in functions/src/orderStatus.ts
+export const ORDER_STATUS_RULES: Record<OrderStatus, OrderStatusRule> = {
+  'not shipped': {
+    label: 'NOT SHIPPED',
+    stage: 'open',
+    next: ['processing', 'shipped', 'delivered', 'cancelled', 'return'],
+    requires: [],
+    effects: [],
+  },
+  'processing': {
+    label: 'PROCESSING',
+    stage: 'open',
+    next: ['not shipped', 'shipped', 'delivered', 'cancelled', 'return'],
+    requires: [],
+    effects: [],
+  },
+  'shipped': {
+    // Back to 'not shipped' when the label is voided (voidShippingLabel)
+    label: 'SHIPPED',
+    stage: 'shipped',
+    next: ['not shipped', 'delivered', 'completed', 'cancelled', 'return'],
+    requires: ['tracking'],
+    effects: [],
+  },
+  'delivered': {
+    label: 'DELIVERED',
+    stage: 'shipped',
+    next: ['completed', 'return'],
+    requires: ['tracking'],
+    effects: [],
+  },
+  'completed': {
+    label: 'COMPLETED',
+    stage: 'closed',
+    next: ['delivered', 'return'],
+    requires: [],
+    effects: [],
+  },
+  'return': {
+    label: 'RETURN',
+    stage: 'return',
+    next: ['return delivered', 'refunded', 'return complete'],
+    requires: [],
+    effects: ['openReturnTicket'],
+  },
+  'return delivered': {
+    label: 'RETURN DELIVERED',
+    stage: 'return',
+    next: ['refunded', 'return complete'],
+    requires: [],
+    effects: ['restockInventory'],
+  },
+  'refunded': {
+    label: 'REFUNDED',
+    stage: 'closed',
+    next: ['return complete'],
+    requires: ['credited'],
+    effects: [],
+  },
+  'return complete': {
+    label: 'RETURN COMPLETE',
+    stage: 'closed',
+    next: [],
+    requires: [],
+    effects: ['restockInventory'],
+  },
+  'cancelled': {
+    // Reopened if the cancellation falls through
+    label: 'CANCELLED',
+    stage: 'closed',
+    next: ['not shipped'],
+    requires: [],
+    effects: [],
+  },
+};
+
+// Legacy spellings still in Firestore -> canonical status
+// Matches LEGACY_STATUS_ALIASES in functions/src/orderStatus.ts
+const LEGACY_STATUS_ALIASES: Record<string, OrderStatus> = {
+  'notShipped': 'not shipped',
+  'return done': 'return complete',
+};
+
+const REQUIREMENT_MESSAGES: Record<StatusRequirement, string> = {
+  tracking: 'a tracking number and carrier',
+  credited: 'a credited amount',
+};
+
+// Map a stored status (canonical or legacy) to its canonical value
+export const normalizeOrderStatus = (status: string | undefined): OrderStatus | null => {
+  if (!status) return null;
+  if (status in ORDER_STATUS_RULES) return status as OrderStatus;
+  return LEGACY_STATUS_ALIASES[status] || null;
+};
+
+// Where a stored status sits in an order's life (unrecognised ones count as open)
+export const getStatusStage = (status: string | undefined): OrderStatusStage => {
+  const normalized = normalizeOrderStatus(status);
+  return normalized ? ORDER_STATUS_RULES[normalized].stage : 'open';
+};
+
+// Display label for a stored status
+export const getStatusLabel = (status: string): string => {
+  const normalized = normalizeOrderStatus(status);
+  return normalized ? ORDER_STATUS_RULES[normalized].label : status.toUpperCase();
+};
+
+// Every stored spelling (canonical and legacy) of the statuses in the given stages
+// For Firestore 'in' / 'not-in' queries, which match exact strings
+export const statusesInStages = (stages: OrderStatusStage[]): string[] => {
+  const statuses = (Object.keys(ORDER_STATUS_RULES) as OrderStatus[]).filter((status) =>
+    stages.includes(ORDER_STATUS_RULES[status].stage)
+  );
+  return [
+    ...statuses,
+    ...Object.keys(LEGACY_STATUS_ALIASES).filter((alias) => statuses.includes(LEGACY_STATUS_ALIASES[alias])),
+  ];
+};
+
+// Statuses offered in a card's dropdown: the current one plus wherever it can move
+// Unrecognised statuses can move anywhere so bad data never gets stuck
+export const getStatusOptions = (current: string): OrderStatus[] => {
+  const normalized = normalizeOrderStatus(current);
+  if (!normalized) return Object.keys(ORDER_STATUS_RULES) as OrderStatus[];
+  return [normalized, ...ORDER_STATUS_RULES[normalized].next];
+};
+
+// Helper to check whether an order/return has what a requirement asks for
+const meetsRequirement = (
+  requirement: StatusRequirement,
+  values: Pick<Order, 'tracking' | 'carrier' | 'credited'>
+): boolean => {
+  switch (requirement) {
+    case 'tracking':
+      return !!values.tracking?.trim() && !!values.carrier?.trim();
+    case 'credited':
+      return !!values.credited?.trim();
+  }
+};
+
+/**
+ * Why an order/return can't move from one status to another (null if it can)
+ * values are what will be saved alongside the status change
+ * Same check as getTransitionError in functions/src/orderStatus.ts
+ */
+export const getTransitionError = (
+  from: string,
+  to: OrderStatus,
+  values: Pick<Order, 'tracking' | 'carrier' | 'credited'>
+): string | null => {
+  const current = normalizeOrderStatus(from);
+  if (current === to) return null;
+  if (current && !ORDER_STATUS_RULES[current].next.includes(to)) {
+    return `Can't change status from "${current}" to "${to}"`;
+  }
+
+  const missing = ORDER_STATUS_RULES[to].requires.filter((requirement) => !meetsRequirement(requirement, values));
+  if (missing.length > 0) {
+    return `"${to}" needs ${missing.map((requirement) => REQUIREMENT_MESSAGES[requirement]).join(' and ')}`;
+  }
+  return null;
+};
+
+// Rewrite legacy status spellings on every order and return (admins only)
+export const runStatusNormalization = async (): Promise<{
+  success: boolean;
+  total: number;
+  normalized: Record<string, number>;
+}> => {
+  const functions = getFunctions();
+  const normalize = httpsCallable<
+    object,
+    { success: boolean; total: number; normalized: Record<string, number> }
+  >(functions, 'normalizeOrderStatuses');
+  const result = await normalize({});
+  return result.data;
+};
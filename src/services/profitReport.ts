@@ -0,0 +1,120 @@
+import {
+  collection,
+  collectionGroup,
+  query,
+  where,
+  getDocs,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { SaleRecordFirestore } from '../types/staleItems';
+import { ProfitSale, ProfitGroup } from '../types/profit';
+
+const UNASSIGNED = 'Unassigned';
+
+// Helper to read the supplier/employee fields the way OrderCard stores them
+const cleanField = (value: unknown): string => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text && text.toLowerCase() !== 'n/a' ? text : UNASSIGNED;
+};
+
+/**
+ * Load every sale between two dates (YYYY-MM-DD, end inclusive)
+ * Profit comes from the itemStats sale records; the orders in the same
+ * range supply the title, supplier and employee
+ */
+export const getProfitSales = async (startDate: string, endDate: string): Promise<ProfitSale[]> => {
+  // Sale dates are stored as UTC midnight of the paid day, so bound them in UTC
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+
+  const [salesSnapshot, ordersSnapshot] = await Promise.all([
+    getDocs(
+      query(
+        collectionGroup(db, 'sales'),
+        where('saleDate', '>=', Timestamp.fromDate(start)),
+        where('saleDate', '<', Timestamp.fromDate(end))
+      )
+    ),
+    getDocs(
+      query(
+        collection(db, 'orders'),
+        // paidDate is stored as YYYY-MM-DD, so compare against the date strings
+        where('paidDate', '>=', startDate),
+        where('paidDate', '<=', endDate)
+      )
+    ),
+  ]);
+
+  const orders = new Map(ordersSnapshot.docs.map((docSnap) => [docSnap.id, docSnap.data()]));
+
+  return salesSnapshot.docs.map((docSnap) => {
+    const data = docSnap.data() as SaleRecordFirestore;
+    const itemStatsId = docSnap.ref.parent.parent?.id || '';
+    const order = orders.get(docSnap.id);
+    const cost = (data.purchaseCost || 0) + (data.shipCost || 0);
+    const profit = data.profit ?? data.salePrice - cost;
+
+    return {
+      orderId: docSnap.id,
+      orderNumber: data.orderNumber || order?.orderNumber,
+      itemStatsId,
+      itemName: order?.item || itemStatsId,
+      saleDate: data.saleDate?.toDate?.() || new Date(),
+      salePrice: data.salePrice || 0,
+      cost,
+      profit,
+      profitMargin: data.profitMargin ?? (data.salePrice > 0 ? (profit / data.salePrice) * 100 : 0),
+      supplier: cleanField(order?.supplier),
+      employee: cleanField(order?.employee),
+    };
+  });
+};
+
+/**
+ * Roll sales up into groups (items, suppliers, months), best profit first
+ */
+export const summarizeProfit = (
+  sales: ProfitSale[],
+  getKey: (sale: ProfitSale) => string,
+  getLabel: (sale: ProfitSale) => string = getKey
+): ProfitGroup[] => {
+  const groups = new Map<string, ProfitGroup>();
+
+  for (const sale of sales) {
+    const key = getKey(sale);
+    const group = groups.get(key) || {
+      key,
+      label: getLabel(sale),
+      saleCount: 0,
+      revenue: 0,
+      cost: 0,
+      profit: 0,
+      margin: 0,
+      negativeSales: 0,
+    };
+    group.saleCount++;
+    group.revenue += sale.salePrice;
+    group.cost += sale.cost;
+    group.profit += sale.profit;
+    if (sale.profit < 0) group.negativeSales++;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      margin: group.revenue > 0 ? (group.profit / group.revenue) * 100 : 0,
+    }))
+    .sort((a, b) => b.profit - a.profit);
+};
+
+// Month key for grouping (e.g., "2025-03") - sale dates are UTC midnight
+export const getSaleMonthKey = (sale: ProfitSale): string => sale.saleDate.toISOString().slice(0, 7);
+
+// Month label for display (e.g., "Mar 2025")
+export const formatMonthKey = (monthKey: string): string => {
+  const [year, month] = monthKey.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
@@ -0,0 +1,160 @@
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { getTrackingStatus } from './shippo';
+import { Order } from '../types';
+import { PurchaseOrder, PurchaseOrderStage } from '../types/purchaseOrder';
+
+// Purchase order fields edited on the card (the rest is set by the actions below)
+export type PurchaseOrderInput = Pick<
+  PurchaseOrder,
+  'supplierOrderNumber' | 'shipTo' | 'orderedAt' | 'expectedArrival' | 'inboundTracking' | 'inboundCarrier'
+>;
+
+export const PURCHASE_ORDER_STAGE_LABELS: Record<PurchaseOrderStage, string> = {
+  ordered: 'Ordered',
+  inTransit: 'In Transit',
+  delivered: 'Delivered',
+  received: 'Received',
+  inspected: 'Inspected',
+};
+
+// Still waiting on the supplier: not at our door yet, or (drop-ship) not delivered to the buyer
+export const isAwaitingSupplier = (
+  po: Pick<PurchaseOrder, 'shipTo' | 'inboundTrackingStatus' | 'receivedAt'>
+): boolean =>
+  po.shipTo === 'buyer' ? po.inboundTrackingStatus !== 'DELIVERED' : !po.receivedAt;
+
+// Waiting on the supplier and past the expected arrival date
+export const isPastExpectedArrival = (po?: PurchaseOrder, now = new Date()): boolean => {
+  if (!po?.awaitingSupplier || !po.expectedArrival) return false;
+  return po.expectedArrival < now.toLocaleDateString('en-CA');
+};
+
+// Where a purchase order is in its life
+export const getPurchaseOrderStage = (po: PurchaseOrder): PurchaseOrderStage => {
+  if (po.inspectedAt) return 'inspected';
+  if (po.receivedAt) return 'received';
+  if (po.inboundTrackingStatus === 'DELIVERED') return 'delivered';
+  if (po.inboundTrackingStatus === 'TRANSIT' || po.inboundTrackingStatus === 'PRE_TRANSIT') return 'inTransit';
+  return 'ordered';
+};
+
+// Write the whole purchase order back onto the order, keeping awaitingSupplier in sync
+const writePurchaseOrder = async (
+  orderId: string,
+  po: Omit<PurchaseOrder, 'awaitingSupplier' | 'updatedAt' | 'updatedBy'>,
+  userEmail: string
+): Promise<PurchaseOrder> => {
+  const now = new Date().toISOString();
+  // Firestore rejects undefined values
+  const cleaned = Object.fromEntries(
+    Object.entries(po).filter(([, value]) => value !== undefined)
+  ) as Omit<PurchaseOrder, 'awaitingSupplier' | 'updatedAt' | 'updatedBy'>;
+
+  const purchaseOrder: PurchaseOrder = {
+    ...cleaned,
+    awaitingSupplier: isAwaitingSupplier(cleaned),
+    updatedAt: now,
+    updatedBy: userEmail,
+  };
+
+  await updateDoc(doc(db, 'orders', orderId), {
+    purchaseOrder,
+    updatedAt: now,
+    updatedBy: userEmail,
+  });
+  return purchaseOrder;
+};
+
+// Create or update the purchase order on an order
+// Changing the inbound tracking number clears the cached status for the old one
+export const savePurchaseOrder = async (
+  order: Order,
+  input: PurchaseOrderInput,
+  userEmail: string
+): Promise<PurchaseOrder> => {
+  const existing = order.purchaseOrder;
+  const inboundTracking = input.inboundTracking?.trim() || undefined;
+  const trackingChanged = inboundTracking !== existing?.inboundTracking;
+
+  return writePurchaseOrder(
+    order.id,
+    {
+      ...existing,
+      ...input,
+      supplierOrderNumber: input.supplierOrderNumber.trim(),
+      inboundTracking,
+      inboundCarrier: input.inboundCarrier?.trim() || undefined,
+      ...(trackingChanged && {
+        inboundTrackingStatus: undefined,
+        inboundTrackingStatusDetails: undefined,
+        inboundTrackingEta: undefined,
+        inboundTrackingLastChecked: undefined,
+      }),
+    },
+    userEmail
+  );
+};
+
+// Refresh the supplier shipment through the Shippo tracking callable
+// and save the checkpoints under the order as 'inboundTracking'
+export const refreshInboundTracking = async (
+  order: Order,
+  po: PurchaseOrder,
+  userEmail: string
+): Promise<PurchaseOrder> => {
+  if (!po.inboundTracking || !po.inboundCarrier) {
+    throw new Error('Inbound tracking number and carrier are required');
+  }
+
+  const result = await getTrackingStatus(po.inboundCarrier, po.inboundTracking, {
+    collection: 'orders',
+    docId: order.id,
+    field: 'inboundTracking',
+  });
+
+  return writePurchaseOrder(
+    order.id,
+    {
+      ...po,
+      inboundTrackingStatus: result.status,
+      inboundTrackingStatusDetails: result.statusDetails,
+      inboundTrackingEta: result.eta,
+      inboundTrackingLastChecked: new Date().toISOString(),
+    },
+    userEmail
+  );
+};
+
+// Record that the part arrived at our door
+export const markPurchaseOrderReceived = async (
+  order: Order,
+  po: PurchaseOrder,
+  userEmail: string
+): Promise<PurchaseOrder> =>
+  writePurchaseOrder(
+    order.id,
+    { ...po, receivedAt: new Date().toISOString(), receivedBy: userEmail },
+    userEmail
+  );
+
+// Record the inspection before the part is reshipped to the buyer
+export const markPurchaseOrderInspected = async (
+  order: Order,
+  po: PurchaseOrder,
+  inspection: { result: 'passed' | 'failed'; notes: string },
+  userEmail: string
+): Promise<PurchaseOrder> =>
+  writePurchaseOrder(
+    order.id,
+    {
+      ...po,
+      receivedAt: po.receivedAt || new Date().toISOString(),
+      receivedBy: po.receivedBy || userEmail,
+      inspectedAt: new Date().toISOString(),
+      inspectedBy: userEmail,
+      inspectionResult: inspection.result,
+      inspectionNotes: inspection.notes.trim(),
+    },
+    userEmail
+  );
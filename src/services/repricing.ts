@@ -0,0 +1,120 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  doc,
+  writeBatch,
+  Timestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { db } from './firebase';
+import {
+  RepricingRecommendation,
+  RepricingRecommendationFirestore,
+  RepricingDecisionFirestore,
+} from '../types/repricing';
+
+const RECOMMENDATIONS_COLLECTION = 'repricingRecommendations';
+const DECISIONS_COLLECTION = 'repricingDecisions';
+const ITEM_STATS_COLLECTION = 'itemStats';
+
+// Convert Firestore timestamps to JS Dates
+const convertToRecommendation = (
+  id: string,
+  data: RepricingRecommendationFirestore
+): RepricingRecommendation => ({
+  ...data,
+  id,
+  createdAt: data.createdAt?.toDate?.() || new Date(),
+  updatedAt: data.updatedAt?.toDate?.() || new Date(),
+  decidedAt: data.decidedAt?.toDate?.(),
+});
+
+// Subscribe to the pending repricing queue, biggest markdowns first
+export const subscribeToPendingRecommendations = (
+  onUpdate: (recommendations: RepricingRecommendation[]) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, RECOMMENDATIONS_COLLECTION),
+    where('status', '==', 'pending'),
+    orderBy('changePercent', 'asc')
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      onUpdate(
+        snapshot.docs.map((docSnap) =>
+          convertToRecommendation(docSnap.id, docSnap.data() as RepricingRecommendationFirestore)
+        )
+      );
+    },
+    (error) => {
+      console.error('Error subscribing to repricing queue:', error);
+      onUpdate([]);
+    }
+  );
+};
+
+// Accept or reject a recommendation and append the decision to the log
+// Accepting also records the target price on the item so the listing can be updated
+export const decideRecommendation = async (
+  recommendation: RepricingRecommendation,
+  decision: 'accepted' | 'rejected',
+  decidedBy: string,
+  options?: { finalPrice?: number; note?: string }
+): Promise<void> => {
+  const now = Timestamp.now();
+  const finalPrice = decision === 'accepted'
+    ? options?.finalPrice ?? recommendation.suggestedPrice
+    : null;
+
+  const batch = writeBatch(db);
+
+  batch.update(doc(db, RECOMMENDATIONS_COLLECTION, recommendation.id), {
+    status: decision,
+    decidedAt: now,
+    decidedBy,
+    ...(finalPrice !== null && { finalPrice }),
+    updatedAt: now,
+  });
+
+  const logEntry: RepricingDecisionFirestore = {
+    recommendationId: recommendation.id,
+    itemId: recommendation.itemId,
+    itemName: recommendation.itemName,
+    decision,
+    previousPrice: recommendation.currentPrice,
+    suggestedPrice: recommendation.suggestedPrice,
+    finalPrice,
+    reasons: recommendation.reasons,
+    note: options?.note?.trim() || null,
+    decidedBy,
+    decidedAt: now,
+  };
+  batch.set(doc(collection(db, DECISIONS_COLLECTION)), logEntry);
+
+  if (finalPrice !== null) {
+    batch.update(doc(db, ITEM_STATS_COLLECTION, recommendation.itemId), {
+      targetListingPrice: finalPrice,
+      targetListingPriceSetAt: now,
+      updatedAt: now,
+    });
+  }
+
+  await batch.commit();
+};
+
+// Regenerate the queue now instead of waiting for the weekly run
+export const refreshRecommendations = async (): Promise<{ queued: number; skipped: number }> => {
+  const functions = getFunctions();
+  const refresh = httpsCallable<object, { success: boolean; queued: number; skipped: number }>(
+    functions,
+    'refreshRepricingRecommendations'
+  );
+  const result = await refresh({});
+  return { queued: result.data.queued, skipped: result.data.skipped };
+};
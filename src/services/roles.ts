@@ -0,0 +1,102 @@
+import {
+  collection,
+  doc,
+  query,
+  orderBy,
+  onSnapshot,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { db } from './firebase';
+import {
+  UserRole,
+  UserRoleAssignment,
+  UserRoleAssignmentFirestore,
+} from '../types/roles';
+
+const USER_ROLES_COLLECTION = 'userRoles';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  employee: 'Employee',
+  manager: 'Manager',
+  admin: 'Admin',
+};
+
+// Matches ROLE_RANK in functions/src/roles.ts
+const ROLE_RANK: Record<UserRole, number> = {
+  employee: 0,
+  manager: 1,
+  admin: 2,
+};
+
+// Read a role out of custom claims - users nobody has assigned a role to are employees
+export const getRoleFromClaims = (claims: Record<string, unknown>): UserRole => {
+  const role = claims.role;
+  return typeof role === 'string' && role in ROLE_RANK ? (role as UserRole) : 'employee';
+};
+
+// Whether a role includes everything the minimum role can do
+export const roleAtLeast = (role: UserRole | undefined, minimum: UserRole): boolean =>
+  ROLE_RANK[role || 'employee'] >= ROLE_RANK[minimum];
+
+// Convert Firestore timestamps to JS Dates
+const convertToAssignment = (data: UserRoleAssignmentFirestore): UserRoleAssignment => ({
+  ...data,
+  updatedAt: data.updatedAt?.toDate?.() || new Date(),
+  claimsSyncedAt: data.claimsSyncedAt?.toDate?.(),
+});
+
+// Subscribe to every role assignment (admin screen)
+export const subscribeToUserRoles = (
+  onUpdate: (assignments: UserRoleAssignment[]) => void
+): Unsubscribe => {
+  const q = query(collection(db, USER_ROLES_COLLECTION), orderBy('email'));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      onUpdate(
+        snapshot.docs.map((docSnap) => convertToAssignment(docSnap.data() as UserRoleAssignmentFirestore))
+      );
+    },
+    (error) => {
+      console.error('Error subscribing to user roles:', error);
+      onUpdate([]);
+    }
+  );
+};
+
+// Subscribe to the signed-in user's own assignment (null if none)
+// AuthContext uses it to pick up role changes without signing out
+export const subscribeToMyRole = (
+  email: string,
+  onUpdate: (assignment: UserRoleAssignment | null) => void
+): Unsubscribe =>
+  onSnapshot(
+    doc(db, USER_ROLES_COLLECTION, email.trim().toLowerCase()),
+    (docSnap) => {
+      onUpdate(docSnap.exists() ? convertToAssignment(docSnap.data() as UserRoleAssignmentFirestore) : null);
+    },
+    (error) => {
+      console.error('Error subscribing to role:', error);
+    }
+  );
+
+// Assign a role by email (admins only - the callable checks)
+export const setUserRole = async (email: string, role: UserRole): Promise<void> => {
+  const functions = getFunctions();
+  const assign = httpsCallable<{ email: string; role: UserRole }, { success: boolean }>(
+    functions,
+    'setUserRole'
+  );
+  await assign({ email: email.trim(), role });
+};
+
+// Ask the server to copy the caller's assigned role into their claims
+// (for roles assigned before the user first signed in)
+export const refreshRoleClaims = async (): Promise<UserRole> => {
+  const functions = getFunctions();
+  const refresh = httpsCallable<object, { role: UserRole }>(functions, 'refreshRoleClaims');
+  const result = await refresh({});
+  return result.data.role;
+};
@@ -0,0 +1,57 @@
+/**
+ * Order Search Service
+ * Uses Firebase Cloud Function to search orders and returns across all history
+ */
+
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { app } from './firebase';
+import { Order } from '../types';
+
+const functions = getFunctions(app);
+const searchOrdersAndReturnsFn = httpsCallable(functions, 'searchOrdersAndReturns');
+
+interface SearchHitResponse {
+  id: string;
+  collection: 'orders' | 'returns';
+  score: number;
+  matchedFields: string[];
+  data: Omit<Order, 'id' | '_collection'>;
+}
+
+interface SearchResponse {
+  results: SearchHitResponse[];
+  total: number;
+  nextOffset: number | null;
+  truncated: boolean;
+}
+
+export interface OrderSearchResult {
+  orders: Order[];
+  total: number;
+  nextOffset: number | null;
+  truncated: boolean;
+}
+
+/**
+ * Search orders and returns by order number, buyer, email, ship name,
+ * tracking number, item title or supplier. Results come back ranked.
+ */
+export async function searchOrdersAndReturns(
+  searchQuery: string,
+  offset = 0,
+  pageSize = 25
+): Promise<OrderSearchResult> {
+  const result = await searchOrdersAndReturnsFn({ query: searchQuery, offset, pageSize });
+  const data = result.data as SearchResponse;
+
+  return {
+    orders: data.results.map((hit) => ({
+      ...hit.data,
+      id: hit.id,
+      _collection: hit.collection,
+    } as Order)),
+    total: data.total,
+    nextOffset: data.nextOffset,
+    truncated: data.truncated,
+  };
+}
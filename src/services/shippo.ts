@@ -4,7 +4,9 @@
  */
 
 import { getFunctions, httpsCallable } from 'firebase/functions';
-import { app } from './firebase';
+import { collection, getDocs } from 'firebase/firestore';
+import { app, db } from './firebase';
+import { TrackingEvent } from '../types';
 
 const functions = getFunctions(app);
 const getShippoTrackingFn = httpsCallable(functions, 'getShippoTracking');
@@ -19,6 +21,7 @@ export type TrackingStatus =
 
 export interface TrackingResult {
   status: TrackingStatus;
+  substatus?: string | null;
   statusDetails: string;
   eta: string | null;
   location?: {
@@ -27,17 +30,26 @@ export interface TrackingResult {
   };
 }
 
+// Order/return the checkpoint history should be saved under
+export interface TrackingTarget {
+  collection: 'orders' | 'returns';
+  docId: string;
+  field?: 'inboundTracking'; // purchase order shipment instead of the order's own
+}
+
 /**
  * Fetch tracking status via Cloud Function
+ * Pass a target to also save the checkpoint history for the timeline
  */
 export async function getTrackingStatus(
   carrier: string,
-  trackingNumber: string
+  trackingNumber: string,
+  target?: TrackingTarget
 ): Promise<TrackingResult> {
   // console.log('Shippo: Fetching tracking via Cloud Function for', carrier, trackingNumber);
 
   try {
-    const result = await getShippoTrackingFn({ carrier, trackingNumber });
+    const result = await getShippoTrackingFn({ carrier, trackingNumber, target });
     const data = result.data as TrackingResult;
 
     console.log('Shippo: Got response', data.status);
@@ -80,3 +92,61 @@ export function shouldFetchTracking(
   // Check if cache is stale
   return isTrackingStale(lastChecked);
 }
+
+export type TrackingExceptionType = 'FAILURE' | 'RETURNED' | 'STUCK_PRE_TRANSIT' | 'PAST_ETA';
+
+export const TRACKING_EXCEPTION_LABELS: Record<TrackingExceptionType, string> = {
+  FAILURE: 'Delivery Failed',
+  RETURNED: 'Returned to Sender',
+  STUCK_PRE_TRANSIT: 'Stuck in Pre Transit',
+  PAST_ETA: 'Past ETA',
+};
+
+/**
+ * Work out whether a shipment needs attention
+ * @param since ISO date the label was created (start of the PRE_TRANSIT clock)
+ * @param stuckDays Days in PRE_TRANSIT before it counts as stuck
+ */
+export function getTrackingException(
+  status?: TrackingStatus,
+  eta?: string | null,
+  since?: string,
+  stuckDays = 3,
+  now = new Date()
+): TrackingExceptionType | null {
+  if (!status || status === 'DELIVERED') return null;
+  if (status === 'FAILURE') return 'FAILURE';
+  if (status === 'RETURNED') return 'RETURNED';
+
+  if (status === 'PRE_TRANSIT' && since) {
+    const days = (now.getTime() - new Date(since).getTime()) / (1000 * 60 * 60 * 24);
+    if (days > stuckDays) return 'STUCK_PRE_TRANSIT';
+  }
+
+  if (eta) {
+    const etaDate = new Date(eta);
+    // Allow the whole ETA day before flagging
+    etaDate.setHours(23, 59, 59, 999);
+    if (etaDate < now) return 'PAST_ETA';
+  }
+
+  return null;
+}
+
+/**
+ * Load the stored checkpoint history for one shipment, newest first
+ * Only checkpoints recorded for the current tracking number - a relabel or void
+ * leaves the old shipment's checkpoints under the same field
+ */
+export async function getTrackingEvents(
+  target: TrackingTarget,
+  field: TrackingEvent['field'],
+  trackingNumber: string
+): Promise<TrackingEvent[]> {
+  const snapshot = await getDocs(collection(db, target.collection, target.docId, 'trackingEvents'));
+
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() } as TrackingEvent))
+    .filter((event) => event.field === field && event.trackingNumber === trackingNumber.trim())
+    .sort((a, b) => new Date(b.statusDate || 0).getTime() - new Date(a.statusDate || 0).getTime());
+}
@@ -23,6 +23,36 @@ export interface Address {
   country: string;
 }
 
+// Warehouse address for quick-fill
+export const WAREHOUSE_ADDRESS: Address = {
+  name: 'Pardical LLC',
+  street1: '348 S Lyman Ave',
+  street2: '',
+  city: 'Des Plaines',
+  state: 'IL',
+  zip: '60016',
+  country: 'US',
+};
+
+// Named boxes we keep on the shelf (inches)
+export interface BoxPreset {
+  id: string;
+  name: string;
+  length: number;
+  width: number;
+  height: number;
+}
+
+export const BOX_PRESETS: BoxPreset[] = [
+  { id: 'small', name: 'Small Box', length: 8, width: 6, height: 4 },
+  { id: 'medium', name: 'Medium Box', length: 12, width: 10, height: 8 },
+  { id: 'large', name: 'Large Box', length: 18, width: 14, height: 12 },
+  { id: 'brake-rotor', name: 'Brake Rotor Box', length: 14, width: 14, height: 4 },
+  { id: 'module', name: 'Module / ECU Box', length: 12, width: 9, height: 5 },
+  { id: 'headlight', name: 'Headlight Box', length: 24, width: 16, height: 14 },
+  { id: 'long', name: 'Long Box (axles, bumpers)', length: 48, width: 10, height: 10 },
+];
+
 export interface Parcel {
   length: number;
   width: number;
@@ -54,6 +84,8 @@ export interface PickupResult {
 export interface VoidResult {
   refundId: string;
   status: 'QUEUED' | 'PENDING' | 'SUCCESS' | 'ERROR';
+  // Order moved back to 'not shipped' because its label was voided
+  resetOrderId: string | null;
 }
 
 export interface Shipment {
@@ -73,6 +105,8 @@ export interface Shipment {
   createdAt: string;
   createdBy: string;
   price?: string;
+  // 'return' = prepaid label from buyer back to warehouse (missing on older outbound labels)
+  type?: 'outbound' | 'return';
   // Void/refund tracking
   refundId?: string;
   refundStatus?: 'QUEUED' | 'PENDING' | 'SUCCESS' | 'ERROR';
@@ -139,3 +173,32 @@ export async function voidShippingLabel(transactionId: string): Promise<VoidResu
   const result = await voidShippingLabelFn({ transactionId });
   return result.data as VoidResult;
 }
+
+const mergeShippingLabelsFn = httpsCallable(functions, 'mergeShippingLabels');
+
+export interface MergedLabels {
+  pdfUrl: string; // object URL - revoke when done
+  pageCount: number;
+  failedUrls: string[];
+}
+
+/**
+ * Merge several label PDFs into one printable document
+ * Used by batch label purchasing
+ */
+export async function mergeShippingLabels(labelUrls: string[]): Promise<MergedLabels> {
+  const result = await mergeShippingLabelsFn({ labelUrls });
+  const data = result.data as { pdfBase64: string; pageCount: number; failedUrls: string[] };
+
+  const binary = atob(data.pdfBase64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return {
+    pdfUrl: URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' })),
+    pageCount: data.pageCount,
+    failedUrls: data.failedUrls,
+  };
+}
@@ -31,6 +31,7 @@ import {
   EbayMetricsEntryFirestore,
   PricingData,
   EbayMetrics,
+  DemandForecast,
 } from '../types/staleItems';
 
 const ITEM_STATS_COLLECTION = 'itemStats';
@@ -58,7 +59,14 @@ const convertToItemStats = (data: ItemStatsFirestore): ItemStats => ({
     ...entry,
     checkedAt: entry.checkedAt?.toDate?.() || new Date(),
   })),
+  forecast: data.forecast
+    ? {
+        ...data.forecast,
+        calculatedAt: data.forecast.calculatedAt?.toDate?.() || new Date(),
+      }
+    : undefined,
   ebayListingUpdatedAt: data.ebayListingUpdatedAt?.toDate?.(),
+  targetListingPriceSetAt: data.targetListingPriceSetAt?.toDate?.(),
   reviewedAt: data.reviewedAt?.toDate?.(),
 });
 
@@ -367,6 +375,34 @@ export const importEbayData = async (
   }
 };
 
+// Recalculate the demand forecast for one item via Cloud Function
+export const refreshItemForecast = async (itemId: string): Promise<DemandForecast> => {
+  const functions = getFunctions();
+  const forecastDemand = httpsCallable<
+    { itemId: string },
+    { success: boolean; forecast: Omit<DemandForecast, 'calculatedAt'> & { calculatedAt: string } }
+  >(functions, 'forecastItemDemand');
+  const result = await forecastDemand({ itemId });
+  return {
+    ...result.data.forecast,
+    calculatedAt: new Date(result.data.forecast.calculatedAt),
+  };
+};
+
+const MONTH_ABBREVIATIONS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Utility: "expected to sell again in ~X days" wording
+export const formatExpectedNextSale = (forecast?: DemandForecast): string => {
+  if (!forecast) return 'No forecast yet';
+  const days = forecast.expectedDaysToNextSale;
+  if (days === null) return 'Not expected within a year';
+  return days === 1 ? '~1 day' : `~${days} days`;
+};
+
+// Utility: Peak months as "Nov, Dec"
+export const formatPeakMonths = (peakMonths: number[]): string =>
+  peakMonths.map((month) => MONTH_ABBREVIATIONS[month - 1]).join(', ');
+
 // Utility: Get stale status color
 export const getStaleStatusColor = (
   daysSinceLastSale: number
@@ -0,0 +1,55 @@
+import {
+  collection,
+  getDocs,
+  doc,
+  setDoc,
+  deleteDoc,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { StaleRuleSet, StaleSeverity } from '../types/staleItems';
+
+const STALE_RULE_SETS_COLLECTION = 'staleRuleSets';
+
+// Get all stale rule sets, highest priority first
+export const getStaleRuleSets = async (): Promise<StaleRuleSet[]> => {
+  const snapshot = await getDocs(collection(db, STALE_RULE_SETS_COLLECTION));
+  return snapshot.docs
+    .map((docSnap) => ({ ...docSnap.data(), id: docSnap.id }) as StaleRuleSet)
+    .sort((a, b) => (b.priority || 0) - (a.priority || 0));
+};
+
+// Create or replace a rule set (evaluated by the nightly stale metrics job)
+export const saveStaleRuleSet = async (ruleSet: StaleRuleSet): Promise<void> => {
+  const { id, ...data } = ruleSet;
+  await setDoc(doc(db, STALE_RULE_SETS_COLLECTION, id), data);
+};
+
+export const deleteStaleRuleSet = async (id: string): Promise<void> => {
+  await deleteDoc(doc(db, STALE_RULE_SETS_COLLECTION, id));
+};
+
+// Starting point for a new rule set - mirrors the old single-threshold behavior
+export const createEmptyRuleSet = (): StaleRuleSet => ({
+  id: doc(collection(db, STALE_RULE_SETS_COLLECTION)).id,
+  name: 'New rule set',
+  enabled: true,
+  isDefault: false,
+  priority: 10,
+  appliesTo: { partTypes: [], categories: [] },
+  rules: [
+    {
+      id: 'item-threshold',
+      name: 'No sale within item threshold',
+      severity: 'stale',
+      conditions: { minDaysSinceLastSale: 'itemThreshold' },
+    },
+  ],
+  unreviewAfterDays: 60,
+});
+
+// Utility: Get severity chip color
+export const getSeverityColor = (severity: StaleSeverity): 'info' | 'warning' | 'error' => {
+  if (severity === 'watch') return 'info';
+  if (severity === 'stale') return 'warning';
+  return 'error';
+};
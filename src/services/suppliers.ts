@@ -0,0 +1,281 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  getDocs,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  Timestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { Order } from '../types';
+import { normalizeOrderStatus } from './orderStatus';
+import {
+  Supplier,
+  SupplierFirestore,
+  SupplierInput,
+  SupplierScorecard,
+  SupplierTerms,
+} from '../types/supplier';
+
+const SUPPLIERS_COLLECTION = 'suppliers';
+
+export const EMPTY_SUPPLIER_TERMS: SupplierTerms = {
+  paymentTerms: '',
+  defaultShipPrice: null,
+  leadTimeDays: null,
+  returnPolicy: '',
+};
+
+// Helper to match a supplier name the way it's typed on orders
+export const getSupplierKey = (name?: string): string => {
+  const key = (name || '').trim().toLowerCase();
+  return key === 'n/a' ? '' : key;
+};
+
+// Convert Firestore timestamps to JS Dates
+const convertToSupplier = (id: string, data: SupplierFirestore): Supplier => ({
+  id,
+  name: data.name,
+  contacts: data.contacts || [],
+  defaultTerms: { ...EMPTY_SUPPLIER_TERMS, ...data.defaultTerms },
+  notes: data.notes || '',
+  createdAt: data.createdAt?.toDate?.() || new Date(),
+  createdBy: data.createdBy || 'unknown',
+  updatedAt: data.updatedAt?.toDate?.() || new Date(),
+});
+
+// Every OrderCard autocompletes from the directory, so load it once and share it
+let suppliersCache: Promise<Supplier[]> | null = null;
+
+// Get the supplier directory, sorted by name
+export const getSuppliers = (): Promise<Supplier[]> => {
+  if (!suppliersCache) {
+    suppliersCache = getDocs(query(collection(db, SUPPLIERS_COLLECTION), orderBy('name')))
+      .then((snapshot) =>
+        snapshot.docs.map((docSnap) => convertToSupplier(docSnap.id, docSnap.data() as SupplierFirestore))
+      )
+      .catch((error) => {
+        suppliersCache = null;
+        throw error;
+      });
+  }
+  return suppliersCache;
+};
+
+// Subscribe to the supplier directory, sorted by name
+export const subscribeToSuppliers = (
+  onUpdate: (suppliers: Supplier[]) => void
+): Unsubscribe => {
+  const q = query(collection(db, SUPPLIERS_COLLECTION), orderBy('name'));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const suppliers = snapshot.docs.map((docSnap) =>
+        convertToSupplier(docSnap.id, docSnap.data() as SupplierFirestore)
+      );
+      suppliersCache = Promise.resolve(suppliers);
+      onUpdate(suppliers);
+    },
+    (error) => {
+      console.error('Error subscribing to suppliers:', error);
+      onUpdate([]);
+    }
+  );
+};
+
+// Find the directory entry for a supplier name typed on an order
+export const findSupplierByName = (suppliers: Supplier[], name?: string): Supplier | undefined => {
+  const key = getSupplierKey(name);
+  return key ? suppliers.find((supplier) => getSupplierKey(supplier.name) === key) : undefined;
+};
+
+// Create or update a supplier (supplierId null creates)
+export const saveSupplier = async (
+  supplierId: string | null,
+  input: SupplierInput,
+  userEmail: string
+): Promise<string> => {
+  const now = Timestamp.now();
+  const name = input.name.trim();
+  const fields = {
+    name,
+    nameKey: getSupplierKey(name),
+    contacts: input.contacts
+      .map((contact) => ({
+        name: contact.name.trim(),
+        phone: contact.phone.trim(),
+        email: contact.email?.trim() || '',
+      }))
+      .filter((contact) => contact.name || contact.phone || contact.email),
+    defaultTerms: {
+      ...input.defaultTerms,
+      paymentTerms: input.defaultTerms.paymentTerms.trim(),
+      returnPolicy: input.defaultTerms.returnPolicy.trim(),
+    },
+    notes: input.notes.trim(),
+    updatedAt: now,
+  };
+
+  suppliersCache = null;
+
+  if (supplierId) {
+    await updateDoc(doc(db, SUPPLIERS_COLLECTION, supplierId), fields);
+    return supplierId;
+  }
+
+  const supplier: SupplierFirestore = {
+    ...fields,
+    createdAt: now,
+    createdBy: userEmail,
+  };
+  const docRef = await addDoc(collection(db, SUPPLIERS_COLLECTION), supplier);
+  return docRef.id;
+};
+
+// Remove a supplier from the directory (orders keep the name they were saved with)
+export const deleteSupplier = async (supplierId: string): Promise<void> => {
+  suppliersCache = null;
+  await deleteDoc(doc(db, SUPPLIERS_COLLECTION, supplierId));
+};
+
+// Helper to read the money fields OrderCard stores as text
+const parseAmount = (value?: string): number => {
+  const num = parseFloat((value || '').replace(/[^\d.-]/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+// Month key from a YYYY-MM-DD paid date (e.g., "2025-03")
+// Sliced rather than parsed - new Date() reads it as UTC midnight
+const getPaidMonthKey = (paidDate: string): string => paidDate.slice(0, 7);
+
+/**
+ * Build supplier scorecards from orders and returns paid on or after startDate
+ * (YYYY-MM-DD)
+ * A return ticket keeps the supplier that fulfilled the order, and the
+ * original order is either marked 'return complete' or reset for a replacement,
+ * so each fulfillment is counted once: open orders + return tickets.
+ * Cards aren't linked to the directory yet - see applySupplierDirectory.
+ */
+export const getSupplierScorecards = async (startDate: string): Promise<SupplierScorecard[]> => {
+  // paidDate is stored as YYYY-MM-DD, so compare against the date string
+  const [ordersSnapshot, returnsSnapshot] = await Promise.all([
+    getDocs(query(collection(db, 'orders'), where('paidDate', '>=', startDate))),
+    getDocs(query(collection(db, 'returns'), where('paidDate', '>=', startDate))),
+  ]);
+
+  const cards = new Map<string, SupplierScorecard & { buyTotal: number; buyCount: number; shipDays: number[] }>();
+
+  const getCard = (name: string) => {
+    const key = getSupplierKey(name);
+    let card = cards.get(key);
+    if (!card) {
+      card = {
+        key,
+        name: name.trim(),
+        supplierId: null,
+        orderCount: 0,
+        returnCount: 0,
+        returnRate: 0,
+        avgBuyPrice: null,
+        revenue: 0,
+        cost: 0,
+        margin: null,
+        avgDaysToShip: null,
+        volumeByMonth: {},
+        buyTotal: 0,
+        buyCount: 0,
+        shipDays: [],
+      };
+      cards.set(key, card);
+    }
+    return card;
+  };
+
+  const addFulfillment = (order: Order, returned: boolean) => {
+    if (!getSupplierKey(order.supplier) || !order.paidDate || order.deletedAt) return;
+    const card = getCard(order.supplier as string);
+    const buyPrice = parseAmount(order.buyPrice);
+
+    card.orderCount++;
+    if (returned) card.returnCount++;
+    if (buyPrice > 0) {
+      card.buyTotal += buyPrice;
+      card.buyCount++;
+    }
+
+    // Margin only counts orders we kept the money on and know the cost of
+    if (!returned && buyPrice > 0) {
+      card.revenue += parseAmount(order.earnings);
+      card.cost += buyPrice + parseAmount(order.shipPrice);
+    }
+
+    if (order.labelPurchasedAt) {
+      const days = (new Date(order.labelPurchasedAt).getTime() - new Date(order.paidDate).getTime()) / (1000 * 60 * 60 * 24);
+      if (days >= 0) card.shipDays.push(days);
+    }
+
+    const month = getPaidMonthKey(order.paidDate);
+    card.volumeByMonth[month] = (card.volumeByMonth[month] || 0) + 1;
+  };
+
+  ordersSnapshot.docs.forEach((docSnap) => {
+    const order = docSnap.data() as Order;
+    if (normalizeOrderStatus(order.status) !== 'return complete') addFulfillment(order, false);
+  });
+  returnsSnapshot.docs.forEach((docSnap) => addFulfillment(docSnap.data() as Order, true));
+
+  return Array.from(cards.values())
+    .map(({ buyTotal, buyCount, shipDays, ...card }) => ({
+      ...card,
+      returnRate: card.orderCount > 0 ? (card.returnCount / card.orderCount) * 100 : 0,
+      avgBuyPrice: buyCount > 0 ? buyTotal / buyCount : null,
+      margin: card.revenue > 0 ? ((card.revenue - card.cost) / card.revenue) * 100 : null,
+      avgDaysToShip: shipDays.length > 0
+        ? shipDays.reduce((sum, days) => sum + days, 0) / shipDays.length
+        : null,
+    }))
+    .sort((a, b) => b.orderCount - a.orderCount);
+};
+
+// Scorecard with no orders, for directory suppliers that haven't fulfilled any in the range
+const createEmptyScorecard = (supplier: Supplier): SupplierScorecard => ({
+  key: getSupplierKey(supplier.name),
+  name: supplier.name,
+  supplierId: supplier.id,
+  orderCount: 0,
+  returnCount: 0,
+  returnRate: 0,
+  avgBuyPrice: null,
+  revenue: 0,
+  cost: 0,
+  margin: null,
+  avgDaysToShip: null,
+  volumeByMonth: {},
+});
+
+/**
+ * Link scorecards to directory suppliers by name
+ * Directory suppliers with no orders still get a (blank) card; names only
+ * seen on orders keep supplierId null.
+ */
+export const applySupplierDirectory = (
+  scorecards: SupplierScorecard[],
+  suppliers: Supplier[]
+): SupplierScorecard[] => {
+  const linked = scorecards.map((card) => {
+    const supplier = findSupplierByName(suppliers, card.name);
+    return supplier ? { ...card, name: supplier.name, supplierId: supplier.id } : card;
+  });
+  const seen = new Set(linked.map((card) => card.key));
+  const missing = suppliers
+    .filter((supplier) => getSupplierKey(supplier.name) && !seen.has(getSupplierKey(supplier.name)))
+    .map(createEmptyScorecard);
+  return [...linked, ...missing];
+};
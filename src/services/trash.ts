@@ -0,0 +1,80 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  onSnapshot,
+  updateDoc,
+  deleteField,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { Order } from '../types';
+
+// Trashed orders and returns are purged this many days after deletion
+// Matches TRASH_RETENTION_DAYS in functions/src/trash.ts
+export const TRASH_RETENTION_DAYS = 30;
+
+// Whether an order or return has been moved to the trash
+export const isTrashed = (order: Pick<Order, 'deletedAt'>): boolean => !!order.deletedAt;
+
+// When a trashed order or return will be purged for good
+export const getPurgeDate = (order: Pick<Order, 'deletedAt'>): Date | null => {
+  if (!order.deletedAt) return null;
+  const purgeDate = new Date(order.deletedAt);
+  purgeDate.setDate(purgeDate.getDate() + TRASH_RETENTION_DAYS);
+  return purgeDate;
+};
+
+// Move an order or return to the trash - it stays put, just hidden from lists,
+// search and item stats until it is restored or purged
+export const moveToTrash = async (order: Order, userEmail: string): Promise<void> => {
+  const now = new Date().toISOString();
+  await updateDoc(doc(db, order._collection || 'orders', order.id), {
+    deletedAt: now,
+    deletedBy: userEmail,
+    updatedAt: now,
+    updatedBy: userEmail,
+  });
+};
+
+// Bring a trashed order or return back (its item stats sale is re-added server-side)
+export const restoreFromTrash = async (order: Order, userEmail: string): Promise<void> => {
+  await updateDoc(doc(db, order._collection || 'orders', order.id), {
+    deletedAt: deleteField(),
+    deletedBy: deleteField(),
+    updatedAt: new Date().toISOString(),
+    updatedBy: userEmail,
+  });
+};
+
+// Subscribe to everything in the trash (orders and returns), most recently deleted first
+export const subscribeToTrash = (onUpdate: (orders: Order[]) => void): Unsubscribe => {
+  const results: Record<'orders' | 'returns', Order[]> = { orders: [], returns: [] };
+
+  const emit = () => {
+    const merged = [...results.orders, ...results.returns];
+    merged.sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''));
+    onUpdate(merged);
+  };
+
+  const unsubscribes = (['orders', 'returns'] as const).map((collectionName) =>
+    onSnapshot(
+      // deletedAt is an ISO string, so any value sorts after ''
+      query(collection(db, collectionName), where('deletedAt', '>', '')),
+      (snapshot) => {
+        results[collectionName] = snapshot.docs.map((docSnap) => ({
+          id: docSnap.id,
+          ...docSnap.data(),
+          _collection: collectionName,
+        } as Order));
+        emit();
+      },
+      (error) => {
+        console.error(`Error subscribing to trashed ${collectionName}:`, error);
+      }
+    )
+  );
+
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+};
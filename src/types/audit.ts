@@ -0,0 +1,34 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type AuditCollection = 'orders' | 'returns';
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// One field's before/after in a write ("purchaseOrder.receivedAt" for purchase order fields)
+export interface AuditChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * One write to an order or return, recorded by the auditOrderChanges /
+ * auditReturnChanges triggers in functions/src/auditLog.ts
+ * Entries are only ever created server-side - never edited or removed
+ */
+export interface AuditEntry {
+  id: string;
+  collection: AuditCollection;
+  docId: string;
+  orderNumber: string;
+  item: string;
+  action: AuditAction;
+  changes: AuditChange[];
+  fields: string[];
+  changedBy: string;          // email, or 'system' / 'tracking refresh' / 'ebay notifications'
+  changedAt: Date;
+}
+
+// Audit entry as stored in Firestore
+export interface AuditEntryFirestore extends Omit<AuditEntry, 'id' | 'changedAt'> {
+  changedAt: Timestamp;
+}
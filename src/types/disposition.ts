@@ -0,0 +1,58 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type DispositionAction = 'markdown' | 'bundle' | 'scrap' | 'yard';
+
+// open -> sold when the item sells, expired when the deadline passes without a sale,
+// closed when someone records the outcome by hand (scrapped, sold to yard, etc.)
+export type DispositionStatus = 'open' | 'sold' | 'expired' | 'closed';
+
+export interface DispositionOutcome {
+  soldAt?: Date;
+  orderId?: string;
+  salePrice?: number;
+  daysToSale?: number;
+  soldAfterDeadline?: boolean;
+  recoveredAmount?: number | null; // scrap/yard value recorded when closing by hand
+  note?: string;
+  closedBy?: string;
+  closedAt?: Date;
+}
+
+// What was decided for a dead-stock item, stored at dispositions/{id}
+export interface Disposition {
+  id: string;
+  itemId: string;
+  itemName: string;
+  action: DispositionAction;
+  targetPrice: number | null;
+  deadline: string; // YYYY-MM-DD
+  notes: string;
+  decidedBy: string;
+  decidedAt: Date;
+  lastSaleDateAtDecision: Date | null;
+  status: DispositionStatus;
+  outcome?: DispositionOutcome;
+  updatedAt: Date;
+}
+
+export interface DispositionOutcomeFirestore
+  extends Omit<DispositionOutcome, 'soldAt' | 'closedAt'> {
+  soldAt?: Timestamp;
+  closedAt?: Timestamp;
+}
+
+export interface DispositionFirestore
+  extends Omit<Disposition, 'id' | 'decidedAt' | 'lastSaleDateAtDecision' | 'outcome' | 'updatedAt'> {
+  decidedAt: Timestamp;
+  lastSaleDateAtDecision: Timestamp | null;
+  outcome?: DispositionOutcomeFirestore;
+  updatedAt: Timestamp;
+}
+
+// Summary kept on itemStats while a disposition is open
+export interface ActiveDisposition {
+  id: string;
+  action: DispositionAction;
+  targetPrice: number | null;
+  deadline: string;
+}
@@ -1,20 +1,11 @@
-export type OrderStatus =
-  | 'not shipped'
-  | 'notShipped'
-  | 'processing'
-  | 'shipped'
-  | 'delivered'
-  | 'completed'
-  | 'return'
-  | 'return done'
-  | 'return complete'
-  | 'return delivered'
-  | 'refunded';
+import { PurchaseOrder } from './purchaseOrder';
+import { UserRole } from './roles';
+import { OrderStatus, LegacyOrderStatus } from './orderStatus';
 
 export interface Order {
   id: string;
   orderNumber: string;
-  status: OrderStatus;
+  status: OrderStatus | LegacyOrderStatus;
   item: string;
   itemId?: string;
   quantity: number;
@@ -38,6 +29,9 @@ export interface Order {
   dueDate?: string;
   time?: string | Date;
   updatedAt?: string;
+  updatedBy?: string;         // email of whoever last saved it (credited in the audit log)
+  deletedAt?: string;         // set while in the trash (purged after the retention period)
+  deletedBy?: string;
   
   // Tracking Information
   tracking?: string;
@@ -46,11 +40,13 @@ export interface Order {
   trackingStatusDetails?: string;
   trackingEta?: string;
   trackingLastChecked?: string;
+  labelPurchasedAt?: string;
   
   // Supplier Information
   supplier?: string;
   supplierContact?: string;
   supplierPhone?: string;
+  purchaseOrder?: PurchaseOrder;
   
   // Financial Information
   buyPrice?: string;
@@ -63,8 +59,11 @@ export interface Order {
   notes?: string;
 
   // Return-specific fields (for returns collection)
+  returnedAt?: string;
   returnTracking?: string;
   returnCarrier?: string;
+  returnLabelUrl?: string;
+  returnShipPrice?: string;
   returnTrackingStatus?: 'PRE_TRANSIT' | 'TRANSIT' | 'DELIVERED' | 'RETURNED' | 'FAILURE' | 'UNKNOWN';
   returnTrackingStatusDetails?: string;
   returnTrackingEta?: string;
@@ -80,6 +79,7 @@ export interface User {
   displayName: string | null;
   email: string | null;
   photoURL: string | null;
+  role: UserRole;             // from the ID token's custom claims
 }
 
 export interface EmployeeReport {
@@ -108,4 +108,40 @@ export interface Customer {
 export * from './staleItems';
 
 // Re-export item profile types
-export * from './itemProfile';
\ No newline at end of file
+export * from './itemProfile';
+
+// Re-export tracking types
+export * from './tracking';
+
+// Re-export repricing types
+export * from './repricing';
+
+// Re-export inventory types
+export * from './inventory';
+
+// Re-export disposition types
+export * from './disposition';
+
+// Re-export item alias types
+export * from './itemAlias';
+
+// Re-export item registry types
+export * from './itemRegistry';
+
+// Re-export profit report types
+export * from './profit';
+
+// Re-export supplier types
+export * from './supplier';
+
+// Re-export purchase order types
+export * from './purchaseOrder';
+
+// Re-export role types
+export * from './roles';
+
+// Re-export audit log types
+export * from './audit';
+
+// Re-export order status types
+export * from './orderStatus';
@@ -0,0 +1,25 @@
+// Physical stock for one item, stored at inventory/{normalized item name}
+// (same ID as the item profile)
+export interface InventoryRecord {
+  id: string;
+  itemName: string;
+  itemId?: string;
+  quantityOnHand: number;      // can go negative if we oversell
+  location: string;            // bin/shelf, e.g. "A3-2"
+  acquiredAt?: string;         // YYYY-MM-DD
+  acquisitionCost?: number;    // per unit
+  createdAt: string;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+// Each on-hand change, stored at inventory/{id}/movements/{movementId}
+export interface InventoryMovement {
+  id: string;
+  type: 'order' | 'return' | 'adjustment';
+  delta: number;
+  quantityAfter: number;
+  sourceRef: string | null;    // orders/{id} or returns/{id}
+  createdBy: string;
+  createdAt: string;
+}
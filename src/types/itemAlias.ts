@@ -0,0 +1,18 @@
+import { Timestamp } from 'firebase/firestore';
+
+// Another title that resolves to an existing item, stored at itemAliases/{aliasId}
+// aliasId is the normalized title - the itemStats ID the title would otherwise get
+export interface ItemAlias {
+  id: string;
+  aliasId: string;
+  aliasName: string;
+  targetId: string;
+  targetName: string;
+  source: 'merge' | 'manual';
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface ItemAliasFirestore extends Omit<ItemAlias, 'id' | 'createdAt'> {
+  createdAt: Timestamp;
+}
@@ -1,5 +1,15 @@
 import { Timestamp } from 'firebase/firestore';
 
+// Parcel from the last label bought for this item (prefills ShippingDialog)
+export interface ParcelPreset {
+  weightLbs: number;
+  weightOz: number;
+  length: number;          // inches
+  width: number;
+  height: number;
+  boxPreset?: string;      // named box preset ID, if one was used
+}
+
 export interface ItemProfile {
   id: string;              // normalized item name (document ID)
   itemName: string;        // original display name
@@ -9,6 +19,7 @@ export interface ItemProfile {
   ebayListingUrl: string;  // eBay listing link
   qualityNotes: string;    // known issues, inspection points
   vehicleFitment: string;  // year/make/model compatibility
+  parcelPreset?: ParcelPreset; // last shipped parcel
   createdAt: Date;
   updatedAt: Date;
   createdBy: string;
@@ -24,6 +35,7 @@ export interface ItemProfileFirestore {
   ebayListingUrl: string;
   qualityNotes: string;
   vehicleFitment: string;
+  parcelPreset?: ParcelPreset;
   createdAt: Timestamp;
   updatedAt: Timestamp;
   createdBy: string;
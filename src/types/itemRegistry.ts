@@ -0,0 +1,34 @@
+import { Timestamp } from 'firebase/firestore';
+
+export interface RegistryTitle {
+  title: string;
+  source: 'order' | 'ebay' | 'migration';
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+// Canonical identity for a SKU, stored at itemRegistry/{skuKey}
+// Every title the SKU sold or listed under resolves to the same itemStats and profile
+export interface ItemRegistryEntry {
+  id: string;              // SKU key (uppercased SKU)
+  sku: string;
+  statsId: string;         // itemStats doc ID
+  profileId: string;       // itemProfiles doc ID
+  currentTitle: string;
+  titles: RegistryTitle[];
+  ebayItemId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RegistryTitleFirestore extends Omit<RegistryTitle, 'firstSeenAt' | 'lastSeenAt'> {
+  firstSeenAt: Timestamp;
+  lastSeenAt: Timestamp;
+}
+
+export interface ItemRegistryEntryFirestore
+  extends Omit<ItemRegistryEntry, 'id' | 'titles' | 'createdAt' | 'updatedAt'> {
+  titles: RegistryTitleFirestore[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
@@ -0,0 +1,38 @@
+// Canonical order/return statuses
+// Allowed transitions and their rules live in src/services/orderStatus.ts,
+// mirrored server-side in functions/src/orderStatus.ts
+export type OrderStatus =
+  | 'not shipped'
+  | 'processing'
+  | 'shipped'
+  | 'delivered'
+  | 'completed'
+  | 'return'
+  | 'return delivered'
+  | 'refunded'
+  | 'return complete'
+  | 'cancelled';
+
+// Older spellings still on some docs until the normalizeOrderStatuses migration runs
+// ('notShipped' -> 'not shipped', 'return done' -> 'return complete')
+export type LegacyOrderStatus = 'notShipped' | 'return done';
+
+// Where a status sits in an order's life (drives list filters and counts)
+export type OrderStatusStage = 'open' | 'shipped' | 'return' | 'closed';
+
+// What has to be on the order/return before it can move into a status
+export type StatusRequirement = 'tracking' | 'credited';
+
+// What moving into a status sets off
+// openReturnTicket: an order moving to 'return' is copied to a return ticket and
+// ends up 'return complete' (or reset to 'not shipped' for a replacement)
+// restockInventory: a return reaching us puts the part back on the shelf
+export type StatusEffect = 'openReturnTicket' | 'restockInventory';
+
+export interface OrderStatusRule {
+  label: string;
+  stage: OrderStatusStage;
+  next: OrderStatus[];            // statuses it can move to
+  requires: StatusRequirement[];  // checked when moving into it
+  effects: StatusEffect[];        // set off when moving into it
+}
@@ -0,0 +1,27 @@
+// One sale in the profitability report - an itemStats sale record joined
+// with its order for the supplier and employee
+export interface ProfitSale {
+  orderId: string;
+  orderNumber?: string;
+  itemStatsId: string;
+  itemName: string;
+  saleDate: Date;
+  salePrice: number;
+  cost: number;          // purchase + shipping
+  profit: number;
+  profitMargin: number;  // percent of sale price
+  supplier: string;
+  employee: string;
+}
+
+// Sales rolled up by item, supplier or month
+export interface ProfitGroup {
+  key: string;
+  label: string;
+  saleCount: number;
+  revenue: number;
+  cost: number;
+  profit: number;
+  margin: number;        // percent of revenue
+  negativeSales: number;
+}
@@ -0,0 +1,41 @@
+// Where the supplier sends the part: to us to check and reship, or straight to the buyer
+export type PurchaseOrderShipTo = 'us' | 'buyer';
+
+export type InspectionResult = 'passed' | 'failed';
+
+/**
+ * Purchase from the supplier for a sourced part, stored on the order as
+ * orders/{id}.purchaseOrder
+ * Inbound tracking is refreshed through the getShippoTracking callable,
+ * and its checkpoints are saved with field 'inboundTracking'.
+ */
+export interface PurchaseOrder {
+  supplierOrderNumber: string;
+  shipTo: PurchaseOrderShipTo;
+  orderedAt?: string;              // ISO
+  expectedArrival?: string;        // YYYY-MM-DD (to our door, or to the buyer when drop-shipped)
+
+  // Supplier -> us (or the buyer) shipment
+  inboundTracking?: string;
+  inboundCarrier?: string;
+  inboundTrackingStatus?: 'PRE_TRANSIT' | 'TRANSIT' | 'DELIVERED' | 'RETURNED' | 'FAILURE' | 'UNKNOWN';
+  inboundTrackingStatusDetails?: string;
+  inboundTrackingEta?: string | null;
+  inboundTrackingLastChecked?: string;
+
+  // Received at our door / inspected before reshipping (shipTo 'us' only)
+  receivedAt?: string;
+  receivedBy?: string;
+  inspectedAt?: string;
+  inspectedBy?: string;
+  inspectionResult?: InspectionResult;
+  inspectionNotes?: string;
+
+  // Kept in sync on every save so OrderList can query open purchase orders
+  awaitingSupplier: boolean;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Where a purchase order is in its life
+export type PurchaseOrderStage = 'ordered' | 'inTransit' | 'delivered' | 'received' | 'inspected';
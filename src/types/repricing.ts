@@ -0,0 +1,63 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type RepricingStatus = 'pending' | 'accepted' | 'rejected';
+
+// One suggested listing price per stale item, stored at repricingRecommendations/{itemId}
+export interface RepricingRecommendation {
+  id: string;
+  itemId: string;
+  itemName: string;
+  status: RepricingStatus;
+  currentPrice: number;
+  suggestedPrice: number;
+  changePercent: number;
+  daysSinceLastSale: number;
+  marketPosition: {
+    avgPrice: number;
+    minPrice: number;
+    maxPrice: number;
+    stdDev: number;
+    totalListings: number;
+    percentile: number;
+  } | null;
+  engagement: {
+    views30Day: number;
+    watchers: number;
+    salesLast30Days: number;
+    conversionRate: number | null;
+  } | null;
+  marginFloor: {
+    avgPurchaseCost: number;
+    avgShipCost: number;
+    floorPrice: number;
+  } | null;
+  pastSaleToMarketRatio: number | null;
+  reasons: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  decidedAt?: Date;
+  decidedBy?: string;
+  finalPrice?: number;
+}
+
+export interface RepricingRecommendationFirestore
+  extends Omit<RepricingRecommendation, 'id' | 'createdAt' | 'updatedAt' | 'decidedAt'> {
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  decidedAt?: Timestamp;
+}
+
+// Append-only log of accept/reject decisions, stored at repricingDecisions/{id}
+export interface RepricingDecisionFirestore {
+  recommendationId: string;
+  itemId: string;
+  itemName: string;
+  decision: Exclude<RepricingStatus, 'pending'>;
+  previousPrice: number;
+  suggestedPrice: number;
+  finalPrice: number | null;
+  reasons: string[];
+  note: string | null;
+  decidedBy: string;
+  decidedAt: Timestamp;
+}
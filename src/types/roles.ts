@@ -0,0 +1,26 @@
+import { Timestamp } from 'firebase/firestore';
+
+// Each role can do everything the roles before it can
+export type UserRole = 'employee' | 'manager' | 'admin';
+
+/**
+ * Role assigned to a user, stored at userRoles/{email}
+ * functions/src/roles.ts copies it into the user's custom claims, which is
+ * what the callables check
+ */
+export interface UserRoleAssignment {
+  email: string;
+  role: UserRole;
+  updatedBy: string;
+  updatedAt: Date;
+  claimsSyncedAt?: Date;
+}
+
+// Role assignment as stored in Firestore
+export interface UserRoleAssignmentFirestore {
+  email: string;
+  role: UserRole;
+  updatedBy: string;
+  updatedAt: Timestamp;
+  claimsSyncedAt?: Timestamp;
+}
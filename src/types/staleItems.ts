@@ -1,4 +1,5 @@
 import { Timestamp } from 'firebase/firestore';
+import { ActiveDisposition } from './disposition';
 
 export interface PricingData {
   avgPrice: number;
@@ -27,6 +28,73 @@ export interface VehicleInfo {
   variantLabel?: string;
 }
 
+export type StaleSeverity = 'watch' | 'stale' | 'dead';
+
+// Which stale rule flagged an item (written by the nightly stale metrics job)
+export interface StaleRuleMatch {
+  ruleSetId: string;
+  ruleSetName: string;
+  ruleId: string;
+  ruleName: string;
+  severity: StaleSeverity;
+}
+
+// All conditions must hold; eBay/market conditions don't match items without that data
+export interface StaleRuleConditions {
+  minDaysSinceLastSale?: number | 'itemThreshold'; // 'itemThreshold' = item's staleThresholdDays
+  maxViews30Day?: number;
+  maxWatchers?: number;
+  minMarketListings?: number;
+  maxMarginPercent?: number;
+}
+
+export interface StaleRule {
+  id: string;
+  name: string;
+  severity: StaleSeverity;
+  conditions: StaleRuleConditions;
+}
+
+// Stored at staleRuleSets/{id}
+export interface StaleRuleSet {
+  id: string;
+  name: string;
+  enabled: boolean;
+  isDefault: boolean;
+  priority: number;
+  appliesTo: {
+    partTypes?: string[];    // vehicleInfo.part
+    categories?: string[];   // itemStats.category
+  };
+  rules: StaleRule[];
+  unreviewAfterDays: number;
+}
+
+export interface ForecastBand {
+  expected: number;
+  low: number;
+  high: number;
+}
+
+// Expected demand, recalculated nightly from the sales subcollection
+export interface DemandForecast {
+  next30: ForecastBand;
+  next60: ForecastBand;
+  next90: ForecastBand;
+  expectedDaysToNextSale: number | null; // null = not expected within a year
+  dailyRate: number;
+  seasonalIndex: number[]; // Jan..Dec, 1 = average month
+  isSeasonal: boolean;
+  peakMonths: number[]; // 1-12
+  salesConsidered: number;
+  method: string;
+  calculatedAt: Date;
+}
+
+export interface DemandForecastFirestore extends Omit<DemandForecast, 'calculatedAt'> {
+  calculatedAt: Timestamp;
+}
+
 export interface ItemStats {
   id: string;
   itemName: string;
@@ -40,6 +108,9 @@ export interface ItemStats {
   salesVelocity: number;
   isStale: boolean;
   staleThresholdDays: number;
+  staleSeverity?: StaleSeverity | null;
+  staleRule?: StaleRuleMatch | null;
+  category?: string;
   pricingData?: PricingData;
   ebayMetrics?: EbayMetrics;
   vehicleInfo?: VehicleInfo;
@@ -53,9 +124,18 @@ export interface ItemStats {
   // Sales by period for trends
   salesByWeek?: Record<string, number>;
   salesByMonth?: Record<string, number>;
+  // Daily sale counts for the last 90 days (feeds salesLast30Days/salesLast90Days)
+  salesByDay?: Record<string, number>;
+  // Demand forecast (next 30/60/90 days)
+  forecast?: DemandForecast;
   // eBay listing flag (for filtering)
   inEbayListings?: boolean;
   ebayListingUpdatedAt?: Date;
+  // Accepted repricing recommendation
+  targetListingPrice?: number;
+  targetListingPriceSetAt?: Date;
+  // Open dead-stock disposition (markdown, bundle, scrap, yard)
+  activeDisposition?: ActiveDisposition;
   // Review tracking
   reviewedAt?: Date;
   createdAt: Date;
@@ -75,6 +155,9 @@ export interface ItemStatsFirestore {
   salesVelocity: number;
   isStale: boolean;
   staleThresholdDays: number;
+  staleSeverity?: StaleSeverity | null;
+  staleRule?: StaleRuleMatch | null;
+  category?: string;
   pricingData?: {
     avgPrice: number;
     minPrice: number;
@@ -102,9 +185,18 @@ export interface ItemStatsFirestore {
   // Sales by period for trends
   salesByWeek?: Record<string, number>;
   salesByMonth?: Record<string, number>;
+  // Daily sale counts for the last 90 days (feeds salesLast30Days/salesLast90Days)
+  salesByDay?: Record<string, number>;
+  // Demand forecast (next 30/60/90 days)
+  forecast?: DemandForecastFirestore;
   // eBay listing flag
   inEbayListings?: boolean;
   ebayListingUpdatedAt?: Timestamp;
+  // Accepted repricing recommendation
+  targetListingPrice?: number;
+  targetListingPriceSetAt?: Timestamp;
+  // Open dead-stock disposition (markdown, bundle, scrap, yard)
+  activeDisposition?: ActiveDisposition;
   // Review tracking
   reviewedAt?: Timestamp;
   createdAt: Timestamp;
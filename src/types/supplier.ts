@@ -0,0 +1,66 @@
+import { Timestamp } from 'firebase/firestore';
+
+// A person to call at a supplier
+export interface SupplierContact {
+  name: string;
+  phone: string;
+  email?: string;
+}
+
+// What we usually agree with a supplier - prefilled onto new orders where it applies
+export interface SupplierTerms {
+  paymentTerms: string;            // e.g., "Card on order", "Net 30"
+  defaultShipPrice: number | null; // what they usually charge to drop ship
+  leadTimeDays: number | null;     // days they usually take to ship
+  returnPolicy: string;
+}
+
+/**
+ * Supplier in the directory, stored at suppliers/{id}
+ * Orders still keep the supplier name as text; the directory is matched to
+ * them by name (case-insensitive)
+ */
+export interface Supplier {
+  id: string;
+  name: string;
+  contacts: SupplierContact[];
+  defaultTerms: SupplierTerms;
+  notes: string;
+  createdAt: Date;
+  createdBy: string;
+  updatedAt: Date;
+}
+
+// Supplier as stored in Firestore
+export interface SupplierFirestore {
+  name: string;
+  nameKey: string;                 // lowercase name for matching orders
+  contacts: SupplierContact[];
+  defaultTerms: SupplierTerms;
+  notes: string;
+  createdAt: Timestamp;
+  createdBy: string;
+  updatedAt: Timestamp;
+}
+
+// Supplier fields edited in the directory dialog
+export type SupplierInput = Pick<Supplier, 'name' | 'contacts' | 'defaultTerms' | 'notes'>;
+
+/**
+ * Performance of one supplier, computed from the orders and returns they
+ * fulfilled (not stored)
+ */
+export interface SupplierScorecard {
+  key: string;                     // lowercase supplier name
+  name: string;
+  supplierId: string | null;       // null if the name isn't in the directory
+  orderCount: number;              // orders fulfilled, including ones later returned
+  returnCount: number;             // orders that moved into returns
+  returnRate: number;              // percent of orderCount
+  avgBuyPrice: number | null;
+  revenue: number;
+  cost: number;                    // buy + ship on orders that weren't returned
+  margin: number | null;           // percent of revenue
+  avgDaysToShip: number | null;    // paid -> label purchased
+  volumeByMonth: Record<string, number>; // "2025-03" -> orders
+}
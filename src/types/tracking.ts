@@ -0,0 +1,18 @@
+// A single carrier checkpoint, stored at {orders|returns}/{id}/trackingEvents/{eventId}
+export interface TrackingEvent {
+  id: string;
+  field: 'tracking' | 'returnTracking' | 'inboundTracking'; // which shipment on the doc it belongs to
+  trackingNumber?: string;     // the field's number when it was recorded (missing on older events)
+  status: 'PRE_TRANSIT' | 'TRANSIT' | 'DELIVERED' | 'RETURNED' | 'FAILURE' | 'UNKNOWN';
+  substatus: string | null;
+  statusDetails: string;
+  statusDate: string | null;   // when the carrier recorded it (ISO)
+  location: {
+    city: string;
+    state: string;
+    zip: string;
+    country: string;
+  } | null;
+  source: 'shippo_webhook' | 'scheduled_refresh' | 'card_refresh';
+  receivedAt: string;
+}